@@ -1,5 +1,5 @@
 import { eventsSchema, CloseReasons } from "./shared";
-import { encode, decode } from "zod-serialize";
+import { encode, decode, encodeInto } from "zod-serialize";
 
 const buildOutput = await Bun.build({
   target: "browser",
@@ -77,8 +77,7 @@ const server = Bun.serve<Context>({
       );
     },
     close: (ws, code, reason) => {},
-    // @ts-expect-error
-    message: (ws, message: string | ArrayBuffer) => {
+    message: (ws, message) => {
       if (typeof message === "string") {
         ws.close(CloseReasons.UnexpectedMessageType);
         return;
@@ -97,6 +96,9 @@ const server = Bun.serve<Context>({
   },
 });
 
+// player positions are encoded into the same buffer every tick
+const tickBuffer = new Uint8Array(64);
+
 const updateInterval = setInterval(() => {
   for (const [id] of players) {
     const movement = playerMovements.get(id);
@@ -106,13 +108,17 @@ const updateInterval = setInterval(() => {
     if (movement.dx !== 0 || movement.dy !== 0) {
       player.x += movement.dx;
       player.y += movement.dy;
-      const data = encode(eventsSchema, {
-        type: "playerPos",
-        id,
-        x: player.x,
-        y: player.y,
-      });
-      server.publish(WSChannels.PlayerUpdates, data);
+      const length = encodeInto(
+        eventsSchema,
+        {
+          type: "playerPos",
+          id,
+          x: player.x,
+          y: player.y,
+        },
+        tickBuffer,
+      );
+      server.publish(WSChannels.PlayerUpdates, tickBuffer.subarray(0, length));
     }
   }
 }, 1000 / 60);
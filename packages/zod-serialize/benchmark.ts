@@ -0,0 +1,26 @@
+// bun benchmark.ts
+// measures the encode and decode throughput of the complex object fixture, the tests only compare the encoder with concatenating buffers because the numbers depend on the machine
+import { decode, encode } from "./src/index";
+import { complexSchema, complexValue } from "./src/fixtures";
+
+const opsPerSecond = (fn: () => void, durationMs = 1000) => {
+  const start = performance.now();
+  let ops = 0;
+  while (performance.now() - start < durationMs) {
+    fn();
+    ops++;
+  }
+  return (ops / (performance.now() - start)) * 1000;
+};
+
+// warm up the codec and the jit
+for (let i = 0; i < 500; i++) {
+  decode(complexSchema, encode(complexSchema, complexValue));
+}
+
+const buffer = encode(complexSchema, complexValue);
+const encodeOps = opsPerSecond(() => encode(complexSchema, complexValue));
+const decodeOps = opsPerSecond(() => decode(complexSchema, buffer));
+console.log(
+  `complex objects (${buffer.byteLength} bytes): encode ${Math.round(encodeOps)} ops/s, decode ${Math.round(decodeOps)} ops/s`,
+);
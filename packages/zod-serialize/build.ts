@@ -1,18 +1,24 @@
 await Bun.build({
-  entrypoints: ["./src/index.ts"],
+  entrypoints: ["./src/index.ts", "./src/runtime.ts"],
+  // generated codecs import the runtime, the chunks keep its classes the same as the ones of the index
+  splitting: true,
   outdir: "./dist",
   target: "browser",
   external: ["zod"],
 });
 await Bun.build({
-  entrypoints: ["./src/index.ts"],
+  entrypoints: ["./src/index.ts", "./src/runtime.ts"],
+  // generated codecs import the runtime, the chunks keep its classes the same as the ones of the index
+  splitting: true,
   outdir: "./dist",
   target: "browser",
   minify: true,
   naming: "[dir]/[name].min.[ext]",
 });
 await Bun.build({
-  entrypoints: ["./src/index.ts"],
+  entrypoints: ["./src/index.ts", "./src/runtime.ts"],
+  // generated codecs import the runtime, the chunks keep its classes the same as the ones of the index
+  splitting: true,
   external: ["zod"],
   outdir: "./dist",
   target: "bun",
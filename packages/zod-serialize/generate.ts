@@ -0,0 +1,46 @@
+// bun generate.ts <module> <exportName> <outFile> [--integers varint] [--unions strict] [--header hash16] [--fingerprint structural] [--name Events] [--runtime zod-serialize/runtime]
+import { parseArgs } from "node:util";
+import { dirname, relative, resolve } from "node:path";
+import { generateCodec, type GenerateOptions } from "./src/index";
+
+const { positionals, values } = parseArgs({
+  args: Bun.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    integers: { type: "string" },
+    unions: { type: "string" },
+    header: { type: "string" },
+    fingerprint: { type: "string" },
+    name: { type: "string" },
+    runtime: { type: "string" },
+  },
+});
+
+const [modulePath, exportName, outFile] = positionals;
+if (!modulePath || !exportName || !outFile) {
+  console.error(
+    "usage: bun generate.ts <module> <exportName> <outFile> [--integers varint] [--unions strict] [--header hash16] [--fingerprint structural] [--name Events] [--runtime zod-serialize/runtime]",
+  );
+  process.exit(1);
+}
+
+const schema = (await import(resolve(modulePath)))[exportName];
+if (!schema) {
+  console.error(`${modulePath} doesn't export ${exportName}`);
+  process.exit(1);
+}
+
+// the generated module imports the schema relative to itself
+const from = relative(dirname(resolve(outFile)), resolve(modulePath)).replace(
+  /\.[cm]?[jt]sx?$/,
+  "",
+);
+
+await Bun.write(
+  outFile,
+  generateCodec(schema, {
+    ...(values as Partial<GenerateOptions>),
+    from: from.startsWith(".") ? from : `./${from}`,
+    exportName,
+  }),
+);
@@ -0,0 +1,63 @@
+import type z from "zod";
+import type { IntegerEncoding } from "./index";
+
+export type TypedArrayConstructor =
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int8ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int16ArrayConstructor
+  | Uint32ArrayConstructor
+  | Int32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
+
+export type BinaryConstructor = ArrayBufferConstructor | TypedArrayConstructor;
+
+// the position in the list is part of the schema identity, new types have to be appended
+export const BINARY_TYPES: Array<BinaryConstructor> = [
+  ArrayBuffer,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int8Array,
+  Uint16Array,
+  Int16Array,
+  Uint32Array,
+  Int32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+];
+
+/**
+ * encoding options that are attached to a single schema node (see `zs`)
+ * - integers: applies to the node and everything nested inside of it
+ * - binary: the node is an instanceof schema for binary data that is written as raw bytes
+ */
+export type SchemaAnnotation = {
+  integers?: IntegerEncoding;
+  binary?: BinaryConstructor;
+};
+
+const annotations = new WeakMap<z.ZodTypeAny, SchemaAnnotation>();
+
+/**
+ * copy the schema and attach the annotation to the copy
+ * the passed schema is left untouched so other places that use it keep their encoding
+ */
+export const annotate = <T extends z.ZodTypeAny>(
+  schema: T,
+  annotation: SchemaAnnotation,
+): T => {
+  const Schema = schema.constructor as new (def: T["_def"]) => T;
+  const annotated = new Schema(schema._def);
+  annotations.set(annotated, { ...annotations.get(schema), ...annotation });
+  return annotated;
+};
+
+export const getAnnotation = (
+  schema: z.ZodTypeAny,
+): SchemaAnnotation | undefined => annotations.get(schema);
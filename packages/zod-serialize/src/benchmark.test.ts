@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test";
+import { heapStats } from "bun:jsc";
+import { encode, decode } from ".";
+import { complexSchema, complexValue } from "./fixtures";
+
+const BUFFER_TYPES = [
+  "ArrayBuffer",
+  "DataView",
+  "Int8Array",
+  "Int16Array",
+  "Int32Array",
+  "BigInt64Array",
+  "Float64Array",
+] as const;
+
+/**
+ * count the buffers allocated by `fn`
+ * heapStats counts every object that was allocated since the last garbage collection
+ * so we collect first and run only a few iterations to not trigger a collection in between
+ */
+const countBufferAllocations = (fn: () => void, iterations: number) => {
+  Bun.gc(true);
+  const before = heapStats().objectTypeCounts;
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  const after = heapStats().objectTypeCounts;
+  return BUFFER_TYPES.reduce(
+    (sum, type) => sum + (after[type] ?? 0) - (before[type] ?? 0),
+    0,
+  );
+};
+
+const opsPerSecond = (fn: () => void, durationMs = 200) => {
+  const start = performance.now();
+  let ops = 0;
+  while (performance.now() - start < durationMs) {
+    fn();
+    ops++;
+  }
+  return (ops / (performance.now() - start)) * 1000;
+};
+
+const textEncoder = new TextEncoder();
+
+/**
+ * encodes the way `encode` did before the writer: every node into its own buffer that the parent concatenates
+ * the bytes are not the wire format, only the allocations and copies are the same
+ */
+const concatenatingEncode = (value: unknown): ArrayBuffer => {
+  const tagged = (tag: number, children: Array<ArrayBuffer | Uint8Array>) =>
+    Bun.concatArrayBuffers([new Uint8Array([tag]), ...children]);
+  switch (true) {
+    case typeof value === "number": {
+      const buffer = new ArrayBuffer(9);
+      new DataView(buffer).setFloat64(1, value);
+      return buffer;
+    }
+    case typeof value === "string":
+      return tagged(1, [textEncoder.encode(value)]);
+    case typeof value === "boolean":
+      return new Uint8Array([value ? 1 : 0]).buffer;
+    case value === undefined || value === null:
+      return new Uint8Array([2]).buffer;
+    case value instanceof Date:
+      return tagged(3, [concatenatingEncode(value.getTime())]);
+    case value instanceof Map:
+      return tagged(
+        6,
+        [...value].flat().map((entry) => concatenatingEncode(entry)),
+      );
+    case value instanceof Set || Array.isArray(value):
+      return tagged(
+        4,
+        [...value].map((element) => concatenatingEncode(element)),
+      );
+    default:
+      return tagged(
+        2,
+        Object.values(value as object).map((field) =>
+          concatenatingEncode(field),
+        ),
+      );
+  }
+};
+
+describe("benchmark", () => {
+  // warm up the codec and the jit
+  for (let i = 0; i < 500; i++) {
+    decode(complexSchema, encode(complexSchema, complexValue));
+  }
+
+  it("allocates only the result buffer when encoding the complex object fixture", () => {
+    const iterations = 20;
+    const allocations = countBufferAllocations(
+      () => encode(complexSchema, complexValue),
+      iterations,
+    );
+    expect(allocations / iterations).toBeLessThanOrEqual(1);
+  });
+
+  it("encodes the complex object fixture faster than concatenating buffers", () => {
+    // the encoder before the writer parsed the value with zod first
+    const baseline = () =>
+      concatenatingEncode(complexSchema.parse(complexValue));
+    for (let i = 0; i < 500; i++) {
+      baseline();
+    }
+    const encodeOps = opsPerSecond(() => encode(complexSchema, complexValue));
+    const baselineOps = opsPerSecond(baseline);
+    // the writer is about 1.5 times as fast, only require it to be faster so a busy machine doesn't fail the test
+    expect(encodeOps).toBeGreaterThan(baselineOps);
+  });
+});
@@ -0,0 +1,3488 @@
+import z from "zod";
+import { rapidhash } from "rapidhash-js";
+import {
+  createWriter,
+  MAX_VARUINT_LENGTH,
+  readVarUint,
+  reserve,
+  toArrayBuffer,
+  toBytes,
+  varUintLength,
+  writeBigInt64,
+  writeBytes,
+  writeFloat64,
+  writeInt16,
+  writeInt32,
+  writeInt8,
+  writeUint16,
+  writeUint8,
+  writeVarUint,
+  type Writer,
+} from "./writer";
+import {
+  prependPath,
+  toSerializeError,
+  ZodSerializeError,
+  type SafeResult,
+} from "./errors";
+import {
+  BINARY_TYPES,
+  getAnnotation,
+  type BinaryConstructor,
+} from "./annotations";
+import {
+  COMPRESSION_FORMATS,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  DEFAULT_MAX_DECOMPRESSED_BYTES,
+  compressAsync,
+  decompressAsync,
+  syncCompression,
+  type CompressionFormat,
+  type CompressionOptions,
+} from "./compression";
+
+// 3 bits
+export enum Types {
+  Nummeric, // 0b000
+  String, // 0b001
+  Object, // 0b010
+  Date, // 0b011
+  Array, // 0b100
+  Union, // 0b101
+  Map, // 0b110
+  Binary, // 0b111
+}
+
+export enum NumberType {
+  i8 = 0x0,
+  f64 = 0x1,
+  i16 = 0x2,
+  i32 = 0x3,
+  i64bigInt = 0x4,
+  i64 = 0x5,
+  NaN = 0x6,
+  Infinity = 0x7,
+  NegativeInfinity = 0x8,
+  BooleanTrue = 0x9,
+  BooleanFalse = 0xa,
+  varint = 0xb,
+  varintBigInt = 0xc,
+}
+
+/**
+ * how integers are written
+ * - fixed: the smallest of the fixed widths i8, i16, i32 or i64
+ * - varint: zigzag LEB128 varint if it is shorter than the fixed width.
+ *   buffers with varints can only be decoded by versions that know the varint number types
+ */
+export type IntegerEncoding = "fixed" | "varint";
+
+const FIXED_INTEGER_LENGTH: Partial<Record<NumberType, number>> = {
+  [NumberType.i8]: 1,
+  [NumberType.i16]: 2,
+  [NumberType.i32]: 4,
+  [NumberType.i64]: 8,
+  [NumberType.i64bigInt]: 8,
+};
+
+/**
+ * zigzag maps signed integers to unsigned ones so small negative numbers stay small
+ * 0 => 0, -1 => 1, 1 => 2, -2 => 3, ...
+ * numbers whose zigzag value is not a safe integer are mapped as bigint
+ */
+const zigzag = (value: number | bigint): number | bigint => {
+  if (typeof value === "number" && Math.abs(value) <= 2 ** 51) {
+    return value >= 0 ? value * 2 : -value * 2 - 1;
+  }
+  const big = BigInt(value);
+  return big >= 0n ? big << 1n : (-big << 1n) - 1n;
+};
+
+const getNumberType = (value: number | bigint | boolean): NumberType => {
+  if (typeof value === "boolean") {
+    return value ? NumberType.BooleanTrue : NumberType.BooleanFalse;
+  }
+  if (typeof value === "bigint") {
+    if (value > 2n ** 63n - 1n) {
+      throw new ZodSerializeError(
+        "LIMIT_EXCEEDED",
+        "value: " + value + " is to big for serialization (bigger than 2^63-1)",
+      );
+    }
+    if (value < -(2n ** 63n)) {
+      throw new ZodSerializeError(
+        "LIMIT_EXCEEDED",
+        "value: " +
+          value +
+          " is to small for serialization (smaller than -2^63)",
+      );
+    }
+    return NumberType.i64bigInt;
+  }
+  if (Number.isNaN(value)) {
+    return NumberType.NaN;
+  }
+  if (value === Infinity) {
+    return NumberType.Infinity;
+  }
+  if (value === -Infinity) {
+    return NumberType.NegativeInfinity;
+  }
+  if (Number.isInteger(value)) {
+    if (value >= -128 && value <= 127) {
+      return NumberType.i8;
+    }
+    if (value >= -32768 && value <= 32767) {
+      return NumberType.i16;
+    }
+    if (value >= -2147483648 && value <= 2147483647) {
+      return NumberType.i32;
+    }
+    if (value > Number.MAX_SAFE_INTEGER || value < Number.MIN_SAFE_INTEGER) {
+      console.warn(
+        "number: " +
+          value +
+          " is not a safe integer consider using bigInts we will encode it but without waranty",
+      );
+    }
+    return NumberType.i64;
+  } else {
+    return NumberType.f64;
+  }
+};
+
+/**
+*  encode a nummeric value
+*  this includes booleans
+* - header byte:
+      - 3 bits type tag
+      - 1 bit padding
+      - 4 bits Number type tag
+  - content byte(s):
+      - NaN | Infinity | -Infinity => 0 bytes only header
+      - jBooleanTrue | BooleanFalse => 0 bytes only header
+      - i8 => 1 byte
+      - i16 => 2 bytes
+      - i32 => 4 bytes
+      - i64bigInt => 8 bytes numbers will be converted to bigint
+      - i64 => 8 bytes
+      - f64 => 8 bytes
+      - varint | varintBigInt => 1-10 bytes zigzag LEB128 (only with the varint integer encoding)
+* @param value nummeric value
+* @param writer writer the encoded value is written to
+* @param integers how integers are written
+*/
+export const encodeNumeric = (
+  value: number | bigint | boolean,
+  writer: Writer,
+  integers: IntegerEncoding = "fixed",
+): void => {
+  const type = getNumberType(value);
+  const fixedLength = FIXED_INTEGER_LENGTH[type];
+  if (integers === "varint" && fixedLength !== undefined) {
+    const zigzagged = zigzag(value as number | bigint);
+    if (varUintLength(zigzagged) < fixedLength) {
+      const varintType =
+        type === NumberType.i64bigInt
+          ? NumberType.varintBigInt
+          : NumberType.varint;
+      writeUint8(writer, (Types.Nummeric << 5) | varintType);
+      writeVarUint(writer, zigzagged);
+      return;
+    }
+  }
+  writeUint8(writer, (Types.Nummeric << 5) | type);
+  if (type === NumberType.i8) {
+    writeInt8(writer, value as number);
+  } else if (type === NumberType.i16) {
+    writeInt16(writer, value as number, true);
+  } else if (type === NumberType.i32) {
+    writeInt32(writer, value as number, true);
+  } else if (type === NumberType.i64 || type === NumberType.i64bigInt) {
+    writeBigInt64(writer, BigInt(value as number), true);
+  } else if (type === NumberType.f64) {
+    writeFloat64(writer, value as number, true);
+  } else if (
+    type !== NumberType.NaN &&
+    type !== NumberType.Infinity &&
+    type !== NumberType.NegativeInfinity &&
+    type !== NumberType.BooleanTrue &&
+    type !== NumberType.BooleanFalse
+  ) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      "unknown number type: " + type,
+    );
+  }
+};
+
+/**
+ * layouts of numbers and booleans whose schema restricts them enough to be written without a type tag
+ * the values are part of the schema identity, they start after the `Types` so they never collide with them
+ */
+export enum FixedLayout {
+  u8 = 0x10,
+  i8,
+  u16,
+  i16,
+  u32,
+  i32,
+  u64,
+  i64,
+  f64,
+  bool,
+}
+
+// smallest first, numbers only use the layouts up to 32 bits
+const INTEGER_LAYOUTS: Array<[FixedLayout, number | bigint, number | bigint]> =
+  [
+    [FixedLayout.u8, 0, 0xff],
+    [FixedLayout.i8, -0x80, 0x7f],
+    [FixedLayout.u16, 0, 0xffff],
+    [FixedLayout.i16, -0x8000, 0x7fff],
+    [FixedLayout.u32, 0, 0xffffffff],
+    [FixedLayout.i32, -0x80000000, 0x7fffffff],
+    [FixedLayout.u64, 0n, 2n ** 64n - 1n],
+    [FixedLayout.i64, -(2n ** 63n), 2n ** 63n - 1n],
+  ];
+
+const step = (value: number | bigint, by: 1 | -1): number | bigint =>
+  typeof value === "bigint" ? value + BigInt(by) : value + by;
+
+/**
+ * pick the layout from the checks of the schema
+ * - z.boolean() => 1 byte, 0 or 1
+ * - integers with a lower and an upper bound (z.number().int().min().max(), z.bigint().min().max()) => the smallest integer that fits the range
+ *   numbers use at most 32 bits, wider numbers keep the type tag
+ * - z.number().finite() => f64
+ * everything else keeps the type tag and the width is picked per value, so do all numbers and booleans of protocol version 1
+ */
+export const getFixedLayout = (
+  schema: z.ZodTypeAny,
+  layout: WireLayout,
+): FixedLayout | undefined => {
+  if (layout === "versionOne") {
+    return undefined;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return FixedLayout.bool;
+  }
+  if (!(schema instanceof z.ZodNumber) && !(schema instanceof z.ZodBigInt)) {
+    return undefined;
+  }
+  const isBigInt = schema instanceof z.ZodBigInt;
+  let integer = isBigInt;
+  let finite = false;
+  let min: number | bigint = -Infinity;
+  let max: number | bigint = Infinity;
+  for (const check of schema._def.checks as Array<
+    z.ZodNumberCheck | z.ZodBigIntCheck
+  >) {
+    switch (check.kind) {
+      case "int":
+        integer = true;
+        break;
+      case "finite":
+        finite = true;
+        break;
+      // exclusive bounds are moved by one, for integer ranges that is the same as the next integer
+      case "min": {
+        const bound = check.inclusive ? check.value : step(check.value, 1);
+        min = bound > min ? bound : min;
+        break;
+      }
+      case "max": {
+        const bound = check.inclusive ? check.value : step(check.value, -1);
+        max = bound < max ? bound : max;
+        break;
+      }
+    }
+  }
+  if (integer) {
+    const fitting = INTEGER_LAYOUTS.find(
+      ([layout, lowest, highest]) =>
+        (isBigInt || layout <= FixedLayout.i32) &&
+        min >= lowest &&
+        max <= highest,
+    );
+    return fitting?.[0];
+  }
+  return finite ? FixedLayout.f64 : undefined;
+};
+
+/**
+ * accessor: the DataView method suffix, used by generated codecs (see `generateCodec`)
+ */
+type FixedCodec = {
+  length: number;
+  accessor: string;
+  write: (view: DataView, offset: number, value: any) => void;
+  read: (view: DataView, offset: number) => number | bigint | boolean;
+};
+
+// numeric bodies are little endian like the ones of tagged numbers
+export const FIXED_CODECS: Record<FixedLayout, FixedCodec> = {
+  [FixedLayout.u8]: {
+    length: 1,
+    accessor: "Uint8",
+    write: (view, offset, value) => view.setUint8(offset, value),
+    read: (view, offset) => view.getUint8(offset),
+  },
+  [FixedLayout.i8]: {
+    length: 1,
+    accessor: "Int8",
+    write: (view, offset, value) => view.setInt8(offset, value),
+    read: (view, offset) => view.getInt8(offset),
+  },
+  [FixedLayout.u16]: {
+    length: 2,
+    accessor: "Uint16",
+    write: (view, offset, value) => view.setUint16(offset, value, true),
+    read: (view, offset) => view.getUint16(offset, true),
+  },
+  [FixedLayout.i16]: {
+    length: 2,
+    accessor: "Int16",
+    write: (view, offset, value) => view.setInt16(offset, value, true),
+    read: (view, offset) => view.getInt16(offset, true),
+  },
+  [FixedLayout.u32]: {
+    length: 4,
+    accessor: "Uint32",
+    write: (view, offset, value) => view.setUint32(offset, value, true),
+    read: (view, offset) => view.getUint32(offset, true),
+  },
+  [FixedLayout.i32]: {
+    length: 4,
+    accessor: "Int32",
+    write: (view, offset, value) => view.setInt32(offset, value, true),
+    read: (view, offset) => view.getInt32(offset, true),
+  },
+  [FixedLayout.u64]: {
+    length: 8,
+    accessor: "BigUint64",
+    write: (view, offset, value) => view.setBigUint64(offset, value, true),
+    read: (view, offset) => view.getBigUint64(offset, true),
+  },
+  [FixedLayout.i64]: {
+    length: 8,
+    accessor: "BigInt64",
+    write: (view, offset, value) => view.setBigInt64(offset, value, true),
+    read: (view, offset) => view.getBigInt64(offset, true),
+  },
+  [FixedLayout.f64]: {
+    length: 8,
+    accessor: "Float64",
+    write: (view, offset, value) => view.setFloat64(offset, value, true),
+    read: (view, offset) => view.getFloat64(offset, true),
+  },
+  [FixedLayout.bool]: {
+    length: 1,
+    accessor: "Uint8",
+    write: (view, offset, value) => view.setUint8(offset, value ? 1 : 0),
+    read: (view, offset) => view.getUint8(offset) !== 0,
+  },
+};
+
+/**
+ * encoder and decoder for a value without type tag
+ * the value is written with exactly the bytes of the layout, the decoder knows the layout from the schema
+ */
+export const compileFixed = (
+  schema: z.ZodNumber | z.ZodBigInt | z.ZodBoolean,
+  layout: FixedLayout,
+): CompiledParts => {
+  const { length, write, read } = FIXED_CODECS[layout];
+  const coerce: boolean = schema._def.coerce;
+  const isBigInt = schema instanceof z.ZodBigInt;
+  // bigints that fit into 32 bits are written as numbers
+  const wide = layout === FixedLayout.u64 || layout === FixedLayout.i64;
+  const toWritten = (input: unknown) => {
+    switch (true) {
+      case schema instanceof z.ZodBoolean:
+        return coerce ? Boolean(input) : input;
+      case isBigInt && !wide:
+        return Number(input);
+      case isBigInt:
+        return coerce ? BigInt(input as string) : input;
+    }
+    return coerce ? Number(input) : input;
+  };
+  return {
+    encode: (input, { writer }) => {
+      reserve(writer, length);
+      write(writer.view, writer.offset, toWritten(input));
+      writer.offset += length;
+    },
+    decode: (ctx) => {
+      const value = read(ctx.view, ctx.offset);
+      ctx.offset += length;
+      return isBigInt && !wide ? BigInt(value) : value;
+    },
+  };
+};
+
+/**
+ * the values of schemas that are written as ordinal, the index of the value as LEB128 varint without type tag
+ * - z.enum() and z.nativeEnum(): their values in the order of the schema
+ * - string literals: their value, the ordinal is always 0
+ * only the compact layout writes ordinals, the tagged layout writes the values as strings and numbers
+ */
+export const getOrdinalMembers = (
+  schema: z.ZodTypeAny,
+  layout: WireLayout,
+): ReadonlyArray<string | number> | undefined => {
+  if (layout !== "compact") {
+    return undefined;
+  }
+  switch (true) {
+    case schema instanceof z.ZodEnum:
+      return schema.options;
+    case schema instanceof z.ZodNativeEnum:
+      return z.util.getValidEnumValues(schema.enum);
+    case schema instanceof z.ZodLiteral && typeof schema.value === "string":
+      return [schema.value];
+  }
+  return undefined;
+};
+
+const encodeOrdinal = (ordinal: number | undefined, writer: Writer): void => {
+  if (ordinal === undefined) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      "value is not a member of the enum",
+    );
+  }
+  writeVarUint(writer, ordinal);
+};
+
+export const decodeOrdinal = (count: number, ctx: DecodeContext): number => {
+  const offset = ctx.offset;
+  const ordinal = decodeVarUint(ctx);
+  if (ordinal >= count) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `enum ordinal ${ordinal} is out of range, the enum has ${count} members`,
+      { offset },
+    );
+  }
+  return ordinal;
+};
+
+const compileOrdinal = (
+  members: ReadonlyArray<string | number>,
+): CompiledParts => {
+  const ordinals = new Map(members.map((member, index) => [member, index]));
+  return {
+    encode: (input, { writer }) => encodeOrdinal(ordinals.get(input), writer),
+    decode: (ctx) => members[decodeOrdinal(members.length, ctx)],
+  };
+};
+
+/**
+ * object fields with a literal schema are not written in the compact layout, the decoder takes the value from the schema
+ * literals that are undefined are optional fields and written like them
+ */
+export const isElidedField = (
+  schema: z.ZodTypeAny,
+  layout: WireLayout,
+): schema is z.ZodLiteral<unknown> =>
+  layout === "compact" &&
+  schema instanceof z.ZodLiteral &&
+  schema.value !== undefined;
+
+const elidedField = (value: unknown): CompiledSchema => ({
+  encode: () => {},
+  decode: () => value,
+});
+
+const textEncoder = new TextEncoder();
+
+/**
+* header: 2-3 bytes (+ varint)
+   - 3 bits type tag
+   - 1 bit length type tag
+       - 0 => 12 bits length (len < 4096 bytes),
+       - 1 => 20 bits length (len < 1_048_576 bytes)
+         a 20 bits length of 0 is never written otherwise, it marks an extended header
+         that is followed by the length as LEB128 varint (bigger strings)
+    - length: (12 bits | 20 bits)
+       body:
+    text as utf-8
+* @param value string to be encoded
+  @param writer writer the encoded value is written to
+*/
+export const encodeString = (value: string, writer: Writer): void => {
+  const text = String(value);
+  const start = writer.offset;
+  // reserve space for the extended header and the worst case of 3 utf-8 bytes per utf-16 code unit
+  reserve(writer, 3 + MAX_VARUINT_LENGTH + text.length * 3);
+  const { written: length } = textEncoder.encodeInto(
+    text,
+    writer.bytes.subarray(start + 3),
+  );
+  // the text was written after the long header, move it next to the actual header
+  if (length < 2 ** 12) {
+    writer.bytes.copyWithin(start + 2, start + 3, start + 3 + length);
+    writer.view.setUint16(start, (Types.String << 13) | length);
+    writer.offset = start + 2 + length;
+  } else if (length < 2 ** 20) {
+    writer.view.setUint16(start, (Types.String << 13) | 0x1000 | (length >> 8));
+    writer.view.setUint8(start + 2, length & 0xff);
+    writer.offset = start + 3 + length;
+  } else {
+    const prefixLength = varUintLength(length);
+    writer.bytes.copyWithin(
+      start + 3 + prefixLength,
+      start + 3,
+      start + 3 + length,
+    );
+    writer.view.setUint16(start, (Types.String << 13) | 0x1000);
+    writer.view.setUint8(start + 2, 0);
+    writer.offset = start + 3;
+    writeVarUint(writer, length);
+    writer.offset += length;
+  }
+};
+
+/**
+* encode a date
+* - header: 1 byte
+    - 3 bits type tag
+    - 5 bits padding
+  - body:
+    - 8 bytes timestamp of the date in millis
+* @param value date to encode
+* @param writer writer the encoded value is written to
+*/
+const encodeDate = (value: Date, writer: Writer): void => {
+  writeUint8(writer, Types.Date << 5);
+  writeBigInt64(writer, BigInt(value.getTime()), true);
+};
+
+export enum ObjectTypes {
+  Object = 0b00,
+  Null = 0b01,
+  Undefined = 0b10,
+  UndefinedOptional = 0b11,
+}
+
+/**
+ * bitmaps of objects and deltas, bit `index` is the bit `index % 8` (lowest first) of the byte `index / 8`
+ * @param length the number of bits, unused bits of the last byte are 0
+ * @returns the offset of the bitmap, its bits are set after the values behind it are written
+ */
+export const writeBitmap = (writer: Writer, length: number): number => {
+  const start = writer.offset;
+  writeBytes(writer, new Uint8Array(Math.ceil(length / 8)));
+  return start;
+};
+
+export const setBit = (writer: Writer, start: number, index: number): void => {
+  writer.bytes[start + (index >> 3)] |= 1 << (index & 7);
+};
+
+export const readBitmap = (length: number, ctx: DecodeContext): Uint8Array => {
+  const byteLength = Math.ceil(length / 8);
+  ensureBytes(ctx, byteLength);
+  ctx.offset += byteLength;
+  return ctx.bytes.subarray(ctx.offset - byteLength, ctx.offset);
+};
+
+export const hasBit = (bitmap: Uint8Array, index: number): boolean =>
+  (bitmap[index >> 3] & (1 << (index & 7))) !== 0;
+
+// fields that allow null or undefined have 2 bits with their `ObjectTypes` in the bitmap of the object
+const setFieldState = (
+  writer: Writer,
+  start: number,
+  index: number,
+  state: ObjectTypes,
+): void => {
+  if (state & 0b01) {
+    setBit(writer, start, index);
+  }
+  if (state & 0b10) {
+    setBit(writer, start, index + 1);
+  }
+};
+
+/**
+ * @param offset offset of the bitmap, for the error of states the field doesn't allow
+ */
+export const readFieldState = (
+  bitmap: Uint8Array,
+  index: number,
+  field: { key: string; nullable: boolean; optional: boolean },
+  offset: number,
+): ObjectTypes => {
+  const state: ObjectTypes =
+    (hasBit(bitmap, index) ? 0b01 : 0) | (hasBit(bitmap, index + 1) ? 0b10 : 0);
+  if (
+    (state === ObjectTypes.Null && !field.nullable) ||
+    (state >= ObjectTypes.Undefined && !field.optional)
+  ) {
+    throw prependPath(
+      new ZodSerializeError(
+        "INVALID_VALUE",
+        `field state ${state} is not allowed by the schema`,
+        { offset: offset + (index >> 3) },
+      ),
+      field.key,
+    );
+  }
+  return state;
+};
+
+/**
+* encode an object
+  header: 1 byte
+    3 bits type tag
+    1 padding
+    2 bits type
+     - 0 => object
+     - 1 => null
+     - 2 => undefined (the value)
+     - 3 => undefined (optional field not present)
+    2 bits padding
+  bitmap: only in the compact layout, 0 or more bytes (see `writeBitmap`), the schema tells how many bits it has
+    - 2 bits for every field that allows null or undefined, the type of the field (like in the header)
+    - 1 bit for every boolean field, the value of the field
+  body:
+    each field encoded in order
+    - tagged layout: every field with its header, optional fields that are not present are only the header (type 3)
+    - compact layout: fields that are not present (by their 2 bits), booleans and literals are not written.
+      the values of fields that allow null or undefined are written without the header in front of values without type tag
+
+    note:
+    optional fields that are not present will also be not present after parsing
+    if they have the value undefined in them they will be present with the value undefined
+  ```ts
+    const schema = z.object({
+       foo: z.string().optional(),
+    });
+    decode(schema, encode(schema, {})); // => {}
+    decode(schema, encode(schema, { foo: undefined })); // => { foo: undefined }
+  ```
+
+* @param value object to encode
+* @param schema zod schema of the object
+* @param object compiled fields and bitmap of the object schema
+*/
+const encodeObject = (
+  value: Record<string, unknown>,
+  schema: z.AnyZodObject,
+  { fields, bits }: CompiledObject,
+  ctx: EncodeContext,
+): void => {
+  if (schema._def.unknownKeys === "passthrough") {
+    throw new ZodSerializeError(
+      "UNSUPPORTED_SCHEMA",
+      "unknown keys can not be encoded. Passthrough not supported",
+    );
+  }
+
+  const { writer } = ctx;
+  writeUint8(writer, Types.Object << 5);
+  const bitmap = writeBitmap(writer, bits);
+  for (const { key, optional, nullable, state, packed, compiled } of fields) {
+    const field = value[key];
+    if (state === undefined && optional && !(key in value)) {
+      writeUint8(
+        writer,
+        (Types.Object << 5) | (ObjectTypes.UndefinedOptional << 2),
+      );
+      continue;
+    }
+    if (state !== undefined) {
+      const type =
+        optional && !(key in value)
+          ? ObjectTypes.UndefinedOptional
+          : nullable && field === null
+            ? ObjectTypes.Null
+            : optional && field === undefined
+              ? ObjectTypes.Undefined
+              : ObjectTypes.Object;
+      if (type !== ObjectTypes.Object) {
+        setFieldState(writer, bitmap, state, type);
+        continue;
+      }
+    }
+    if (packed !== undefined) {
+      if (field) {
+        setBit(writer, bitmap, packed);
+      }
+      continue;
+    }
+    encodeAt(
+      state === undefined ? compiled.encode : compiled.value!.encode,
+      field,
+      key,
+      ctx,
+    );
+  }
+};
+
+const encodeUndefined = (writer: Writer): void =>
+  writeUint8(writer, (Types.Object << 5) | (ObjectTypes.Undefined << 2));
+const encodeNull = (writer: Writer): void =>
+  writeUint8(writer, (Types.Object << 5) | (ObjectTypes.Null << 2));
+
+/**
+ * array serialization
+ * - header: 1 byte | 2 bytes | 3 bytes | 1 byte + varint
+ *   - 3 bits type tag
+ *   - 2 bit length type tag
+ *      - 00 => 3 bits length (len < 8 elements)
+ *      - 01 => 11 bits length (len < 2048 elements)
+ *      - 10 => 19 bits length (len < 524_288 elements)
+ *      - 11 => 3 bits padding, the length follows as LEB128 varint (bigger arrays)
+ *   - lenght => (3 bits | 11 bits | 19 bits | varint)
+ * - body:
+ *   -  each element encoded in order
+ * @param value the array to encode
+ * @param schema the zod schema of the array
+ * @param elements compiled element schemas (one for arrays and sets, one per item for tuples)
+ */
+const encodeArray = (
+  value: Array<unknown> | Set<unknown>,
+  schema: z.ZodArray<z.ZodTypeAny> | z.ZodSet<z.ZodTypeAny> | z.ZodTuple,
+  elements: Array<CompiledSchema>,
+  ctx: EncodeContext,
+): void => {
+  const arrLen = value instanceof Set ? value.size : value.length;
+
+  if (schema instanceof z.ZodSet && value instanceof Set) {
+    encodeArrayHeader(arrLen, ctx.writer);
+    let index = 0;
+    for (const v of value) {
+      encodeAt(elements[0].encode, v, index++, ctx);
+    }
+    return;
+  }
+  if (value instanceof Set) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      "set schema was given but no set to parse or set was given and no set schema",
+    );
+  }
+  if (schema instanceof z.ZodArray) {
+    encodeArrayHeader(arrLen, ctx.writer);
+    for (let index = 0; index < arrLen; index++) {
+      encodeAt(elements[0].encode, value[index], index, ctx);
+    }
+    return;
+  } else if (schema instanceof z.ZodTuple) {
+    encodeArrayHeader(arrLen, ctx.writer);
+    elements.forEach((element, index) =>
+      encodeAt(element.encode, value[index], index, ctx),
+    );
+    return;
+  }
+
+  throw new ZodSerializeError("UNSUPPORTED_SCHEMA", "unreachable");
+};
+
+/**
+ * the array header is also used by binary data with the binary type tag
+ */
+export const encodeArrayHeader = (
+  length: number,
+  writer: Writer,
+  type: Types.Array | Types.Binary = Types.Array,
+): void => {
+  const lengthType =
+    length < 8 ? 0 : length < 2048 ? 1 : length < 2 ** 19 ? 2 : 3;
+  const tags = (type << 5) | (lengthType << 3);
+  if (lengthType === 0) {
+    writeUint8(writer, tags | (length & 0x07));
+  } else if (lengthType === 1) {
+    writeUint16(writer, (tags << 8) | (length & 0x07ff));
+  } else if (lengthType === 2) {
+    writeUint16(writer, (tags << 8) | ((length & (0x07ff << 8)) >> 8));
+    writeUint8(writer, length & 0xff);
+  } else {
+    writeUint8(writer, tags);
+    writeVarUint(writer, length);
+  }
+};
+
+/**
+*  encode a union
+  - header: 1 byte (+ varint)
+      - 3 bits type tag
+      - 5 bits what type is in the union as an index of element in schema
+        unions with more than 32 options write index 31 for every option from the 32nd on
+        followed by a LEB128 varint with the rest of the index
+  - body:
+      - encoded elements in order
+* @param input the union to encode
+* @param index index of the option the value is encoded with
+* @param options compiled options of the union in schema order
+*/
+const encodeUnion = (
+  input: unknown,
+  index: number,
+  options: Array<CompiledSchema>,
+  ctx: EncodeContext,
+): void => {
+  if (options.length > 32 && index >= 31) {
+    writeUint8(ctx.writer, (Types.Union << 5) | 31);
+    writeVarUint(ctx.writer, index - 31);
+  } else {
+    writeUint8(ctx.writer, (Types.Union << 5) | index);
+  }
+  options[index].encode(input, ctx);
+};
+
+/**
+ * how the option of a z.union() is picked when encoding
+ * - first: the first option the value matches, the options after it are not checked
+ * - strict: every option is checked and the value has to match exactly one of them,
+ *   otherwise the error lists the options that matched
+ * - a function: every option is checked and the function gets the indexes of the matching options,
+ *   it returns the index of the option to use or throws
+ * discriminated unions always pick the option by the value of the discriminator
+ */
+export type UnionStrategy =
+  "first" | "strict" | ((matches: Array<number>, input: unknown) => number);
+
+/**
+ * find the index of the option the value is encoded with
+ * @param input the value
+ * @param options the option schemas of the union
+ * @param strategy how to pick the option if several match
+ */
+export const pickUnionOption = (
+  input: unknown,
+  options: ReadonlyArray<z.ZodTypeAny>,
+  strategy: UnionStrategy,
+): number => {
+  const matches =
+    strategy === "first"
+      ? [options.findIndex((option) => option.safeParse(input).success)]
+      : options.flatMap((option, index) =>
+          option.safeParse(input).success ? [index] : [],
+        );
+  if (matches.length === 0 || matches[0] === -1) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      "invalid union: the value matches none of the options",
+    );
+  }
+  if (typeof strategy === "function") {
+    const index = strategy(matches, input);
+    if (!matches.includes(index)) {
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        `invalid union: option ${index} was picked but the value only matches the options ${matches.join(", ")}`,
+      );
+    }
+    return index;
+  }
+  if (matches.length > 1) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `ambiguous union: the value matches the options ${matches.join(", ")}`,
+    );
+  }
+  return matches[0];
+};
+
+export const encodeMapHeader = (
+  mapType: "map" | "object",
+  length: number,
+  writer: Writer,
+): void => {
+  const lengthType = length < 1024 ? 0 : 1;
+  const mapTypeTag = mapType === "map" ? 1 : 0;
+  const tags = (Types.Map << 5) | (mapTypeTag << 4) | (lengthType << 3);
+  if (lengthType === 0) {
+    writeUint16(writer, (tags << 8) | (length & 0x07ff));
+  } else if (length < 2 ** 19) {
+    writeUint16(writer, (tags << 8) | ((length & (0x07ff << 8)) >> 8));
+    writeUint8(writer, length & 0xff);
+  } else {
+    writeUint16(writer, tags << 8);
+    writeUint8(writer, 0);
+    writeVarUint(writer, length);
+  }
+};
+/**
+* encode a map
+  - header: (2|3) bytes
+    - 3 bits type tag
+    - 1 bit type indicator (0 => object, 1 => map)
+    - 1 bit length type tag
+      - 0 => 11 bits length (used for len < 1024 elements)
+      - 1 => 19 bits length (len < 524_288 elements)
+        a 19 bits length of 0 is never written otherwise, it marks an extended header
+        that is followed by the length as LEB128 varint (bigger maps)
+    - length: (11 bits | 19 bits)
+  - body:
+    key value pairs encoded in order
+*/
+const encodeMap = (
+  value: Record<string | number | symbol, unknown> | Map<unknown, unknown>,
+  keyCompiled: CompiledSchema,
+  valueCompiled: CompiledSchema,
+  ctx: EncodeContext,
+): void => {
+  const length = value instanceof Map ? value.size : Object.keys(value).length;
+  encodeMapHeader(value instanceof Map ? "map" : "object", length, ctx.writer);
+  const entries =
+    value instanceof Map ? value.entries() : Object.entries(value);
+  let index = 0;
+  for (const [key, value] of entries) {
+    const segment =
+      typeof key === "string" || typeof key === "number" ? key : index;
+    encodeAt(keyCompiled.encode, key, segment, ctx);
+    encodeAt(valueCompiled.encode, value, segment, ctx);
+    index++;
+  }
+};
+
+/**
+ * an intersection is a special case since it is only a type system concept
+ * if we have we have an intersection type of two objects we merge the schemas and encode the object
+ * for other types we do not pick apart the intersection schema we just encode the value according to the runtime type
+ */
+const encodeIntersection = (
+  value: NonNullable<unknown>,
+  schema: z.ZodIntersection<z.ZodTypeAny, z.ZodTypeAny>,
+  merged: { schema: z.AnyZodObject; object: CompiledObject } | undefined,
+  integers: IntegerEncoding,
+  ctx: EncodeContext,
+): void => {
+  if (
+    typeof value === "number" ||
+    typeof value === "bigint" ||
+    typeof value === "boolean"
+  ) {
+    return encodeNumeric(value, ctx.writer, integers);
+  } else if (typeof value === "string") {
+    return encodeString(value, ctx.writer);
+  } else if (typeof value === "object" && merged) {
+    return encodeObject(
+      value as Record<string, unknown>,
+      merged.schema,
+      merged.object,
+      ctx,
+    );
+  }
+  throw new ZodSerializeError(
+    "UNSUPPORTED_SCHEMA",
+    `intersections of ${typeof value} values are not supported`,
+  );
+};
+/**
+ * there are 3 kinds of effects
+ * - refinement: this is simply checking the value this has no impact on serialization
+ * - preprocess: this is a transformation of the value into a given schema this has to be done before serialization
+      we do this tranformation here and go on with serializing the inner value
+      - ⚠️but attention the preprocess function runs twice once before serialization and once after parsing this means you need to write your preprocess function idepotent or else it will fail during parsing
+ * - transform: this is transforming the value without knowing the output schema e.g. `z.string().transform((str)=> str.length)`
+ *     this is no problem if we do the tranformation of the value after parsing the value back from its encoded form since we have a schema for the value before serialization
+ *     it becomes a problem if we have to do the transformation during serialization because we can't encode values that have an unkown schema.
+ *     so far this is only the case if there is a .catch() "suronding" the .transform() and the catch is triggered
+ * @param value the value to encode
+ * @param schema zod effects schema
+ * @param inner compiled inner schema of the effect
+ * @param ctx serialization context
+ */
+const encodeEffects = (
+  value: unknown,
+  schema: z.ZodEffects<z.ZodTypeAny>,
+  inner: CompiledSchema,
+  ctx: EncodeContext,
+): void => {
+  if (schema._def.effect.type === "preprocess") {
+    const processed = schema._def.effect.transform(value, {
+      addIssue: () => {},
+      path: [],
+    });
+    return inner.encode(processed, ctx);
+  }
+  if (ctx.parsed && schema._def.effect.type === "transform") {
+    throw new ZodSerializeError(
+      "UNSUPPORTED_SCHEMA",
+      "cannot encode transformed value. value was transformed because it is nested inside an .catch() and the catch was triggered",
+    );
+  }
+  return inner.encode(value, ctx);
+};
+
+/**
+* encode binary data
+  - header: like the array header with the binary type tag, the length is the number of bytes
+  - body: the bytes of the value as they are in memory
+* @param value ArrayBuffer or typed array
+* @param writer writer the encoded value is written to
+*/
+const encodeBinary = (
+  value: ArrayBuffer | ArrayBufferView,
+  writer: Writer,
+): void => {
+  const bytes = toBytes(value);
+  encodeArrayHeader(bytes.byteLength, writer, Types.Binary);
+  writeBytes(writer, bytes);
+};
+
+export type EncodeContext = { parsed: boolean; writer: Writer };
+/**
+ * the offset is relative to the start of the view
+ * zeroCopy: binary data is returned as a view into the input instead of a copy
+ * clipped: the view ends early because the input is longer than maxBytes
+ * depth: number of objects, arrays, maps and unions the decoder is currently in
+ */
+export type DecodeContext = {
+  view: DataView;
+  bytes: Uint8Array;
+  offset: number;
+  zeroCopy: boolean;
+  clipped: boolean;
+  depth: number;
+  maxDepth: number;
+  maxCollectionLength: number;
+};
+
+const DEFAULT_MAX_DEPTH = 256;
+
+/**
+ * the decoder reads through a view of the input so buffers that are part of a bigger buffer
+ * (a node Buffer, a subarray, a message inside a receive buffer) don't have to be copied first
+ */
+export const createDecodeContext = (
+  buffer: DecodeInput,
+  offset: number,
+  {
+    zeroCopy = false,
+    maxBytes = Infinity,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxCollectionLength = Infinity,
+  }: DecodeOptions = {},
+): DecodeContext => {
+  let bytes = toBytes(buffer);
+  const clipped = bytes.byteLength - offset > maxBytes;
+  if (clipped) {
+    bytes = bytes.subarray(0, offset + maxBytes);
+  }
+  return {
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    bytes,
+    offset,
+    zeroCopy,
+    clipped,
+    depth: 0,
+    maxDepth,
+    maxCollectionLength,
+  };
+};
+
+/**
+ * the error for reads past the end of the view
+ * if the view was clipped to maxBytes the value is too long instead of truncated
+ */
+export const endOfInputError = (ctx: DecodeContext, cause?: unknown) =>
+  ctx.clipped
+    ? new ZodSerializeError(
+        "LIMIT_EXCEEDED",
+        `encoded value is longer than maxBytes (${ctx.bytes.byteLength} bytes)`,
+        { offset: ctx.offset, cause },
+      )
+    : new ZodSerializeError(
+        "TRUNCATED",
+        `buffer ends after ${ctx.bytes.byteLength} bytes in the middle of the encoded value`,
+        { offset: ctx.offset, cause },
+      );
+
+/**
+ * make sure the next bytes are part of the input before reading them
+ * reads through the DataView are checked by the view itself
+ */
+export const ensureBytes = (ctx: DecodeContext, length: number): void => {
+  if (ctx.offset + length > ctx.bytes.byteLength) {
+    throw endOfInputError(ctx);
+  }
+};
+
+/**
+ * check the length of an array, set or map before anything is allocated for it
+ * every element takes up at least one byte so a length header can't claim more elements than there are bytes left
+ */
+export const checkCollectionLength = (
+  length: number,
+  bytesPerElement: number,
+  ctx: DecodeContext,
+): void => {
+  if (length > ctx.maxCollectionLength) {
+    throw new ZodSerializeError(
+      "LIMIT_EXCEEDED",
+      `collection of ${length} elements exceeds maxCollectionLength of ${ctx.maxCollectionLength}`,
+      { offset: ctx.offset },
+    );
+  }
+  ensureBytes(ctx, length * bytesPerElement);
+};
+
+export const depthError = (ctx: DecodeContext) =>
+  new ZodSerializeError(
+    "LIMIT_EXCEEDED",
+    `value is nested deeper than maxDepth of ${ctx.maxDepth}`,
+    { offset: ctx.offset },
+  );
+
+// recursive schemas (z.lazy) could otherwise be nested until the stack overflows
+const enterNested = (ctx: DecodeContext): void => {
+  if (++ctx.depth > ctx.maxDepth) {
+    throw depthError(ctx);
+  }
+};
+
+/**
+ * anything the encoded bytes can be read from, e.g. an ArrayBuffer, an Uint8Array or a node Buffer
+ */
+export type DecodeInput = ArrayBufferLike | ArrayBufferView;
+
+export type DecodeOptions = {
+  /**
+   * return typed arrays (see `zs.bytes` and `zs.typedArray`) as views into the input instead of copies
+   * the decoded value changes when the input is reused, e.g. a receive buffer.
+   * typed arrays whose elements are not aligned in the input and ArrayBuffers are still copied
+   */
+  zeroCopy?: boolean;
+  /** encoded values that are longer are rejected with LIMIT_EXCEEDED, defaults to no limit */
+  maxBytes?: number;
+  /**
+   * compressed bodies that are longer after decompressing are rejected with LIMIT_EXCEEDED before they are decompressed,
+   * defaults to 16 MiB. maxBytes limits them too
+   */
+  maxDecompressedBytes?: number;
+  /** how deep objects, arrays, maps and unions can be nested, defaults to 256 */
+  maxDepth?: number;
+  /** arrays, sets, maps and records with more elements are rejected, defaults to no limit */
+  maxCollectionLength?: number;
+};
+
+type Encoder = (input: any, ctx: EncodeContext) => void;
+type Decoder = (ctx: DecodeContext) => unknown;
+
+/**
+ * encode a field or an element and add its key or index to the path of errors
+ */
+export const encodeAt = (
+  encode: Encoder,
+  value: unknown,
+  segment: string | number,
+  ctx: EncodeContext,
+): void => {
+  try {
+    encode(value, ctx);
+  } catch (error) {
+    throw encodeErrorAt(error, segment, ctx);
+  }
+};
+
+/**
+ * decode a field or an element and add its key or index to the path of errors
+ */
+export const decodeAt = (
+  decode: Decoder,
+  segment: string | number,
+  ctx: DecodeContext,
+): unknown => {
+  try {
+    enterNested(ctx);
+    const value = decode(ctx);
+    ctx.depth--;
+    return value;
+  } catch (error) {
+    throw decodeErrorAt(error, segment, ctx);
+  }
+};
+
+// the error of a field or an element with its key or index in front of the path
+export const encodeErrorAt = (
+  error: unknown,
+  segment: string | number,
+  ctx: EncodeContext,
+): ZodSerializeError =>
+  prependPath(
+    toSerializeError(error, "INVALID_VALUE", ctx.writer.offset),
+    segment,
+  );
+
+export const decodeErrorAt = (
+  error: unknown,
+  segment: string | number,
+  ctx: DecodeContext,
+): ZodSerializeError => prependPath(toDecodeError(error, ctx), segment);
+
+// reading past the end of the view throws a RangeError
+export const toDecodeError = (error: unknown, ctx: DecodeContext) =>
+  error instanceof RangeError
+    ? endOfInputError(ctx, error)
+    : toSerializeError(error, "INVALID_VALUE", ctx.offset);
+
+/**
+ * a schema that was analysed once and can be used to encode and decode values without walking the zod schema again
+ * - value: for schemas that allow null or undefined, encodes and decodes the other values without the header that tells them apart
+ *   (the bitmap of an object tells it, see `encodeObject`)
+ */
+export type CompiledSchema = {
+  encode: Encoder;
+  decode: Decoder;
+  value?: CompiledSchema;
+};
+/**
+ * where a field is in the bitmap of its object (see `encodeObject`)
+ * - state: the field allows null or undefined, index of its 2 bits
+ * - packed: the field is a boolean, index of the bit with its value
+ */
+type FieldBits = {
+  optional: boolean;
+  nullable: boolean;
+  state?: number;
+  packed?: number;
+};
+/**
+ * skip: the field is not part of the reader schema, its value is read and dropped (see `CodecOptions.writers`)
+ */
+type CompiledField = FieldBits & {
+  key: string;
+  compiled: CompiledSchema;
+  skip?: boolean;
+};
+/**
+ * the fields of an object schema and the number of bits of its bitmap
+ */
+type CompiledObject = { fields: Array<CompiledField>; bits: number };
+/**
+ * - compiled: schemas that were already compiled with this context, also ends recursion of lazy schemas
+ * - integers: how integers of the schemas are written
+ * - unions: how the option of a union is picked
+ * - layout: how enums, literals and objects are written
+ * - withIntegers: the context for another integer encoding, used for annotated schemas (see `zs.varint`)
+ */
+export type CompileContext = {
+  compiled: Map<z.ZodTypeAny, CompiledSchema>;
+  integers: IntegerEncoding;
+  unions: UnionStrategy;
+  layout: WireLayout;
+  withIntegers: (integers: IntegerEncoding) => CompileContext;
+};
+
+export const createCompileContext = ({
+  integers = "fixed",
+  unions = "first",
+  layout = "tagged",
+}: Omit<CodecOptions, "layout"> & { layout?: WireLayout }): CompileContext => {
+  const contexts = new Map<IntegerEncoding, CompileContext>();
+  const withIntegers = (integers: IntegerEncoding): CompileContext => {
+    let cctx = contexts.get(integers);
+    if (!cctx) {
+      cctx = { compiled: new Map(), integers, unions, layout, withIntegers };
+      contexts.set(integers, cctx);
+    }
+    return cctx;
+  };
+  return withIntegers(integers);
+};
+
+/**
+ * the schema specific part of a compiled schema
+ * - encode: encodes a value that is neither null nor undefined (or the schema doesn't allow it)
+ * - decoders: decoders for the type tags the schema can read
+ * - unwrapped: inner schema that is used for decoding if no decoder matches the type tag
+ * - decode: decoder for values that are written without type tag (see `FixedLayout`)
+ */
+type CompiledParts = {
+  encode: Encoder;
+  decoders?: Partial<Record<Types, Decoder>>;
+  decode?: Decoder;
+  unwrapped?: () => CompiledSchema;
+};
+
+const unimplemented = (): never => {
+  throw new ZodSerializeError("UNSUPPORTED_SCHEMA", "unimplemented");
+};
+
+/**
+ * booleans are packed into the bitmap of their object, also if they are optional, nullable or have a default
+ */
+const isPackedBoolean = (schema: z.ZodTypeAny, layout: WireLayout): boolean => {
+  switch (true) {
+    case schema instanceof z.ZodOptional:
+    case schema instanceof z.ZodNullable:
+    case schema instanceof z.ZodReadonly:
+    case schema instanceof z.ZodBranded:
+      return isPackedBoolean(schema.unwrap(), layout);
+    case schema instanceof z.ZodDefault:
+      return isPackedBoolean(schema.removeDefault(), layout);
+  }
+  return getFixedLayout(schema, layout) === FixedLayout.bool;
+};
+
+/**
+ * give the fields their bits in the bitmap of the object, in the order of the fields
+ * objects of the tagged layout have no bitmap
+ */
+export const layoutFields = <F extends { schema: z.ZodTypeAny }>(
+  fields: Array<F>,
+  layout: WireLayout,
+): { fields: Array<F & FieldBits>; bits: number } => {
+  let bits = 0;
+  const laidOut = fields.map((field) => {
+    const { schema } = field;
+    const bitsOfField: FieldBits = {
+      optional: schema.isOptional(),
+      nullable: schema.isNullable(),
+    };
+    if (layout === "compact" && !isElidedField(schema, layout)) {
+      if (bitsOfField.optional || bitsOfField.nullable) {
+        bitsOfField.state = bits;
+        bits += 2;
+      }
+      if (isPackedBoolean(schema, layout)) {
+        bitsOfField.packed = bits++;
+      }
+    }
+    return { ...field, ...bitsOfField };
+  });
+  return { fields: laidOut, bits };
+};
+
+const compileFields = (
+  schema: z.AnyZodObject,
+  cctx: CompileContext,
+): CompiledObject =>
+  layoutFields(
+    Object.entries(schema.shape as z.ZodRawShape).map(([key, fieldSchema]) => ({
+      key,
+      schema: fieldSchema,
+      compiled: isElidedField(fieldSchema, cctx.layout)
+        ? elidedField(fieldSchema.value)
+        : compileSchema(fieldSchema, cctx),
+    })),
+    cctx.layout,
+  );
+
+/**
+ * wrapper schemas (optional, default, lazy, ...) encode and decode like their inner schema
+ */
+const compileUnwrapped = (
+  inner: () => z.ZodTypeAny,
+  cctx: CompileContext,
+): CompiledParts => {
+  let compiled: CompiledSchema | undefined;
+  const unwrapped = () => (compiled ??= compileSchema(inner(), cctx));
+  return {
+    encode: (input, ctx) => unwrapped().encode(input, ctx),
+    unwrapped,
+  };
+};
+
+const compileParts = <T>(
+  schema: z.ZodType<T>,
+  cctx: CompileContext,
+): CompiledParts => {
+  const { integers, layout } = cctx;
+  const binary = getAnnotation(schema)?.binary;
+  switch (true) {
+    case binary !== undefined:
+      return {
+        encode: (input, { writer }) => encodeBinary(input, writer),
+        decoders: { [Types.Binary]: (ctx) => decodeBinary(binary, ctx) },
+      };
+    case schema instanceof z.ZodAny:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.any() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodUnknown:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.unknown() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodNever:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.never() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodVoid:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.void() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodFunction:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.function() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodSymbol:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.symbol() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodPromise:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.promise() schema cannot be encoded await Promise first",
+      );
+    case getOrdinalMembers(schema, layout) !== undefined:
+      return compileOrdinal(getOrdinalMembers(schema, layout)!);
+    case schema instanceof z.ZodNativeEnum:
+    case schema instanceof z.ZodLiteral:
+      return {
+        encode: (input, { writer }) => {
+          switch (typeof input) {
+            case "string":
+              return encodeString(input, writer);
+            case "number":
+            case "bigint":
+              return encodeNumeric(input, writer, integers);
+            case "boolean":
+              if (schema instanceof z.ZodLiteral) {
+                return encodeNumeric(input, writer, integers);
+              }
+          }
+          return unimplemented();
+        },
+        decoders: {
+          [Types.String]: decodeString,
+          [Types.Nummeric]: decodeNumber,
+        },
+      };
+    case schema instanceof z.ZodString:
+    case schema instanceof z.ZodEnum:
+      return {
+        encode: (input, { writer }) => encodeString(input, writer),
+        decoders: { [Types.String]: decodeString },
+      };
+    case (schema instanceof z.ZodNumber ||
+      schema instanceof z.ZodBigInt ||
+      schema instanceof z.ZodBoolean) &&
+      getFixedLayout(schema, layout) !== undefined:
+      return compileFixed(schema, getFixedLayout(schema, layout)!);
+    case schema instanceof z.ZodBigInt && schema._def.coerce:
+      return {
+        encode: (input, { writer }) =>
+          encodeNumeric(BigInt(input), writer, integers),
+        decoders: { [Types.Nummeric]: decodeNumber },
+      };
+    case schema instanceof z.ZodBigInt:
+    case schema instanceof z.ZodNumber:
+    case schema instanceof z.ZodNaN:
+    case schema instanceof z.ZodBoolean:
+      return {
+        encode: (input, { writer }) => encodeNumeric(input, writer, integers),
+        decoders: { [Types.Nummeric]: decodeNumber },
+      };
+    case schema instanceof z.ZodObject: {
+      const object = compileFields(schema, cctx);
+      return {
+        encode: (input, ctx) => encodeObject(input, schema, object, ctx),
+        decoders: {
+          [Types.Object]: (ctx) => decodeObject(object, ctx),
+        },
+      };
+    }
+    case schema instanceof z.ZodDate:
+      const coerce = schema._def.coerce;
+      return {
+        encode: (input, { writer }) =>
+          encodeDate(coerce ? new Date(input) : input, writer),
+        decoders: { [Types.Date]: decodeDate },
+      };
+    case schema instanceof z.ZodArray:
+    case schema instanceof z.ZodSet:
+    case schema instanceof z.ZodTuple: {
+      const elements =
+        schema instanceof z.ZodTuple
+          ? (schema as z.ZodTuple).items.map((item) =>
+              compileSchema(item, cctx),
+            )
+          : [
+              compileSchema(
+                schema instanceof z.ZodSet
+                  ? schema._def.valueType
+                  : schema.element,
+                cctx,
+              ),
+            ];
+      return {
+        encode: (input, ctx) => encodeArray(input, schema, elements, ctx),
+        decoders: {
+          [Types.Array]: (ctx) => decodeArray(schema, elements, ctx),
+        },
+      };
+    }
+    case schema instanceof z.ZodDiscriminatedUnion: {
+      const optionSchemas: Array<z.ZodTypeAny> = schema.options;
+      const options = optionSchemas.map((option) =>
+        compileSchema(option, cctx),
+      );
+      const indexes = new Map(
+        Array.from(
+          schema.optionsMap as Map<unknown, z.ZodTypeAny>,
+          ([value, option]) => [value, optionSchemas.indexOf(option)],
+        ),
+      );
+      const discriminator: string = schema.discriminator;
+      return {
+        encode: (input, ctx) => {
+          const index = indexes.get(input[discriminator]);
+          if (index === undefined) {
+            throw new ZodSerializeError(
+              "INVALID_VALUE",
+              `invalid union: no option has the discriminator ${discriminator} = ${String(input[discriminator])}`,
+            );
+          }
+          return encodeUnion(input, index, options, ctx);
+        },
+        decoders: {
+          [Types.Union]: (ctx) => decodeUnion(options, ctx),
+        },
+      };
+    }
+    case schema instanceof z.ZodUnion: {
+      const optionSchemas: Array<z.ZodTypeAny> = schema.options;
+      const options = optionSchemas.map((option) =>
+        compileSchema(option, cctx),
+      );
+      const { unions } = cctx;
+      return {
+        encode: (input, ctx) =>
+          encodeUnion(
+            input,
+            pickUnionOption(input, optionSchemas, unions),
+            options,
+            ctx,
+          ),
+        decoders: {
+          [Types.Union]: (ctx) => decodeUnion(options, ctx),
+        },
+      };
+    }
+    case schema instanceof z.ZodRecord:
+    case schema instanceof z.ZodMap: {
+      const key = compileSchema(schema.keySchema, cctx);
+      const value = compileSchema(schema.valueSchema, cctx);
+      return {
+        encode: (input, ctx) => encodeMap(input, key, value, ctx),
+        decoders: {
+          [Types.Map]: (ctx) => decodeMap(key, value, ctx),
+        },
+      };
+    }
+    case schema instanceof z.ZodIntersection: {
+      const { left, right } = schema._def;
+      const mergedSchema =
+        left instanceof z.ZodObject && right instanceof z.ZodObject
+          ? left.merge(right)
+          : undefined;
+      const merged = mergedSchema && {
+        schema: mergedSchema,
+        object: compileFields(mergedSchema, cctx),
+      };
+      return {
+        encode: (input, ctx) =>
+          encodeIntersection(input, schema, merged, integers, ctx),
+        decoders: {
+          [Types.String]: decodeString,
+          [Types.Nummeric]: decodeNumber,
+          ...(merged && {
+            [Types.Object]: (ctx: DecodeContext) =>
+              decodeObject(merged.object, ctx),
+          }),
+        },
+      };
+    }
+    case schema instanceof z.ZodOptional:
+    case schema instanceof z.ZodNullable:
+    case schema instanceof z.ZodReadonly:
+    case schema instanceof z.ZodBranded:
+      return compileUnwrapped(() => schema.unwrap(), cctx);
+    case schema instanceof z.ZodLazy:
+      return compileUnwrapped(() => schema.schema, cctx);
+    case schema instanceof z.ZodDefault:
+      return compileUnwrapped(() => schema.removeDefault(), cctx);
+    case schema instanceof z.ZodPipeline:
+      return compileUnwrapped(() => schema._def.in, cctx);
+    case schema instanceof z.ZodCatch: {
+      const innerSchema = schema.removeCatch();
+      const inner = compileSchema(innerSchema, cctx);
+      return {
+        encode: (input, ctx) => {
+          const innerParseResult = innerSchema.safeParse(input);
+          if (innerParseResult.success) {
+            return inner.encode(input, ctx);
+          }
+          return inner.encode(
+            schema._def.catchValue({ error: innerParseResult.error, input }),
+            { ...ctx, parsed: true },
+          );
+        },
+        unwrapped: () => inner,
+      };
+    }
+    case schema instanceof z.ZodEffects: {
+      const inner = compileSchema(schema.innerType(), cctx);
+      return {
+        encode: (input, ctx) => encodeEffects(input, schema, inner, ctx),
+        unwrapped: () => inner,
+      };
+    }
+  }
+
+  return { encode: unimplemented };
+};
+
+/**
+ * the schema that a wrapper schema (optional, default, lazy, ...) encodes with
+ */
+export const unwrapSchema = (
+  schema: z.ZodTypeAny,
+): z.ZodTypeAny | undefined => {
+  switch (true) {
+    case schema instanceof z.ZodOptional:
+    case schema instanceof z.ZodNullable:
+    case schema instanceof z.ZodReadonly:
+    case schema instanceof z.ZodBranded:
+      return schema.unwrap();
+    case schema instanceof z.ZodLazy:
+      return schema.schema;
+    case schema instanceof z.ZodDefault:
+      return schema.removeDefault();
+    case schema instanceof z.ZodPipeline:
+      return schema._def.in;
+    case schema instanceof z.ZodCatch:
+      return schema.removeCatch();
+    case schema instanceof z.ZodEffects:
+      return schema.innerType();
+  }
+  return undefined;
+};
+
+/**
+ * whether values of the schema are written without type tag
+ * a wrapper that allows null or undefined writes its own header in front, so everything around it sees a tag
+ */
+export const isUntagged = (
+  schema: z.ZodTypeAny,
+  layout: WireLayout,
+): boolean => {
+  if (
+    getFixedLayout(schema, layout) !== undefined ||
+    getOrdinalMembers(schema, layout) !== undefined
+  ) {
+    return true;
+  }
+  const inner = unwrapSchema(schema);
+  return (
+    !!inner &&
+    !inner.isNullable() &&
+    !inner.isOptional() &&
+    isUntagged(inner, layout)
+  );
+};
+
+// written in front of an untagged value if the schema also allows null or undefined, so the decoder can tell them apart
+export const PRESENT_HEADER = (Types.Object << 5) | (ObjectTypes.Object << 2);
+
+/**
+ * analyse a schema once and build the encoder and decoder for it
+ * every schema can encode and decode null and undefined if the schema allows it
+ * everything else is handled by the schema specific parts
+ */
+export const compileSchema = <T>(
+  schema: z.ZodType<T>,
+  cctx: CompileContext,
+): CompiledSchema => {
+  const cached = cctx.compiled.get(schema);
+  if (cached) {
+    return cached;
+  }
+  const annotation = getAnnotation(schema);
+  if (annotation?.integers && annotation.integers !== cctx.integers) {
+    return compileSchema(schema, cctx.withIntegers(annotation.integers));
+  }
+  const compiled = wrapParts(schema, compileParts(schema, cctx), cctx.layout);
+  cctx.compiled.set(schema, compiled);
+  return compiled;
+};
+
+/**
+ * add the handling of null, undefined and the type tag around the parts of a schema
+ */
+const wrapParts = (
+  schema: z.ZodTypeAny,
+  parts: CompiledParts,
+  layout: WireLayout,
+): CompiledSchema => {
+  const decoders = parts.decoders ?? {};
+  const untagged = parts.decode;
+  if (untagged) {
+    // numbers, booleans and enum values are never nullish themselves, there is nothing to check before the value
+    return { encode: parts.encode, decode: untagged };
+  }
+  const nullable = schema.isNullable();
+  const optional = schema.isOptional();
+  const present = (nullable || optional) && isUntagged(schema, layout);
+
+  const decodeValue: Decoder = (ctx) => {
+    const typeTag: Types = ctx.view.getUint8(ctx.offset) >> 5;
+    const decoder = decoders[typeTag];
+    if (decoder) {
+      return decoder(ctx);
+    }
+    if (parts.unwrapped) {
+      return parts.unwrapped().decode(ctx);
+    }
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `unexpected type tag ${typeTag}`,
+      { offset: ctx.offset },
+    );
+  };
+  const encodeValue: Encoder = (input, ctx) => {
+    if (input === undefined || input === null) {
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        "undefined or null value with non nullish schema cannot be encoded",
+      );
+    }
+    return parts.encode(input, ctx);
+  };
+
+  return {
+    encode: (input, ctx) => {
+      if (nullable && input === null) {
+        return encodeNull(ctx.writer);
+      }
+      if (optional && input === undefined) {
+        return encodeUndefined(ctx.writer);
+      }
+      if (present) {
+        writeUint8(ctx.writer, PRESENT_HEADER);
+      }
+      return encodeValue(input, ctx);
+    },
+    decode: (ctx) => {
+      const headerByte = ctx.view.getUint8(ctx.offset);
+      if (headerByte >> 5 === Types.Object) {
+        const objectType = (headerByte & 0b1100) >> 2;
+        if (nullable && objectType === ObjectTypes.Null) {
+          ctx.offset++;
+          return null;
+        }
+        if (optional && objectType === ObjectTypes.Undefined) {
+          ctx.offset++;
+          return undefined;
+        }
+        if (present && objectType === ObjectTypes.Object) {
+          ctx.offset++;
+          return parts.unwrapped!().decode(ctx);
+        }
+      }
+      return decodeValue(ctx);
+    },
+    ...((nullable || optional) && {
+      value: {
+        encode: encodeValue,
+        decode: present ? (ctx) => parts.unwrapped!().decode(ctx) : decodeValue,
+      },
+    }),
+  };
+};
+
+/**
+ * - compiled: the context the schemas are compiled with
+ * - resolved: writer and reader schema pairs that were already resolved, also ends recursion of lazy schemas
+ */
+type ResolveContext = {
+  cctx: CompileContext;
+  resolved: Map<z.ZodTypeAny, Map<z.ZodTypeAny, CompiledSchema>>;
+};
+
+/**
+ * a decoder for values that were encoded with the writer schema and are read into the shape of the reader schema
+ * - fields of the writer that the reader doesn't have are read and dropped
+ * - fields of the reader that the writer doesn't have are left out, zod fills in defaults when the value is parsed
+ * - options of a writer union that the reader doesn't have fail when they are decoded
+ * everything else is read like the writer wrote it, the reader schema checks the value when it's parsed
+ */
+const compileResolved = (
+  writer: z.ZodTypeAny,
+  reader: z.ZodTypeAny,
+  rctx: ResolveContext,
+): CompiledSchema => {
+  const cached = rctx.resolved.get(writer)?.get(reader);
+  if (cached) {
+    return cached;
+  }
+  // schemas with the same strict identity are written the same in every layout
+  const compiled =
+    schemaFingerprint(writer) === schemaFingerprint(reader)
+      ? compileSchema(reader, rctx.cctx)
+      : resolveSchemas(writer, reader, rctx);
+  if (!rctx.resolved.has(writer)) {
+    rctx.resolved.set(writer, new Map());
+  }
+  rctx.resolved.get(writer)!.set(reader, compiled);
+  return compiled;
+};
+
+const resolveSchemas = (
+  writer: z.ZodTypeAny,
+  reader: z.ZodTypeAny,
+  rctx: ResolveContext,
+): CompiledSchema => {
+  const { cctx } = rctx;
+  if (isUntagged(writer, cctx.layout) || getAnnotation(writer)?.binary) {
+    return compileSchema(writer, cctx);
+  }
+  const writerInner = unwrapSchema(writer);
+  if (writerInner) {
+    let compiled: CompiledSchema | undefined;
+    return wrapParts(
+      writer,
+      {
+        encode: unimplemented,
+        unwrapped: () =>
+          (compiled ??= compileResolved(writerInner, reader, rctx)),
+      },
+      cctx.layout,
+    );
+  }
+  const readerInner = unwrapSchema(reader);
+  if (readerInner) {
+    return compileResolved(writer, readerInner, rctx);
+  }
+  const parts = resolveParts(writer, reader, rctx);
+  return parts
+    ? wrapParts(writer, parts, cctx.layout)
+    : compileSchema(writer, cctx);
+};
+
+/**
+ * the parts of writer and reader schemas of the same kind
+ * @returns undefined if the schemas are of different kinds
+ */
+const resolveParts = (
+  writer: z.ZodTypeAny,
+  reader: z.ZodTypeAny,
+  rctx: ResolveContext,
+): CompiledParts | undefined => {
+  switch (true) {
+    case writer instanceof z.ZodObject && reader instanceof z.ZodObject: {
+      const readerShape: z.ZodRawShape = reader.shape;
+      for (const [key, field] of Object.entries(readerShape)) {
+        if (!(key in writer.shape) && !field.isOptional()) {
+          throw new ZodSerializeError(
+            "SCHEMA_MISMATCH",
+            `field ${key} is required by the reader schema but missing in the writer schema`,
+          );
+        }
+      }
+      // the bitmap is laid out by the writer schema
+      const object = layoutFields(
+        Object.entries(writer.shape as z.ZodRawShape).map(([key, field]) => ({
+          key,
+          schema: field,
+          compiled: isElidedField(field, rctx.cctx.layout)
+            ? elidedField(field.value)
+            : Object.hasOwn(readerShape, key)
+              ? compileResolved(field, readerShape[key], rctx)
+              : compileSchema(field, rctx.cctx),
+          skip: !Object.hasOwn(readerShape, key),
+        })),
+        rctx.cctx.layout,
+      );
+      return {
+        encode: unimplemented,
+        decoders: { [Types.Object]: (ctx) => decodeObject(object, ctx) },
+      };
+    }
+    case writer instanceof z.ZodArray && reader instanceof z.ZodArray:
+    case writer instanceof z.ZodSet && reader instanceof z.ZodSet: {
+      const element = (schema: z.ZodTypeAny): z.ZodTypeAny =>
+        schema instanceof z.ZodSet
+          ? schema._def.valueType
+          : (schema as z.ZodArray<z.ZodTypeAny>).element;
+      const elements = [
+        compileResolved(element(writer), element(reader), rctx),
+      ];
+      return {
+        encode: unimplemented,
+        decoders: {
+          [Types.Array]: (ctx) => decodeArray(writer, elements, ctx),
+        },
+      };
+    }
+    case writer instanceof z.ZodTuple && reader instanceof z.ZodTuple: {
+      const readerItems: Array<z.ZodTypeAny> = reader.items;
+      const elements = (writer as z.ZodTuple).items.map((item, index) =>
+        index < readerItems.length
+          ? compileResolved(item, readerItems[index], rctx)
+          : compileSchema(item, rctx.cctx),
+      );
+      return {
+        encode: unimplemented,
+        decoders: {
+          [Types.Array]: (ctx) => decodeArray(writer, elements, ctx),
+        },
+      };
+    }
+    case writer instanceof z.ZodRecord && reader instanceof z.ZodRecord:
+    case writer instanceof z.ZodMap && reader instanceof z.ZodMap: {
+      const key = compileResolved(writer.keySchema, reader.keySchema, rctx);
+      const value = compileResolved(
+        writer.valueSchema,
+        reader.valueSchema,
+        rctx,
+      );
+      return {
+        encode: unimplemented,
+        decoders: { [Types.Map]: (ctx) => decodeMap(key, value, ctx) },
+      };
+    }
+    case (writer instanceof z.ZodUnion ||
+      writer instanceof z.ZodDiscriminatedUnion) &&
+      (reader instanceof z.ZodUnion ||
+        reader instanceof z.ZodDiscriminatedUnion): {
+      const readerOptions: Array<z.ZodTypeAny> = reader.options;
+      // options are matched by their position, new options are added at the end
+      const options = (writer.options as Array<z.ZodTypeAny>).map(
+        (option, index): CompiledSchema =>
+          index < readerOptions.length
+            ? compileResolved(option, readerOptions[index], rctx)
+            : {
+                encode: unimplemented,
+                decode: (ctx) => {
+                  throw new ZodSerializeError(
+                    "SCHEMA_MISMATCH",
+                    `union option ${index} of the writer schema is unknown to the reader schema`,
+                    { offset: ctx.offset },
+                  );
+                },
+              },
+      );
+      return {
+        encode: unimplemented,
+        decoders: { [Types.Union]: (ctx) => decodeUnion(options, ctx) },
+      };
+    }
+  }
+  return undefined;
+};
+
+export type Codec<T> = {
+  /** encodes the value with the header (protocol version + schema hash) in front, see `CodecOptions.header` */
+  encode: (input: T | unknown) => ArrayBuffer;
+  /**
+   * encodes the value into `target` starting at `offset`
+   * nothing is written if the encoded value doesn't fit into the target
+   * @returns the number of bytes written
+   */
+  encodeInto: (
+    input: T | unknown,
+    target: Uint8Array,
+    offset?: number,
+  ) => number;
+  /**
+   * the number of bytes `encode` would produce for the value
+   * it costs as much as `encode`, the value is parsed and encoded into the scratch buffer and only the bytes are not copied out
+   */
+  encodedSize: (input: T | unknown) => number;
+  /** decodes a buffer produced by a codec of a matching schema */
+  decode: (buffer: DecodeInput, options?: DecodeOptions) => T;
+  /**
+   * decodes a value that starts at `offset` and reports how many bytes it took up
+   * this way values that are packed back to back can be read one after another
+   */
+  decodeWithLength: (
+    buffer: DecodeInput,
+    offset?: number,
+    options?: DecodeOptions,
+  ) => { value: T; bytesRead: number };
+  /**
+   * like `encode` but compresses the body with the compression streams, also where there is no synchronous zlib
+   * @param compression overrides the compression options of the codec, the defaults of `CompressionOptions` if it has none
+   */
+  encodeCompressed: (
+    input: T | unknown,
+    compression?: CompressionOptions,
+  ) => Promise<ArrayBuffer>;
+  /** like `decode` but decompresses compressed values with the decompression streams */
+  decodeCompressed: (
+    buffer: DecodeInput,
+    options?: DecodeOptions,
+  ) => Promise<T>;
+  /** like `encode` but returns the error instead of throwing it */
+  safeEncode: (input: T | unknown) => SafeResult<ArrayBuffer>;
+  /** like `decode` but returns the error instead of throwing it */
+  safeDecode: (buffer: DecodeInput, options?: DecodeOptions) => SafeResult<T>;
+  /** hash of the schema identity that is written into the header */
+  fingerprint: bigint;
+};
+
+export type CodecOptions = {
+  /**
+   * how integers are written, defaults to "fixed"
+   * schema nodes wrapped with `zs.varint` or `zs.fixed` override it
+   */
+  integers?: IntegerEncoding;
+  /** how the option of a z.union() is picked, defaults to "first" */
+  unions?: UnionStrategy;
+  /**
+   * what the fingerprint in the header covers, defaults to "strict"
+   * values of protocol version 1 only have the structural fingerprint, the default rejects them with PROTOCOL_VERSION
+   */
+  fingerprint?: FingerprintMode;
+  /**
+   * how enums, literals and objects are written, defaults to "tagged"
+   * - tagged: enum values and string literals are strings, every field of an object is written with its header
+   * - compact: enum values and string literals are ordinals, literal fields of objects are not written,
+   *   booleans and whether fields are null, undefined or absent are bits of a bitmap behind the object header
+   * compact values have protocol version 3 in the header, codecs only decode values of their own layout
+   */
+  layout?: LayoutMode;
+  /**
+   * older or newer versions of the schema whose buffers can be decoded too, they are told apart by their fingerprint
+   * - fields the schema doesn't have are skipped
+   * - fields the writer didn't have must be optional or have a default, they are filled in like zod's parse does
+   * - union options are matched by position, options the schema doesn't have fail with SCHEMA_MISMATCH
+   * values are always encoded with the schema itself
+   */
+  writers?: Array<z.ZodTypeAny>;
+  /**
+   * - full: every value starts with the protocol version and the 64 bit fingerprint of the schema, the default
+   * - hash32, hash16: the version and the first 32 or 16 bits of the fingerprint,
+   *   shorter headers for small messages at the cost of a higher chance that another schema has the same hash
+   * - none: values are written without header and nothing is checked when they are decoded,
+   *   for channels where the schema was agreed on some other way (see `defineProtocol`)
+   * the decoder reads values with any header, the mode is part of the version byte
+   */
+  header?: HeaderMode;
+  /**
+   * compress the body of values that are longer than the threshold, the header tells the decoder whether a value is compressed
+   * `encode` and `decode` use the synchronous zlib of Bun and Node, `encode` writes values uncompressed where there is none.
+   * `encodeCompressed` and `decodeCompressed` work everywhere with the compression streams
+   * needs a header, values written with `header: "none"` can't be compressed
+   */
+  compression?: CompressionOptions;
+};
+
+export type HeaderMode = "full" | "hash32" | "hash16" | "none";
+
+export type LayoutMode = "tagged" | "compact";
+
+/**
+ * the layouts values are read in, values of protocol version 1 have the tagged layout from before
+ * bounded numbers and booleans were written without type tag
+ */
+export type WireLayout = LayoutMode | "versionOne";
+
+/**
+ * the first issue of a failed zod parse as INVALID_VALUE error
+ */
+export const fromZodError = (error: z.ZodError, reason: string) => {
+  const [issue] = error.issues;
+  return new ZodSerializeError("INVALID_VALUE", `${reason}: ${issue.message}`, {
+    path: [...issue.path],
+    cause: error,
+  });
+};
+
+/**
+ * create a codec for a schema
+ * the schema is analysed and the header hash is calculated once so it doesn't have to be done on every encode/decode call
+ * ```ts
+ *   const playerPosCodec = createCodec(playerPosSchema);
+ *   const buffer = playerPosCodec.encode({ id: 1, x: 10, y: 20 });
+ *   playerPosCodec.decode(buffer); // => { id: 1, x: 10, y: 20 }
+ * ```
+ * @param schema zod schema of the values
+ * @param options encoding options, the decoder reads every encoding regardless of them
+ * @returns a codec with encode and decode functions specialized for the schema
+ */
+export const createCodec = <T>(
+  schema: z.ZodType<T>,
+  options: CodecOptions = {},
+): Codec<T> => {
+  const cctx = createCompileContext(options);
+  return codecFor(schema, compileSchema(schema, cctx), options, cctx);
+};
+
+/**
+ * the decoders of a protocol version, of the schema and of the writers by their fingerprint
+ */
+type Candidates = {
+  fingerprint: bigint;
+  decoder: CompiledSchema;
+  writers: Map<bigint, CompiledSchema>;
+};
+
+/**
+ * the codec around the compiled schema, used by `createCodec` and by generated codecs
+ */
+export const codecFor = <T>(
+  schema: z.ZodType<T>,
+  compiled: CompiledSchema,
+  options: CodecOptions,
+  cctx = createCompileContext(options),
+): Codec<T> => {
+  const {
+    header: headerMode = "full",
+    layout = "tagged",
+    compression,
+  } = options;
+  const headerless = headerMode === "none";
+  if (compression && headerless) {
+    throw headerlessCompressionError();
+  }
+  const { format = "deflate-raw", threshold = DEFAULT_COMPRESSION_THRESHOLD } =
+    compression ?? {};
+  const fingerprint = schemaFingerprint(schema, options.fingerprint, layout);
+  const header = headerless
+    ? new Uint8Array(0)
+    : new Uint8Array(
+        makeHeader(fingerprint, headerMode, LAYOUT_VERSIONS[layout]),
+      );
+  // decoders for buffers of other versions of the schema by their fingerprint
+  const rctx: ResolveContext = { cctx, resolved: new Map() };
+  const writers = new Map(
+    (options.writers ?? []).map((writer) => [
+      schemaFingerprint(writer, options.fingerprint, layout),
+      compileResolved(writer, schema, rctx),
+    ]),
+  );
+  const structural = options.fingerprint === "structural";
+  // the decoders of version 1 are only compiled once a value of version 1 is decoded
+  let versionOneCandidates: Candidates | undefined;
+  const versionOneDecoders = (): Candidates => {
+    if (!versionOneCandidates) {
+      const versionOneCtx: ResolveContext = {
+        cctx: createCompileContext({ ...options, layout: "versionOne" }),
+        resolved: new Map(),
+      };
+      versionOneCandidates = {
+        fingerprint: versionOneFingerprint(schema),
+        decoder: compileSchema(schema, versionOneCtx.cctx),
+        writers: new Map(
+          (options.writers ?? []).map((writer) => [
+            versionOneFingerprint(writer),
+            compileResolved(writer, schema, versionOneCtx),
+          ]),
+        ),
+      };
+    }
+    return versionOneCandidates;
+  };
+  // the writer is reused between encode calls, a nested encode call (e.g. from a preprocess function) gets its own writer
+  let scratch: Writer | undefined;
+
+  /**
+   * @param compress whether the body is compressed with the synchronous zlib
+   */
+  const encodeWith = <R>(
+    input: unknown,
+    finish: (writer: Writer) => R,
+    compress = compression !== undefined,
+  ): R => {
+    const parseRes = schema.safeParse(input);
+    if (!parseRes.success) {
+      throw fromZodError(parseRes.error, "cannot parse schema");
+    }
+    const writer = scratch ?? createWriter();
+    scratch = undefined;
+    try {
+      writeBytes(writer, header);
+      compiled.encode(input, { parsed: false, writer });
+      const length = writer.offset - header.byteLength;
+      if (compress && syncCompression && length >= threshold) {
+        const body = writer.bytes.subarray(header.byteLength, writer.offset);
+        const compressed = syncCompression.compress(body, format);
+        writeCompressed(writer, header, format, length, compressed);
+      }
+      return finish(writer);
+    } catch (error) {
+      throw toSerializeError(error, "INVALID_VALUE", writer.offset);
+    } finally {
+      writer.offset = 0;
+      if (writer.buffer.byteLength <= MAX_SCRATCH_SIZE) {
+        scratch = writer;
+      }
+    }
+  };
+
+  // the decoder for the schema the value was written with
+  const readHeader = (
+    ctx: DecodeContext,
+  ): { decoder: CompiledSchema; compressed: boolean } => {
+    const offset = ctx.offset;
+    const { version, header, hash, compressed } = readHeaderAt(ctx);
+    // values of version 1 have the tagged layout
+    const versionOne = version === 1 && layout === "tagged";
+    if (versionOne && !structural) {
+      throw new ZodSerializeError(
+        "PROTOCOL_VERSION",
+        'the value was written with protocol version 1 which only has the structural fingerprint, decode it with fingerprint: "structural"',
+        { offset },
+      );
+    }
+    if (version !== LAYOUT_VERSIONS[layout] && !versionOne) {
+      const written = LAYOUT_MODES.find(
+        (mode) => LAYOUT_VERSIONS[mode] === version,
+      );
+      throw new ZodSerializeError(
+        "PROTOCOL_VERSION",
+        written
+          ? `the value was written with the ${written} layout (protocol version ${version}), decode it with layout: "${written}"`
+          : `Protocol versions does not match cannot decode value (expected ${LAYOUT_VERSIONS[layout]} got ${version})`,
+        { offset },
+      );
+    }
+    const candidates = versionOne
+      ? versionOneDecoders()
+      : { fingerprint, decoder: compiled, writers };
+    // short headers only have the first bits of the fingerprint
+    const shift = 64n - HASH_BITS[header];
+    const matches = (candidate: bigint) => candidate >> shift === hash;
+    const decoder = matches(candidates.fingerprint)
+      ? candidates.decoder
+      : candidates.writers.get(
+          Array.from(candidates.writers.keys()).find(matches) ?? -1n,
+        );
+    if (!decoder) {
+      throw new ZodSerializeError(
+        "SCHEMA_MISMATCH",
+        "Schemas do not match cannot decode value",
+        { offset: offset + 1 },
+      );
+    }
+    return { decoder, compressed };
+  };
+
+  // the header and, for compressed values, the compressed body behind it
+  const readStart = (
+    ctx: DecodeContext,
+  ): { decoder: CompiledSchema; compressed?: CompressedBody } => {
+    try {
+      if (headerless) {
+        return { decoder: compiled };
+      }
+      const { decoder, compressed } = readHeader(ctx);
+      return {
+        decoder,
+        compressed: compressed ? readCompressedBody(ctx) : undefined,
+      };
+    } catch (error) {
+      throw toDecodeError(error, ctx);
+    }
+  };
+
+  const decodeValue = (decoder: CompiledSchema, ctx: DecodeContext): T => {
+    let decoded: unknown;
+    try {
+      decoded = decoder.decode(ctx);
+    } catch (error) {
+      throw toDecodeError(error, ctx);
+    }
+    const parseRes = schema.safeParse(decoded);
+    if (!parseRes.success) {
+      throw fromZodError(
+        parseRes.error,
+        "decoded value does not match the schema",
+      );
+    }
+    return parseRes.data;
+  };
+
+  // the value of a decompressed body, it has to take up the whole body
+  const decodeBody = (
+    decoder: CompiledSchema,
+    compressed: CompressedBody,
+    body: Uint8Array,
+    options?: DecodeOptions,
+  ): T => {
+    const ctx = createDecodeContext(body, 0, options);
+    const value = decodeValue(decoder, ctx);
+    if (ctx.offset !== body.byteLength) {
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        `the compressed body has ${body.byteLength - ctx.offset} bytes after the value`,
+        { offset: compressed.offset },
+      );
+    }
+    return value;
+  };
+
+  const decodeWithLength = (
+    buffer: DecodeInput,
+    offset = 0,
+    options?: DecodeOptions,
+  ) => {
+    const ctx = createDecodeContext(buffer, offset, options);
+    const { decoder, compressed } = readStart(ctx);
+    const value = compressed
+      ? decodeBody(
+          decoder,
+          compressed,
+          decompressSync(compressed, options),
+          options,
+        )
+      : decodeValue(decoder, ctx);
+    return { value, bytesRead: ctx.offset - offset };
+  };
+
+  const encode = (input: unknown) => encodeWith(input, toArrayBuffer);
+  const decode = (buffer: DecodeInput, options?: DecodeOptions) =>
+    decodeWithLength(buffer, 0, options).value;
+
+  const encodeCompressed = async (
+    input: unknown,
+    {
+      format: compressionFormat = format,
+      threshold: compressionThreshold = threshold,
+    }: CompressionOptions = {},
+  ): Promise<ArrayBuffer> => {
+    if (headerless) {
+      throw headerlessCompressionError();
+    }
+    const encoded = encodeWith(
+      input,
+      (writer) => writer.bytes.slice(0, writer.offset),
+      false,
+    );
+    const length = encoded.byteLength - header.byteLength;
+    if (length < compressionThreshold) {
+      return encoded.buffer;
+    }
+    const compressed = await compressAsync(
+      encoded.subarray(header.byteLength),
+      compressionFormat,
+    );
+    const writer = createWriter(header.byteLength + compressed.byteLength + 11);
+    writeCompressed(writer, header, compressionFormat, length, compressed);
+    return toArrayBuffer(writer);
+  };
+
+  const decodeCompressed = async (
+    buffer: DecodeInput,
+    options?: DecodeOptions,
+  ): Promise<T> => {
+    const ctx = createDecodeContext(buffer, 0, options);
+    const { decoder, compressed } = readStart(ctx);
+    if (!compressed) {
+      return decodeValue(decoder, ctx);
+    }
+    checkDecompressedLength(compressed, options);
+    let body: Uint8Array;
+    try {
+      body = await decompressAsync(
+        compressed.bytes,
+        compressed.format,
+        compressed.length,
+      );
+    } catch (error) {
+      throw decompressionError(compressed, error);
+    }
+    return decodeBody(decoder, compressed, body, options);
+  };
+
+  return {
+    encode,
+    encodeInto: (input, target, offset = 0) => {
+      if (
+        !Number.isInteger(offset) ||
+        offset < 0 ||
+        offset > target.byteLength
+      ) {
+        throw new ZodSerializeError(
+          "INVALID_VALUE",
+          `offset ${offset} is outside of the target buffer of ${target.byteLength} bytes`,
+        );
+      }
+      return encodeWith(input, (writer) => {
+        const available = target.byteLength - offset;
+        if (writer.offset > available) {
+          throw new ZodSerializeError(
+            "LIMIT_EXCEEDED",
+            `target buffer is too small: the encoded value needs ${writer.offset} bytes but only ${available} bytes are available at offset ${offset}`,
+          );
+        }
+        target.set(writer.bytes.subarray(0, writer.offset), offset);
+        return writer.offset;
+      });
+    },
+    encodedSize: (input) => encodeWith(input, (writer) => writer.offset),
+    decode,
+    decodeWithLength,
+    encodeCompressed,
+    decodeCompressed,
+    safeEncode: (input) => safely(() => encode(input)),
+    safeDecode: (buffer, options) => safely(() => decode(buffer, options)),
+    fingerprint,
+  };
+};
+
+const safely = <T>(run: () => T): SafeResult<T> => {
+  try {
+    return { success: true, data: run() };
+  } catch (error) {
+    return {
+      success: false,
+      error: toSerializeError(error, "INVALID_VALUE"),
+    };
+  }
+};
+
+// writers that grew bigger than this are not kept around after encoding a big value
+const MAX_SCRATCH_SIZE = 2 ** 16;
+
+const codecs = new WeakMap<z.ZodTypeAny, Codec<any>>();
+const getCodec = <T>(schema: z.ZodType<T>): Codec<T> => {
+  let codec = codecs.get(schema);
+  if (!codec) {
+    codec = createCodec(schema);
+    codecs.set(schema, codec);
+  }
+  return codec;
+};
+
+export const encode = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+): ArrayBuffer => getCodec(schema).encode(input);
+
+/**
+ * encode a value into a pre-allocated buffer
+ * ```ts
+ *   const buffer = new Uint8Array(1024);
+ *   const length = encodeInto(playerPosSchema, { id: 1, x: 10, y: 20 }, buffer);
+ *   socket.send(buffer.subarray(0, length));
+ * ```
+ * @param schema zod schema of the value
+ * @param input the value to encode
+ * @param target buffer the encoded value is written to
+ * @param offset position in the target where the encoded value starts
+ * @returns the number of bytes written, throws without writing anything if the target is too small
+ */
+export const encodeInto = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+  target: Uint8Array,
+  offset?: number,
+): number => getCodec(schema).encodeInto(input, target, offset);
+
+/**
+ * the number of bytes the encoded value takes up
+ * it runs a full encode (parse included), so don't call it before every `encodeInto` in a hot loop.
+ * encode into a pooled buffer that is big enough for most values instead and only grow it when `encodeInto` throws LIMIT_EXCEEDED
+ * ```ts
+ *   let pool = new Uint8Array(64 * 1024);
+ *   const length = encodeInto(schema, state, pool);
+ *   socket.send(pool.subarray(0, length));
+ * ```
+ */
+export const encodedSize = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+): number => getCodec(schema).encodedSize(input);
+
+export const decode = <T>(
+  schema: z.ZodType<T>,
+  buffer: DecodeInput,
+  options?: DecodeOptions,
+): T => getCodec(schema).decode(buffer, options);
+
+/**
+ * decode a value that starts at `offset` and report how many bytes were read
+ * ```ts
+ *   let offset = 0;
+ *   while (offset < received.byteLength) {
+ *     const { value, bytesRead } = decodeWithLength(schema, received, offset);
+ *     offset += bytesRead;
+ *   }
+ * ```
+ * @param schema zod schema of the value
+ * @param buffer the buffer the value is read from
+ * @param offset position in the buffer where the encoded value starts
+ * @param options decode options
+ * @returns the decoded value and the number of bytes the encoded value took up
+ */
+export const decodeWithLength = <T>(
+  schema: z.ZodType<T>,
+  buffer: DecodeInput,
+  offset?: number,
+  options?: DecodeOptions,
+): { value: T; bytesRead: number } =>
+  getCodec(schema).decodeWithLength(buffer, offset, options);
+
+/**
+ * encode a value without throwing
+ * ```ts
+ *   const result = safeEncode(playerPosSchema, input);
+ *   if (!result.success) {
+ *     console.error(result.error.code, result.error.path);
+ *   }
+ * ```
+ * @returns the buffer or the ZodSerializeError, also when the schema can't be encoded
+ */
+export const safeEncode = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+): SafeResult<ArrayBuffer> => safely(() => getCodec(schema).encode(input));
+
+/**
+ * decode a value without throwing, e.g. for buffers received from untrusted peers
+ * @returns the value or the ZodSerializeError, also when the schema can't be encoded
+ */
+export const safeDecode = <T>(
+  schema: z.ZodType<T>,
+  buffer: DecodeInput,
+  options?: DecodeOptions,
+): SafeResult<T> => safely(() => getCodec(schema).decode(buffer, options));
+
+/**
+ * encode a value and compress its body with the compression streams, for big values like snapshots
+ * ```ts
+ *   socket.send(await encodeCompressed(welcomeSchema, welcome, { threshold: 4096 }));
+ * ```
+ * `decode` reads the value where there is a synchronous zlib (Bun, Node), `decodeCompressed` everywhere
+ * @param schema zod schema of the value
+ * @param input the value to encode
+ * @param compression the format and the size from which on the body is compressed
+ */
+export const encodeCompressed = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+  compression?: CompressionOptions,
+): Promise<ArrayBuffer> =>
+  getCodec(schema).encodeCompressed(input, compression);
+
+/**
+ * decode a value that may be compressed, with the decompression streams
+ */
+export const decodeCompressed = <T>(
+  schema: z.ZodType<T>,
+  buffer: DecodeInput,
+  options?: DecodeOptions,
+): Promise<T> => getCodec(schema).decodeCompressed(buffer, options);
+
+/**
+ * version of the wire format and of the fingerprint algorithm
+ * - 1: the fingerprint covers the type tags and bounded numbers and booleans have a type tag,
+ *   codecs with the structural fingerprint still read these values
+ * - 2: the fingerprint covers keys, literals, enum members, optional/nullable markers and recursion
+ * - 3: the compact layout (see `CodecOptions.layout`), values of the tagged layout are still written with version 2
+ * the version takes up the lower 5 bits of the first byte, the bit above is set for compressed values
+ * and the upper 2 bits are the header mode
+ */
+export const PROTOCOL_VERSION = 3;
+
+// the protocol version in the header of values of each layout, it's also part of their fingerprint
+export const LAYOUT_VERSIONS: Record<LayoutMode, number> = {
+  tagged: 2,
+  compact: 3,
+};
+const LAYOUT_MODES = Object.keys(LAYOUT_VERSIONS) as Array<LayoutMode>;
+
+/**
+ * - strict: keys and their order, literal values, enum members, optional/nullable markers and recursion are part of the fingerprint
+ * - structural: only the type tags are part of the fingerprint, e.g. renaming a key keeps the fingerprint
+ */
+export type FingerprintMode = "strict" | "structural";
+
+/**
+ * hash of the schema that is written into the header, buffers are only decoded by schemas with the same fingerprint
+ * ```ts
+ *   schemaFingerprint(z.object({ x: z.number(), y: z.number() })) !==
+ *     schemaFingerprint(z.object({ y: z.number(), x: z.number() }));
+ * ```
+ * @param schema zod schema
+ * @param mode what the fingerprint covers, defaults to "strict"
+ * @param layout the layout the values are written with, defaults to "tagged"
+ */
+export const schemaFingerprint = (
+  schema: z.ZodTypeAny,
+  mode: FingerprintMode = "strict",
+  layout: LayoutMode = "tagged",
+): bigint =>
+  rapidhash(
+    new Uint8Array([
+      LAYOUT_VERSIONS[layout],
+      ...zodTypeIdentity(schema, {
+        lazySeen: [],
+        strict: mode === "strict",
+        layout,
+      }),
+    ]),
+  );
+
+/**
+ * the fingerprint of protocol version 1, the structural identity of its layout without the version in front of it
+ */
+const versionOneFingerprint = (schema: z.ZodTypeAny): bigint =>
+  rapidhash(
+    new Uint8Array(
+      zodTypeIdentity(schema, {
+        lazySeen: [],
+        strict: false,
+        layout: "versionOne",
+      }),
+    ),
+  );
+
+// the index of the header mode is written into the top 2 bits of the version byte
+const HEADER_MODES = ["full", "hash32", "hash16"] as const;
+type WrittenHeaderMode = (typeof HEADER_MODES)[number];
+const HASH_BITS: Record<WrittenHeaderMode, bigint> = {
+  full: 64n,
+  hash32: 32n,
+  hash16: 16n,
+};
+
+export const makeHeader = (
+  fingerprint: bigint,
+  mode: WrittenHeaderMode,
+  version: number,
+): ArrayBuffer => {
+  const hashLength = Number(HASH_BITS[mode]) / 8;
+  const buffer = new ArrayBuffer(1 + hashLength);
+  const view = new DataView(buffer);
+  view.setUint8(0, version | (HEADER_MODES.indexOf(mode) << 6));
+  const hash = fingerprint >> (64n - HASH_BITS[mode]);
+  if (mode === "full") {
+    view.setBigUint64(1, hash);
+  } else if (mode === "hash32") {
+    view.setUint32(1, Number(hash));
+  } else {
+    view.setUint16(1, Number(hash));
+  }
+  return buffer;
+};
+
+// set in the version byte of values whose body is compressed
+const COMPRESSED_FLAG = 0x20;
+
+/**
+ * write a compressed value, the header gets the compressed flag and is followed by
+ * - 1 byte: the index of the format in `COMPRESSION_FORMATS`
+ * - varint: the length of the body before it was compressed
+ * - varint: the length of the compressed body
+ * - the compressed body
+ * @param writer the header and the body are written from its start
+ */
+const writeCompressed = (
+  writer: Writer,
+  header: Uint8Array,
+  format: CompressionFormat,
+  length: number,
+  compressed: Uint8Array,
+): void => {
+  writer.offset = 0;
+  writeBytes(writer, header);
+  writer.bytes[0] |= COMPRESSED_FLAG;
+  writeUint8(writer, COMPRESSION_FORMATS.indexOf(format));
+  writeVarUint(writer, length);
+  writeVarUint(writer, compressed.byteLength);
+  writeBytes(writer, compressed);
+};
+
+/**
+ * - offset: where the compressed body starts in the buffer
+ * - length: the length of the body after decompressing it
+ * - bytes: the compressed body, a view into the buffer
+ */
+type CompressedBody = {
+  format: CompressionFormat;
+  offset: number;
+  length: number;
+  bytes: Uint8Array;
+};
+
+export const readCompressedBody = (ctx: DecodeContext): CompressedBody => {
+  const formatIndex = ctx.view.getUint8(ctx.offset);
+  const format = COMPRESSION_FORMATS[formatIndex];
+  if (!format) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `unknown compression format ${formatIndex}`,
+      { offset: ctx.offset },
+    );
+  }
+  ctx.offset++;
+  const length = decodeVarUint(ctx);
+  const compressedLength = decodeVarUint(ctx);
+  ensureBytes(ctx, compressedLength);
+  const offset = ctx.offset;
+  ctx.offset += compressedLength;
+  return {
+    format,
+    offset,
+    length,
+    bytes: ctx.bytes.subarray(offset, ctx.offset),
+  };
+};
+
+// the decompressed body is checked before anything is decompressed
+const checkDecompressedLength = (
+  compressed: CompressedBody,
+  {
+    maxBytes = Infinity,
+    maxDecompressedBytes = DEFAULT_MAX_DECOMPRESSED_BYTES,
+  }: DecodeOptions = {},
+): void => {
+  if (compressed.length > maxBytes) {
+    throw new ZodSerializeError(
+      "LIMIT_EXCEEDED",
+      `the decompressed value is longer than maxBytes (${compressed.length} bytes)`,
+      { offset: compressed.offset },
+    );
+  }
+  if (compressed.length > maxDecompressedBytes) {
+    throw new ZodSerializeError(
+      "LIMIT_EXCEEDED",
+      `the decompressed value is longer than maxDecompressedBytes (${compressed.length} bytes)`,
+      { offset: compressed.offset },
+    );
+  }
+};
+
+const headerlessCompressionError = () =>
+  new ZodSerializeError(
+    "INVALID_VALUE",
+    "values without header can't be compressed, the header tells whether a value is compressed",
+  );
+
+const decompressionError = (compressed: CompressedBody, cause: unknown) =>
+  cause instanceof ZodSerializeError
+    ? cause
+    : new ZodSerializeError(
+        "INVALID_VALUE",
+        "the compressed body can't be decompressed",
+        { offset: compressed.offset, cause },
+      );
+
+const decompressSync = (
+  compressed: CompressedBody,
+  options?: DecodeOptions,
+): Uint8Array => {
+  checkDecompressedLength(compressed, options);
+  if (!syncCompression) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      "the value is compressed and there is no synchronous zlib on this platform, decode it with decodeCompressed",
+      { offset: compressed.offset },
+    );
+  }
+  let body: Uint8Array;
+  try {
+    body = syncCompression.decompress(
+      compressed.bytes,
+      compressed.format,
+      compressed.length,
+    );
+  } catch (error) {
+    throw decompressionError(compressed, error);
+  }
+  if (body.byteLength !== compressed.length) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `the compressed body has ${body.byteLength} bytes instead of ${compressed.length}`,
+      { offset: compressed.offset },
+    );
+  }
+  return body;
+};
+
+// bytes of the identity that are not type tags or fixed layouts, ordinals and how fields of the compact layout are written are also in the structural identity
+enum IdentityMark {
+  Key = 0x20,
+  Literal = 0x21,
+  Members = 0x22,
+  Optional = 0x23,
+  Nullable = 0x24,
+  LazyRef = 0x25,
+  Ordinal = 0x26,
+  Elided = 0x27,
+  State = 0x28,
+  Packed = 0x29,
+}
+
+const identityLength = (length: number): Array<number> => {
+  const writer = createWriter(MAX_VARUINT_LENGTH);
+  writeVarUint(writer, length);
+  return Array.from(writer.bytes.subarray(0, writer.offset));
+};
+
+const identityString = (value: string): Array<number> => {
+  const bytes = textEncoder.encode(value);
+  return [...identityLength(bytes.byteLength), ...bytes];
+};
+
+// the type is part of the value so 1, 1n and "1" are different literals
+const identityLiteral = (value: unknown): Array<number> =>
+  identityString(`${typeof value}:${String(value)}`);
+
+/**
+ * the identity of the schema as bytes, the fingerprint is its hash
+ * counts are written in front of fields, options and members so different nestings can't produce the same bytes
+ */
+const zodTypeIdentity = <T>(
+  schema: z.ZodType<T>,
+  ctx: { lazySeen: Array<z.ZodLazy<any>>; strict: boolean; layout: WireLayout },
+): Array<number> => {
+  if (ctx.strict) {
+    const strict = strictIdentity(schema, ctx);
+    if (strict) {
+      return strict;
+    }
+  }
+  const layout = getFixedLayout(schema, ctx.layout);
+  if (layout !== undefined) {
+    return [layout];
+  }
+  // the number of members tells how the ordinals are read, their values only matter for the strict identity
+  const members = getOrdinalMembers(schema, ctx.layout);
+  if (members) {
+    return [IdentityMark.Ordinal, ...identityLength(members.length)];
+  }
+  const binary = getAnnotation(schema)?.binary;
+  if (binary) {
+    return [Types.Binary, BINARY_TYPES.indexOf(binary)];
+  }
+  switch (true) {
+    case schema instanceof z.ZodAny:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.any() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodUnknown:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.unknown() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodNever:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.never() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodVoid:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.void() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodFunction:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.function() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodSymbol:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.symbol() schema cannot be encoded",
+      );
+    case schema instanceof z.ZodPromise:
+      throw new ZodSerializeError(
+        "UNSUPPORTED_SCHEMA",
+        "z.promise() schema cannot be encoded await Promise first",
+      );
+    case schema instanceof z.ZodLiteral && schema.value === undefined:
+    case schema instanceof z.ZodLiteral && schema.value === null:
+    case schema instanceof z.ZodUndefined:
+    case schema instanceof z.ZodNull:
+      return [Types.Object];
+    case schema instanceof z.ZodNativeEnum &&
+      typeof schema.enum[Object.keys(schema.enum)[0]] === "string":
+    case schema instanceof z.ZodLiteral && typeof schema.value === "string":
+    case schema instanceof z.ZodString:
+    case schema instanceof z.ZodEnum:
+      return [Types.String];
+    case schema instanceof z.ZodNativeEnum &&
+      typeof schema.enum[Object.keys(schema.enum)[0]] === "number":
+    case schema instanceof z.ZodBigInt && !schema._def.coerce:
+    case schema instanceof z.ZodNumber:
+    case schema instanceof z.ZodNaN:
+    case schema instanceof z.ZodBigInt:
+    case schema instanceof z.ZodLiteral && typeof schema.value === "number":
+    case schema instanceof z.ZodLiteral && typeof schema.value === "bigint":
+    case schema instanceof z.ZodLiteral && typeof schema.value === "boolean":
+    case schema instanceof z.ZodBoolean:
+      return [Types.Nummeric];
+    case schema instanceof z.ZodDate:
+      return [Types.Date];
+    case schema instanceof z.ZodObject:
+      return [
+        Types.Object,
+        ...Object.entries(schema.shape).flatMap(([_, field]) =>
+          fieldIdentity(field as z.ZodTypeAny, ctx),
+        ),
+      ];
+    case schema instanceof z.ZodArray:
+      return [Types.Array, ...zodTypeIdentity(schema.element, ctx)];
+    case schema instanceof z.ZodTuple:
+      return [
+        Types.Array,
+        ...(schema as z.ZodTuple).items.flatMap((i) => zodTypeIdentity(i, ctx)),
+      ];
+    case schema instanceof z.ZodSet:
+      return [Types.Array, ...zodTypeIdentity(schema._def.valueType, ctx)];
+    case schema instanceof z.ZodUnion:
+    case schema instanceof z.ZodDiscriminatedUnion:
+      return [
+        Types.Union,
+        ...schema.options.flatMap((o: z.ZodTypeAny) => zodTypeIdentity(o, ctx)),
+      ];
+    case schema instanceof z.ZodRecord:
+    case schema instanceof z.ZodMap:
+      return [
+        Types.Map,
+        ...zodTypeIdentity(schema.keySchema, ctx),
+        ...zodTypeIdentity(schema.valueSchema, ctx),
+      ];
+    case schema instanceof z.ZodIntersection:
+      return [
+        ...zodTypeIdentity(schema._def.left, ctx),
+        ...zodTypeIdentity(schema._def.right, ctx),
+      ];
+    case schema instanceof z.ZodOptional:
+    case schema instanceof z.ZodNullable:
+    case schema instanceof z.ZodReadonly:
+    case schema instanceof z.ZodBranded:
+      return zodTypeIdentity(schema.unwrap(), ctx);
+    case schema instanceof z.ZodLazy:
+      if (!ctx.lazySeen.includes(schema)) {
+        ctx.lazySeen.push(schema);
+        return zodTypeIdentity(schema.schema, ctx);
+      }
+      return [];
+    case schema instanceof z.ZodDefault:
+      return zodTypeIdentity(schema.removeDefault(), ctx);
+    case schema instanceof z.ZodCatch:
+      return zodTypeIdentity(schema.removeCatch(), ctx);
+    case schema instanceof z.ZodPipeline:
+      return zodTypeIdentity(schema._def.in, ctx);
+    case schema instanceof z.ZodEffects:
+      return zodTypeIdentity(schema.innerType(), ctx);
+  }
+
+  throw new ZodSerializeError(
+    "UNSUPPORTED_SCHEMA",
+    `${schema.constructor.name} schema cannot be encoded`,
+  );
+};
+
+/**
+ * the bits a field has in the bitmap of a compact object come first (see `layoutFields`)
+ * elided fields are not written, only the strict identity has their value
+ */
+const fieldIdentity = (
+  schema: z.ZodTypeAny,
+  ctx: { lazySeen: Array<z.ZodLazy<any>>; strict: boolean; layout: WireLayout },
+): Array<number> => {
+  if (isElidedField(schema, ctx.layout)) {
+    return [
+      IdentityMark.Elided,
+      ...(ctx.strict
+        ? [IdentityMark.Literal, ...identityLiteral(schema.value)]
+        : []),
+    ];
+  }
+  const compact = ctx.layout === "compact";
+  return [
+    ...(compact && (schema.isOptional() || schema.isNullable())
+      ? [IdentityMark.State]
+      : []),
+    ...(compact && isPackedBoolean(schema, ctx.layout)
+      ? [IdentityMark.Packed]
+      : []),
+    ...zodTypeIdentity(schema, ctx),
+  ];
+};
+
+/**
+ * the parts of the strict identity that go beyond the type tags
+ * @returns undefined for schemas whose identity is the same in both modes
+ */
+const strictIdentity = (
+  schema: z.ZodTypeAny,
+  ctx: { lazySeen: Array<z.ZodLazy<any>>; strict: boolean; layout: WireLayout },
+): Array<number> | undefined => {
+  if (
+    getFixedLayout(schema, ctx.layout) !== undefined ||
+    getAnnotation(schema)?.binary
+  ) {
+    return undefined;
+  }
+  switch (true) {
+    case schema instanceof z.ZodLiteral:
+      return [
+        ...zodTypeIdentity(schema, { ...ctx, strict: false }),
+        IdentityMark.Literal,
+        ...identityLiteral(schema.value),
+      ];
+    case schema instanceof z.ZodEnum:
+    case schema instanceof z.ZodNativeEnum: {
+      const members: Array<unknown> =
+        schema instanceof z.ZodEnum
+          ? schema.options
+          : Object.entries(schema.enum).flat();
+      return [
+        ...zodTypeIdentity(schema, { ...ctx, strict: false }),
+        IdentityMark.Members,
+        ...identityLength(members.length),
+        ...members.flatMap(identityLiteral),
+      ];
+    }
+    case schema instanceof z.ZodObject: {
+      const fields = Object.entries(schema.shape);
+      return [
+        Types.Object,
+        ...identityLength(fields.length),
+        ...fields.flatMap(([key, field]) => [
+          IdentityMark.Key,
+          ...identityString(key),
+          ...fieldIdentity(field as z.ZodTypeAny, ctx),
+        ]),
+      ];
+    }
+    case schema instanceof z.ZodTuple:
+      return [
+        Types.Array,
+        ...identityLength(schema.items.length),
+        ...(schema as z.ZodTuple).items.flatMap((i) => zodTypeIdentity(i, ctx)),
+      ];
+    case schema instanceof z.ZodUnion:
+    case schema instanceof z.ZodDiscriminatedUnion:
+      return [
+        Types.Union,
+        ...identityLength(schema.options.length),
+        ...schema.options.flatMap((o: z.ZodTypeAny) => zodTypeIdentity(o, ctx)),
+      ];
+    case schema instanceof z.ZodOptional:
+      return [IdentityMark.Optional, ...zodTypeIdentity(schema.unwrap(), ctx)];
+    case schema instanceof z.ZodNullable:
+      return [IdentityMark.Nullable, ...zodTypeIdentity(schema.unwrap(), ctx)];
+    case schema instanceof z.ZodLazy: {
+      // a schema that refers to itself points back to where it was first seen
+      const index = ctx.lazySeen.indexOf(schema);
+      if (index !== -1) {
+        return [IdentityMark.LazyRef, ...identityLength(index)];
+      }
+      ctx.lazySeen.push(schema);
+      return zodTypeIdentity(schema.schema, ctx);
+    }
+  }
+  return undefined;
+};
+
+const textDecoder = new TextDecoder();
+
+export const decodeString = (ctx: DecodeContext): string => {
+  const { view } = ctx;
+  let length;
+  if (view.getUint8(ctx.offset) & 0b10000) {
+    length =
+      ((view.getUint8(ctx.offset) & 0b1111) << 16) +
+      view.getUint16(ctx.offset + 1);
+    ctx.offset += 3;
+    if (length === 0) {
+      length = decodeVarUint(ctx);
+    }
+  } else {
+    length = view.getUint16(ctx.offset) & 0x0fff;
+    ctx.offset += 2;
+  }
+  ensureBytes(ctx, length);
+  const text = textDecoder.decode(
+    ctx.bytes.subarray(ctx.offset, ctx.offset + length),
+  );
+  ctx.offset += length;
+  return text;
+};
+
+/**
+ * read the LEB128 varint length of an extended header
+ */
+export const decodeVarUint = (ctx: DecodeContext): number => {
+  const varint = readVarUint(ctx.bytes, ctx.offset);
+  if (!varint) {
+    throw endOfInputError(ctx);
+  }
+  ctx.offset += varint.length;
+  return varint.value;
+};
+
+/**
+ * read a zigzag LEB128 varint
+ * varints of up to 7 bytes (49 bits) are read with number arithmetic, longer ones as bigint
+ */
+const decodeZigzag = (ctx: DecodeContext): number | bigint => {
+  const { bytes } = ctx;
+  let value = 0;
+  for (let i = 0; i < 7; i++) {
+    ensureBytes(ctx, 1);
+    const byte = bytes[ctx.offset++];
+    value += (byte & 0x7f) * 2 ** (7 * i);
+    if ((byte & 0x80) === 0) {
+      return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+  }
+  let big = BigInt(value);
+  for (let shift = 49n; ; shift += 7n) {
+    if (shift > 63n) {
+      throw new ZodSerializeError(
+        "LIMIT_EXCEEDED",
+        "varint is longer than 64 bits",
+        { offset: ctx.offset },
+      );
+    }
+    ensureBytes(ctx, 1);
+    const byte = bytes[ctx.offset++];
+    big |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return big & 1n ? -((big + 1n) >> 1n) : big >> 1n;
+    }
+  }
+};
+
+export const decodeNumber = (ctx: DecodeContext): number | bigint | boolean => {
+  const { view } = ctx;
+  const type = view.getUint8(ctx.offset) & 0b1111;
+  ctx.offset += 1; // header
+  switch (type) {
+    case NumberType.i8:
+      ctx.offset += 1;
+      return view.getInt8(ctx.offset - 1);
+    case NumberType.i16:
+      ctx.offset += 2;
+      return view.getInt16(ctx.offset - 2, true);
+    case NumberType.i32:
+      ctx.offset += 4;
+      return view.getInt32(ctx.offset - 4, true);
+    case NumberType.i64:
+      ctx.offset += 8;
+      return Number(view.getBigInt64(ctx.offset - 8, true));
+    case NumberType.i64bigInt:
+      ctx.offset += 8;
+      return view.getBigInt64(ctx.offset - 8, true);
+    case NumberType.f64:
+      ctx.offset += 8;
+      return view.getFloat64(ctx.offset - 8, true);
+    case NumberType.NaN:
+      return NaN;
+    case NumberType.Infinity:
+      return Infinity;
+    case NumberType.NegativeInfinity:
+      return -Infinity;
+    case NumberType.BooleanTrue:
+      return true;
+    case NumberType.BooleanFalse:
+      return false;
+    case NumberType.varint:
+      return Number(decodeZigzag(ctx));
+    case NumberType.varintBigInt:
+      return BigInt(decodeZigzag(ctx));
+  }
+  throw new ZodSerializeError("INVALID_VALUE", "unknown number type: " + type, {
+    offset: ctx.offset - 1,
+  });
+};
+
+export const decodeDate = (ctx: DecodeContext): Date => {
+  const { view } = ctx;
+  ctx.offset += 1 + 8;
+  return new Date(Number(view.getBigInt64(ctx.offset - 8, true)));
+};
+
+const decodeObject = (
+  { fields, bits }: CompiledObject,
+  ctx: DecodeContext,
+): Record<string, unknown> => {
+  const obj: Record<string, unknown> = {};
+  ctx.offset += 1; // header
+  const start = ctx.offset;
+  const bitmap = readBitmap(bits, ctx);
+  for (const field of fields) {
+    const { key, state, packed, compiled, skip } = field;
+    if (
+      state === undefined &&
+      field.optional &&
+      (ctx.view.getUint8(ctx.offset) & 0b1100) ===
+        ObjectTypes.UndefinedOptional << 2
+    ) {
+      // objects of the tagged layout have the header of the absent field instead of its bits
+      ctx.offset++;
+      continue;
+    }
+    let value: unknown;
+    const type =
+      state === undefined
+        ? ObjectTypes.Object
+        : readFieldState(bitmap, state, field, start);
+    if (type === ObjectTypes.UndefinedOptional) {
+      // field is optional and was not present in the encoded object
+      continue;
+    } else if (type === ObjectTypes.Null) {
+      value = null;
+    } else if (type === ObjectTypes.Undefined) {
+      value = undefined;
+    } else if (packed !== undefined) {
+      value = hasBit(bitmap, packed);
+    } else {
+      value = decodeAt(
+        state === undefined ? compiled.decode : compiled.value!.decode,
+        key,
+        ctx,
+      );
+    }
+    if (!skip) {
+      obj[key] = value;
+    }
+  }
+  return obj;
+};
+
+export const decodeArrayHeader = (ctx: DecodeContext): number => {
+  const { view } = ctx;
+  const header = view.getUint8(ctx.offset);
+  const lengthTag = (header & 0b11000) >> 3;
+
+  if (lengthTag == 0) {
+    ctx.offset += 1;
+    return header & 0x7;
+  } else if (lengthTag == 1) {
+    ctx.offset += 2;
+    return view.getUint16(ctx.offset - 2) & 0x07ff;
+  } else if (lengthTag == 2) {
+    ctx.offset += 3;
+    return ((header & 0x7) << 16) + view.getUint16(ctx.offset - 2);
+  } else {
+    ctx.offset += 1;
+    return decodeVarUint(ctx);
+  }
+};
+
+const decodeArray = (
+  schema: z.ZodArray<z.ZodTypeAny> | z.ZodTuple | z.ZodSet,
+  elements: Array<CompiledSchema>,
+  ctx: DecodeContext,
+): Array<unknown> | Set<unknown> => {
+  const length = decodeArrayHeader(ctx);
+  checkCollectionLength(length, 1, ctx);
+
+  if (schema instanceof z.ZodArray) {
+    const array = Array.from({ length });
+    for (let i = 0; i < length; i++) {
+      array[i] = decodeAt(elements[0].decode, i, ctx);
+    }
+    return array;
+  } else if (schema instanceof z.ZodTuple) {
+    if (length !== elements.length) {
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        `tuple of ${length} elements where ${elements.length} are expected`,
+        { offset: ctx.offset },
+      );
+    }
+    const array = Array.from({ length });
+    for (let i = 0; i < length; i++) {
+      array[i] = decodeAt(elements[i].decode, i, ctx);
+    }
+    return array;
+  } else if (schema instanceof z.ZodSet) {
+    const array = Array.from({ length });
+    for (let i = 0; i < length; i++) {
+      array[i] = decodeAt(elements[0].decode, i, ctx);
+    }
+    return new Set(array);
+  }
+  throw new ZodSerializeError("UNSUPPORTED_SCHEMA", "unreachable");
+};
+
+const decodeBinary = (
+  type: BinaryConstructor,
+  ctx: DecodeContext,
+): ArrayBuffer | ArrayBufferView => {
+  const length = decodeArrayHeader(ctx);
+  ensureBytes(ctx, length);
+  const start = ctx.offset;
+  if (type === ArrayBuffer) {
+    ctx.offset += length;
+    return ctx.bytes.slice(start, start + length).buffer;
+  }
+  const TypedArray = type as {
+    new (
+      buffer: ArrayBufferLike,
+      byteOffset?: number,
+      length?: number,
+    ): ArrayBufferView;
+    BYTES_PER_ELEMENT: number;
+  };
+  if (length % TypedArray.BYTES_PER_ELEMENT !== 0) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `${length} bytes are not a multiple of the ${TypedArray.BYTES_PER_ELEMENT} byte elements`,
+      { offset: ctx.offset },
+    );
+  }
+  ctx.offset += length;
+  const byteOffset = ctx.bytes.byteOffset + start;
+  // typed arrays can only view memory that is aligned to their element size
+  if (ctx.zeroCopy && byteOffset % TypedArray.BYTES_PER_ELEMENT === 0) {
+    return new TypedArray(
+      ctx.bytes.buffer,
+      byteOffset,
+      length / TypedArray.BYTES_PER_ELEMENT,
+    );
+  }
+  return new TypedArray(ctx.bytes.slice(start, start + length).buffer);
+};
+
+const decodeUnion = (
+  options: Array<CompiledSchema>,
+  ctx: DecodeContext,
+): unknown => {
+  const { view } = ctx;
+  let unionElementIndex = view.getUint8(ctx.offset) & 0x1f;
+  ctx.offset++;
+  if (options.length > 32 && unionElementIndex === 31) {
+    unionElementIndex += decodeVarUint(ctx);
+  }
+  if (unionElementIndex >= options.length) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `union option ${unionElementIndex} does not exist`,
+      { offset: ctx.offset - 1 },
+    );
+  }
+  enterNested(ctx);
+  const value = options[unionElementIndex].decode(ctx);
+  ctx.depth--;
+  return value;
+};
+
+export const decodeMapHeader = (
+  ctx: DecodeContext,
+): { isMap: boolean; length: number } => {
+  const { view } = ctx;
+  const header = view.getUint8(ctx.offset);
+  const isMap = !!(header & 0b1_0000);
+  const lengthTag = (header & 0b1000) >> 3;
+
+  let length: number;
+  if (lengthTag == 0) {
+    ctx.offset += 2;
+    length = view.getUint16(ctx.offset - 2) & 0x07ff;
+  } else {
+    ctx.offset += 3;
+    length = ((header & 0x7) << 16) + view.getUint16(ctx.offset - 2);
+    if (length === 0) {
+      length = decodeVarUint(ctx);
+    }
+  }
+  return { isMap, length };
+};
+const decodeMap = (
+  keyCompiled: CompiledSchema,
+  valueCompiled: CompiledSchema,
+  ctx: DecodeContext,
+): Map<unknown, unknown> | Record<string, unknown> => {
+  const { length, isMap } = decodeMapHeader(ctx);
+  // a key and a value per entry
+  checkCollectionLength(length, 2, ctx);
+  const entries = Array.from({ length }).map((_, index) => {
+    const key = decodeAt(keyCompiled.decode, index, ctx);
+    const segment =
+      typeof key === "string" || typeof key === "number" ? key : index;
+    return [key, decodeAt(valueCompiled.decode, segment, ctx)] as const;
+  });
+  if (isMap) {
+    return new Map(entries);
+  }
+  // the keys come from the input, without a prototype a key like __proto__ is just a key
+  const record: Record<string, unknown> = Object.create(null);
+  for (const [key, value] of entries) {
+    record[key as string] = value;
+  }
+  return record;
+};
+
+export const readHeaderAt = (
+  ctx: DecodeContext,
+): {
+  version: number;
+  header: WrittenHeaderMode;
+  hash: bigint;
+  compressed: boolean;
+} => {
+  const { view } = ctx;
+  const versionByte = view.getUint8(ctx.offset);
+  const header = HEADER_MODES[versionByte >> 6];
+  if (!header) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `unknown header mode ${versionByte >> 6}`,
+      { offset: ctx.offset },
+    );
+  }
+  let hash: bigint;
+  if (header === "full") {
+    hash = view.getBigUint64(ctx.offset + 1);
+  } else if (header === "hash32") {
+    hash = BigInt(view.getUint32(ctx.offset + 1));
+  } else {
+    hash = BigInt(view.getUint16(ctx.offset + 1));
+  }
+  ctx.offset += 1 + Number(HASH_BITS[header]) / 8;
+  return {
+    version: versionByte & 0x1f,
+    header,
+    hash,
+    compressed: (versionByte & COMPRESSED_FLAG) !== 0,
+  };
+};
+
+/**
+ * read the header of an encoded value without decoding the value
+ * ```ts
+ *   const { fingerprint } = decodeHeader(buffer);
+ *   const codec = codecsByFingerprint.get(fingerprint);
+ * ```
+ * @param buffer the encoded value, written with a header
+ * @param offset position in the buffer where the encoded value starts
+ * @returns
+ * - version: the protocol version the value was written with
+ * - header: the header mode
+ * - fingerprint: the fingerprint of the schema, only the first 32 or 16 bits for short headers
+ * - compressed: whether the body is compressed (see `CodecOptions.compression`)
+ * - length: the number of bytes of the header, the value starts after it
+ */
+export const decodeHeader = (
+  buffer: DecodeInput,
+  offset = 0,
+): {
+  version: number;
+  header: WrittenHeaderMode;
+  fingerprint: bigint;
+  compressed: boolean;
+  length: number;
+} => {
+  const ctx = createDecodeContext(buffer, offset);
+  try {
+    const { version, header, hash, compressed } = readHeaderAt(ctx);
+    return {
+      version,
+      header,
+      fingerprint: hash,
+      compressed,
+      length: ctx.offset - offset,
+    };
+  } catch (error) {
+    throw toDecodeError(error, ctx);
+  }
+};
@@ -0,0 +1,178 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import z from "zod";
+import {
+  createCodec,
+  generateCodec,
+  ZodSerializeError,
+  type GenerateOptions,
+} from ".";
+import { codecFixtures } from "./fixtures";
+
+const directory = mkdtempSync(join(tmpdir(), "zod-serialize-codegen-"));
+const runtime = join(import.meta.dir, "runtime.ts");
+const fixtures = join(import.meta.dir, "fixtures.ts");
+const zod = Bun.resolveSync("zod", import.meta.dir);
+
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+let generated = 0;
+
+/**
+ * write the generated module next to a module that exports the schema and import it
+ */
+const generate = async (
+  schemaSource: string,
+  schema: z.ZodTypeAny,
+  options: Partial<GenerateOptions> = {},
+) => {
+  const id = generated++;
+  const from = join(directory, `schema${id}.ts`);
+  await Bun.write(from, schemaSource);
+  const file = join(directory, `schema${id}.codec.ts`);
+  await Bun.write(
+    file,
+    generateCodec(schema, {
+      from,
+      exportName: "testSchema",
+      runtime,
+      ...options,
+    }),
+  );
+  return { from, module: await import(file) };
+};
+
+const fixtureSource = (name: string) =>
+  `import { codecFixtures } from ${JSON.stringify(fixtures)};\n` +
+  `export const testSchema = codecFixtures[${JSON.stringify(name)}].schema;\n`;
+
+const expectSameBytes = (
+  module: Record<string, any>,
+  schema: z.ZodTypeAny,
+  values: Array<unknown>,
+  options: Parameters<typeof createCodec>[1] = {},
+) => {
+  const codec = createCodec(schema, options);
+  for (const value of values) {
+    const expected = new Uint8Array(codec.encode(value));
+    const encoded = new Uint8Array(module.encodeTest(value));
+    expect(encoded).toEqual(expected);
+    expect(module.decodeTest(encoded)).toEqual(codec.decode(expected));
+  }
+};
+
+describe("generateCodec", () => {
+  for (const [name, { schema, values }] of Object.entries(codecFixtures)) {
+    it(`encodes and decodes like the runtime codec: ${name}`, async () => {
+      const { module } = await generate(fixtureSource(name), schema);
+      expectSameBytes(module, schema, values);
+    });
+  }
+  for (const [name, { schema, values }] of Object.entries(codecFixtures)) {
+    it(`encodes and decodes like the runtime codec with the compact layout: ${name}`, async () => {
+      const options = { layout: "compact" } as const;
+      const { module } = await generate(fixtureSource(name), schema, options);
+      expectSameBytes(module, schema, values, options);
+    });
+  }
+
+  it("encodes and decodes the events of the web game example", async () => {
+    const { eventsSchema } =
+      await import("../../../examples/simple-web-game/shared");
+    const shared = join(
+      import.meta.dir,
+      "../../../examples/simple-web-game/shared.ts",
+    );
+    const { module } = await generate(
+      `export { eventsSchema as testSchema } from ${JSON.stringify(shared)};\n`,
+      eventsSchema,
+    );
+    expectSameBytes(module, eventsSchema, [
+      { type: "playerMove", dx: 1, dy: -1 },
+      { type: "playerPos", id: 3, x: 10.5, y: 20 },
+      {
+        type: "welcome",
+        yourId: 3,
+        players: new Map([[1, { x: 0, y: 0 }]]),
+      },
+      { type: "playerJoined", id: 4 },
+    ]);
+  });
+
+  it("supports the integer, union and header options", async () => {
+    const { schema, values } = codecFixtures.complex;
+    for (const options of [
+      { integers: "varint", unions: "strict" },
+      { header: "hash16" },
+      { header: "none", fingerprint: "structural" },
+    ] satisfies Array<Partial<GenerateOptions>>) {
+      const { module } = await generate(
+        fixtureSource("complex"),
+        schema,
+        options,
+      );
+      expectSameBytes(module, schema, values, options);
+    }
+  });
+
+  it("names the exports after the schema", async () => {
+    const { module } = await generate(
+      fixtureSource("string"),
+      codecFixtures.string.schema,
+      { name: "Greeting" },
+    );
+    expect(module.encodeGreeting("hello")).toEqual(
+      createCodec(codecFixtures.string.schema).encode("hello"),
+    );
+    expect(module.greetingCodec.decode).toBe(module.decodeGreeting);
+  });
+
+  it("fails like the runtime codec", async () => {
+    const { schema } = codecFixtures.object;
+    const { module } = await generate(fixtureSource("object"), schema);
+    const codec = createCodec(schema);
+    const failure = (run: () => unknown) => {
+      try {
+        run();
+      } catch (error) {
+        return error;
+      }
+    };
+    for (const run of [
+      (encode: (value: unknown) => ArrayBuffer) => encode({ string: 3 }),
+      (encode: (value: unknown) => ArrayBuffer) =>
+        new Uint8Array(encode({ string: "hello" })).subarray(0, 12),
+    ]) {
+      const expected = failure(() => codec.decode(run(codec.encode)));
+      const error = failure(() => module.decodeTest(run(module.encodeTest)));
+      expect(error).toBeInstanceOf(ZodSerializeError);
+      expect(error).toMatchObject({
+        code: (expected as ZodSerializeError).code,
+        path: (expected as ZodSerializeError).path,
+        offset: (expected as ZodSerializeError).offset,
+      });
+    }
+  });
+
+  it("refuses to run after the schema changed", async () => {
+    const from = join(directory, "changed.ts");
+    const file = join(directory, "changed.codec.ts");
+    await Bun.write(
+      from,
+      `import z from ${JSON.stringify(zod)};\nexport const testSchema = z.object({ id: z.string() });\n`,
+    );
+    await Bun.write(
+      file,
+      generateCodec(z.object({ id: z.number() }), {
+        from,
+        exportName: "testSchema",
+        runtime,
+      }),
+    );
+    await expect(import(file)).rejects.toMatchObject({
+      code: "SCHEMA_MISMATCH",
+    });
+  });
+});
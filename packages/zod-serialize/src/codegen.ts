@@ -0,0 +1,1293 @@
+import z from "zod";
+import { getAnnotation, type BinaryConstructor } from "./annotations";
+import {
+  encodeNumeric,
+  encodeString,
+  FIXED_CODECS,
+  FixedLayout,
+  getFixedLayout,
+  getOrdinalMembers,
+  isElidedField,
+  isUntagged,
+  layoutFields,
+  NumberType,
+  ObjectTypes,
+  PRESENT_HEADER,
+  schemaFingerprint,
+  Types,
+  type CodecOptions,
+  type IntegerEncoding,
+  type LayoutMode,
+} from "./codec";
+import { ZodSerializeError, type ZodSerializeErrorCode } from "./errors";
+import { RUNTIME_VERSION } from "./runtime";
+import { createWriter, writeUint8, writeVarUint, type Writer } from "./writer";
+
+export type GenerateOptions = Pick<
+  CodecOptions,
+  "integers" | "fingerprint" | "header" | "layout"
+> & {
+  /** the module the generated module imports the schema from */
+  from: string;
+  /** the name the schema is exported with */
+  exportName: string;
+  /** suffix of the generated functions, defaults to the export name without "Schema" (eventsSchema => encodeEvents) */
+  name?: string;
+  /** the module the generated module imports the runtime from, defaults to "zod-serialize/runtime" */
+  runtime?: string;
+  /** how the option of a z.union() is picked, defaults to "first" */
+  unions?: "first" | "strict";
+};
+
+/**
+ * - ids: the generated node of every schema by the integer encoding, also ends recursion of lazy schemas
+ * - functions: the type, encoder and decoder source of every node
+ * - nodes: expressions of the schemas the generated code needs at runtime, e.g. to pick union options
+ */
+type GenerateContext = {
+  ids: Map<z.ZodTypeAny, Map<IntegerEncoding, number>>;
+  functions: Array<string>;
+  nodes: Array<string>;
+  unions: "first" | "strict";
+  layout: LayoutMode;
+};
+
+/**
+ * like `CompiledParts` but as source code
+ * - type: the type of the values the encoder takes, without null and undefined of the wrappers
+ * - encode: statements that encode `input` with `ctx`
+ * - decoders: statements that decode a value with the type tag and return it
+ * - decode: statements that decode a value without type tag
+ * - unwrapped: id of the inner node
+ */
+type GeneratedParts = {
+  type: string;
+  encode: string;
+  decoders?: Partial<Record<Types, string>>;
+  decode?: string;
+  unwrapped?: number;
+};
+
+const indent = (source: string): string =>
+  source
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n");
+
+const block = (head: string, body: string): string =>
+  `${head} {\n${indent(body)}\n}`;
+
+const hex = (value: number): string =>
+  `0x${value.toString(16).padStart(2, "0")}`;
+
+const sourceOf = (value: unknown): string => {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "bigint":
+      return `${value}n`;
+    case "number":
+    case "boolean":
+    case "undefined":
+      return String(value);
+  }
+  if (value === null) {
+    return "null";
+  }
+  throw new ZodSerializeError(
+    "UNSUPPORTED_SCHEMA",
+    `${typeof value} values cannot be generated`,
+  );
+};
+
+const throwSource = (code: ZodSerializeErrorCode, reason: string): string =>
+  `throw new rt.ZodSerializeError(${JSON.stringify(code)}, ${JSON.stringify(reason)});`;
+
+// text inside of a template literal of the generated code
+const templateText = (text: string): string => text.replace(/[`\\$]/g, "\\$&");
+
+const numberHeader = (type: NumberType): string =>
+  hex((Types.Nummeric << 5) | type);
+
+/**
+ * the bytes the runtime encoders write for a value that is known when the code is generated
+ */
+const bytesOf = (write: (writer: Writer) => void): Array<number> => {
+  const writer = createWriter(16);
+  write(writer);
+  return Array.from(writer.bytes.subarray(0, writer.offset));
+};
+
+// statements that write bytes that are known when the code is generated, e.g. headers
+const writeConstant = (bytes: Array<number>): string =>
+  [
+    `rt.reserve(ctx.writer, ${bytes.length});`,
+    ...bytes.map(
+      (byte, index) =>
+        `ctx.writer.view.setUint8(ctx.writer.offset${index > 0 ? ` + ${index}` : ""}, ${hex(byte)});`,
+    ),
+    `ctx.writer.offset += ${bytes.length};`,
+  ].join("\n");
+
+/**
+ * encode a field or an element and add its key or index to the path of errors, like `encodeAt`
+ */
+const encodeAt = (statement: string, segment: string): string =>
+  `${block("try", statement)} ${block(
+    "catch (error)",
+    `throw rt.encodeErrorAt(error, ${segment}, ctx);`,
+  )}`;
+
+/**
+ * decode a field or an element and add its key or index to the path of errors, like `decodeAt`
+ */
+const decodeAt = (statement: string, segment: string): string =>
+  `${block(
+    "try",
+    [ENTER_NESTED, statement, "ctx.depth--;"].join("\n"),
+  )} ${block("catch (error)", `throw rt.decodeErrorAt(error, ${segment}, ctx);`)}`;
+
+const ENTER_NESTED = block(
+  "if (++ctx.depth > ctx.maxDepth)",
+  "throw rt.depthError(ctx);",
+);
+
+const unionHeader = (index: number, count: number): Array<number> =>
+  bytesOf((writer) => {
+    if (count > 32 && index >= 31) {
+      writeUint8(writer, (Types.Union << 5) | 31);
+      writeVarUint(writer, index - 31);
+    } else {
+      writeUint8(writer, (Types.Union << 5) | index);
+    }
+  });
+
+// the accessor of a schema from the root schema, cast to the class whose property is read
+const accessor = (path: string, schemaType: string, property: string) =>
+  `(${path} as ${schemaType})${property}`;
+
+// the schemas the generated code needs at runtime, declared once at the top of the module
+const nodeSource = (source: string, gctx: GenerateContext): string => {
+  gctx.nodes.push(source);
+  return `node${gctx.nodes.length - 1}`;
+};
+
+/**
+ * generate the type, encoder and decoder of a schema once
+ * @param path accessor of the schema from the root schema, e.g. `(root as z.ZodObject<z.ZodRawShape>).shape["players"]`
+ * @returns the id of the generated functions
+ */
+const generateNode = (
+  schema: z.ZodTypeAny,
+  path: string,
+  integers: IntegerEncoding,
+  gctx: GenerateContext,
+): number => {
+  const annotated = getAnnotation(schema)?.integers ?? integers;
+  let ids = gctx.ids.get(schema);
+  if (!ids) {
+    ids = new Map();
+    gctx.ids.set(schema, ids);
+  }
+  const cached = ids.get(annotated);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const id = gctx.functions.length;
+  ids.set(annotated, id);
+  gctx.functions.push("");
+  const parts = generateParts(schema, path, annotated, gctx);
+  gctx.functions[id] = wrapGenerated(schema, id, parts, gctx.layout);
+  return id;
+};
+
+const wrapperType = (schema: z.ZodTypeAny): string => {
+  switch (true) {
+    case schema instanceof z.ZodOptional:
+      return "z.ZodOptional<z.ZodTypeAny>";
+    case schema instanceof z.ZodNullable:
+      return "z.ZodNullable<z.ZodTypeAny>";
+    case schema instanceof z.ZodReadonly:
+      return "z.ZodReadonly<z.ZodTypeAny>";
+  }
+  return "z.ZodBranded<z.ZodTypeAny, PropertyKey>";
+};
+
+const generateParts = (
+  schema: z.ZodTypeAny,
+  path: string,
+  integers: IntegerEncoding,
+  gctx: GenerateContext,
+): GeneratedParts => {
+  const child = (inner: z.ZodTypeAny, schemaType: string, property: string) =>
+    generateNode(inner, accessor(path, schemaType, property), integers, gctx);
+  const unwrapped = (
+    inner: z.ZodTypeAny,
+    schemaType: string,
+    property: string,
+  ): GeneratedParts => {
+    const id = child(inner, schemaType, property);
+    return {
+      type: `Input${id}`,
+      encode: `return encode${id}(input, ctx);`,
+      unwrapped: id,
+    };
+  };
+  // tagged booleans are only the header
+  const numeric = (type: "number" | "bigint" | "boolean", value = "input") =>
+    type === "boolean"
+      ? [
+          "rt.reserve(ctx.writer, 1);",
+          `ctx.writer.view.setUint8(ctx.writer.offset, ${value} ? ${numberHeader(NumberType.BooleanTrue)} : ${numberHeader(NumberType.BooleanFalse)});`,
+          "ctx.writer.offset += 1;",
+        ].join("\n")
+      : `rt.encodeNumeric(${value}, ctx.writer, ${JSON.stringify(integers)});`;
+  const numberDecoder = {
+    [Types.Nummeric]: `return rt.decodeNumber(ctx);`,
+  };
+  const stringDecoder = {
+    [Types.String]: `return rt.decodeString(ctx);`,
+  };
+  const binary = getAnnotation(schema)?.binary;
+  switch (true) {
+    case binary !== undefined:
+      return generateBinary(binary, gctx);
+    case getOrdinalMembers(schema, gctx.layout) !== undefined:
+      return generateOrdinal(getOrdinalMembers(schema, gctx.layout)!, gctx);
+    case schema instanceof z.ZodLiteral: {
+      const { value } = schema;
+      const isNumeric = ["number", "bigint", "boolean"].includes(typeof value);
+      const isString = typeof value === "string";
+      return {
+        type: isNumeric || isString ? sourceOf(value) : "unknown",
+        // validated values are the literal, the bytes are known
+        encode:
+          isNumeric || isString
+            ? writeConstant(
+                bytesOf((writer) =>
+                  isString
+                    ? encodeString(value, writer)
+                    : encodeNumeric(value, writer, integers),
+                ),
+              )
+            : throwSource("UNSUPPORTED_SCHEMA", "unimplemented"),
+        decoders: { ...numberDecoder, ...stringDecoder },
+      };
+    }
+    case schema instanceof z.ZodEnum:
+      return {
+        type: schema.options.map(sourceOf).join(" | "),
+        encode: `rt.encodeString(input, ctx.writer);`,
+        decoders: stringDecoder,
+      };
+    case schema instanceof z.ZodNativeEnum: {
+      const values: Array<string | number> = z.util.getValidEnumValues(
+        schema.enum,
+      );
+      return {
+        type: values.map(sourceOf).join(" | "),
+        encode: [
+          block(
+            'if (typeof input === "string")',
+            `rt.encodeString(input, ctx.writer);\nreturn;`,
+          ),
+          numeric("number"),
+        ].join("\n"),
+        decoders: { ...numberDecoder, ...stringDecoder },
+      };
+    }
+    case schema instanceof z.ZodString:
+      return {
+        type: schema._def.coerce ? "unknown" : "string",
+        encode: `rt.encodeString(${schema._def.coerce ? "String(input)" : "input"}, ctx.writer);`,
+        decoders: stringDecoder,
+      };
+    case (schema instanceof z.ZodNumber ||
+      schema instanceof z.ZodBigInt ||
+      schema instanceof z.ZodBoolean) &&
+      getFixedLayout(schema, gctx.layout) !== undefined:
+      return generateFixed(schema, getFixedLayout(schema, gctx.layout)!);
+    case schema instanceof z.ZodBigInt && schema._def.coerce:
+      return {
+        type: "string | number | bigint | boolean",
+        encode: numeric("bigint", "BigInt(input)"),
+        decoders: numberDecoder,
+      };
+    case schema instanceof z.ZodBigInt:
+      return {
+        type: "bigint",
+        encode: numeric("bigint"),
+        decoders: numberDecoder,
+      };
+    // coerced numbers are written as they are passed in like `encodeNumeric` does
+    case schema instanceof z.ZodNumber && schema._def.coerce:
+      return {
+        type: "unknown",
+        encode: numeric("number", "input as number"),
+        decoders: numberDecoder,
+      };
+    case schema instanceof z.ZodNumber:
+    case schema instanceof z.ZodNaN:
+      return {
+        type: "number",
+        encode: numeric("number"),
+        decoders: numberDecoder,
+      };
+    case schema instanceof z.ZodBoolean:
+      return {
+        type: "boolean",
+        encode: numeric("boolean"),
+        decoders: numberDecoder,
+      };
+    case schema instanceof z.ZodObject:
+      return generateObject(
+        schema,
+        (key) =>
+          accessor(
+            path,
+            "z.ZodObject<z.ZodRawShape>",
+            `.shape[${JSON.stringify(key)}]`,
+          ),
+        integers,
+        gctx,
+      );
+    case schema instanceof z.ZodDate: {
+      const coerce: boolean = schema._def.coerce;
+      return {
+        type: coerce ? "string | number | Date" : "Date",
+        encode: [
+          "rt.reserve(ctx.writer, 9);",
+          `ctx.writer.view.setUint8(ctx.writer.offset, ${hex(Types.Date << 5)});`,
+          `ctx.writer.view.setBigInt64(ctx.writer.offset + 1, BigInt(${coerce ? "new Date(input)" : "input"}.getTime()), true);`,
+          "ctx.writer.offset += 9;",
+        ].join("\n"),
+        decoders: {
+          [Types.Date]:
+            "ctx.offset += 9;\nreturn new Date(Number(ctx.view.getBigInt64(ctx.offset - 8, true)));",
+        },
+      };
+    }
+    case schema instanceof z.ZodArray:
+      return generateList(
+        false,
+        child(schema.element, "z.ZodArray<z.ZodTypeAny>", ".element"),
+        gctx,
+      );
+    case schema instanceof z.ZodSet:
+      return generateList(
+        true,
+        child(schema._def.valueType, "z.ZodSet", "._def.valueType"),
+        gctx,
+      );
+    case schema instanceof z.ZodTuple:
+      return generateTuple(
+        (schema as z.ZodTuple).items.map((item, index) =>
+          child(item, "z.AnyZodTuple", `.items[${index}]`),
+        ),
+        gctx,
+      );
+    case schema instanceof z.ZodDiscriminatedUnion: {
+      const optionSchemas: Array<z.ZodTypeAny> = schema.options;
+      const options = optionSchemas.map((option, index) =>
+        child(
+          option,
+          "z.ZodDiscriminatedUnion<string, Array<z.ZodDiscriminatedUnionOption<string>>>",
+          `.options[${index}]`,
+        ),
+      );
+      const discriminator = JSON.stringify(schema.discriminator);
+      const cases = optionSchemas.map((option, index) => {
+        const values = Array.from(
+          schema.optionsMap as Map<unknown, z.ZodTypeAny>,
+        ).flatMap(([value, mapped]) => (mapped === option ? [value] : []));
+        return `${values.map((value) => `case ${sourceOf(value)}:`).join("\n")}\n${indent(
+          `${writeConstant(unionHeader(index, options.length))}\nreturn encode${options[index]}(input as Input${options[index]}, ctx);`,
+        )}`;
+      });
+      return {
+        type: options.map((id) => `Input${id}`).join(" | "),
+        encode: [
+          block(`switch (input[${discriminator}])`, cases.join("\n")),
+          `throw new rt.ZodSerializeError("INVALID_VALUE", \`invalid union: no option has the discriminator ${templateText(schema.discriminator)} = \${String((input as Record<string, unknown>)[${discriminator}])}\`);`,
+        ].join("\n"),
+        decoders: { [Types.Union]: generateUnionDecoder(options, gctx) },
+      };
+    }
+    case schema instanceof z.ZodUnion: {
+      const options = (schema.options as Array<z.ZodTypeAny>).map(
+        (option, index) =>
+          child(option, "z.ZodUnion<z.ZodUnionOptions>", `.options[${index}]`),
+      );
+      const node = nodeSource(
+        accessor(path, "z.ZodUnion<z.ZodUnionOptions>", ".options"),
+        gctx,
+      );
+      const cases = options.map(
+        (id, index) =>
+          `case ${index}:\n${indent(`${writeConstant(unionHeader(index, options.length))}\nreturn encode${id}(input as Input${id}, ctx);`)}`,
+      );
+      return {
+        type: options.map((id) => `Input${id}`).join(" | "),
+        encode: block(
+          `switch (rt.pickUnionOption(input, ${node}, ${JSON.stringify(gctx.unions)}))`,
+          cases.join("\n"),
+        ),
+        decoders: { [Types.Union]: generateUnionDecoder(options, gctx) },
+      };
+    }
+    case schema instanceof z.ZodRecord:
+      return generateMap(
+        false,
+        child(schema.keySchema, "z.ZodRecord", ".keySchema"),
+        child(schema.valueSchema, "z.ZodRecord", ".valueSchema"),
+        gctx,
+      );
+    case schema instanceof z.ZodMap:
+      return generateMap(
+        true,
+        child(schema.keySchema, "z.ZodMap", ".keySchema"),
+        child(schema.valueSchema, "z.ZodMap", ".valueSchema"),
+        gctx,
+      );
+    case schema instanceof z.ZodIntersection: {
+      const { left, right } = schema._def;
+      const merged =
+        left instanceof z.ZodObject && right instanceof z.ZodObject
+          ? generateObject(
+              left.merge(right),
+              (key) =>
+                accessor(
+                  path,
+                  "z.ZodIntersection<z.ZodObject<z.ZodRawShape>, z.ZodObject<z.ZodRawShape>>",
+                  `._def.${key in right.shape ? "right" : "left"}.shape[${JSON.stringify(key)}]`,
+                ),
+              integers,
+              gctx,
+            )
+          : undefined;
+      return {
+        type: ["string | number | bigint | boolean", merged && merged.type]
+          .filter(Boolean)
+          .join(" | "),
+        encode: [
+          block(
+            "switch (typeof input)",
+            [
+              `case "number":\n${indent(`${numeric("number")}\nreturn;`)}`,
+              `case "bigint":\n${indent(`${numeric("bigint")}\nreturn;`)}`,
+              `case "boolean":\n${indent(`${numeric("boolean")}\nreturn;`)}`,
+              `case "string":\n${indent(`rt.encodeString(input, ctx.writer);\nreturn;`)}`,
+            ].join("\n"),
+          ),
+          merged &&
+            block(
+              'if (typeof input === "object")',
+              `${merged.encode}\nreturn;`,
+            ),
+          'throw new rt.ZodSerializeError("UNSUPPORTED_SCHEMA", `intersections of ${typeof input} values are not supported`);',
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        decoders: {
+          ...stringDecoder,
+          ...numberDecoder,
+          ...merged?.decoders,
+        },
+      };
+    }
+    case schema instanceof z.ZodOptional:
+    case schema instanceof z.ZodNullable:
+    case schema instanceof z.ZodReadonly:
+    case schema instanceof z.ZodBranded:
+      return unwrapped(schema.unwrap(), wrapperType(schema), ".unwrap()");
+    case schema instanceof z.ZodLazy:
+      return unwrapped(schema.schema, "z.ZodLazy<z.ZodTypeAny>", ".schema");
+    case schema instanceof z.ZodDefault:
+      return unwrapped(
+        schema.removeDefault(),
+        "z.ZodDefault<z.ZodTypeAny>",
+        ".removeDefault()",
+      );
+    case schema instanceof z.ZodPipeline:
+      return unwrapped(
+        schema._def.in,
+        "z.ZodPipeline<z.ZodTypeAny, z.ZodTypeAny>",
+        "._def.in",
+      );
+    case schema instanceof z.ZodCatch: {
+      const node = nodeSource(`${path} as z.ZodCatch<z.ZodTypeAny>`, gctx);
+      const inner = child(
+        schema.removeCatch(),
+        "z.ZodCatch<z.ZodTypeAny>",
+        ".removeCatch()",
+      );
+      return {
+        type: "unknown",
+        encode: [
+          `const result = ${node}.removeCatch().safeParse(input);`,
+          block(
+            "if (result.success)",
+            `return encode${inner}(input as Input${inner}, ctx);`,
+          ),
+          `return encode${inner}(${node}._def.catchValue({ error: result.error, input }), { ...ctx, parsed: true });`,
+        ].join("\n"),
+        unwrapped: inner,
+      };
+    }
+    case schema instanceof z.ZodEffects: {
+      const inner = child(
+        schema.innerType(),
+        "z.ZodEffects<z.ZodTypeAny>",
+        ".innerType()",
+      );
+      const { effect } = schema._def;
+      if (effect.type === "preprocess") {
+        const node = nodeSource(
+          `${accessor(path, "z.ZodEffects<z.ZodTypeAny>", "._def.effect")} as z.PreprocessEffect<unknown>`,
+          gctx,
+        );
+        return {
+          type: "unknown",
+          encode: `return encode${inner}(${node}.transform(input, { addIssue: () => {}, path: [] }), ctx);`,
+          unwrapped: inner,
+        };
+      }
+      return {
+        type: `Input${inner}`,
+        encode: [
+          effect.type === "transform" &&
+            block(
+              "if (ctx.parsed)",
+              throwSource(
+                "UNSUPPORTED_SCHEMA",
+                "cannot encode transformed value. value was transformed because it is nested inside an .catch() and the catch was triggered",
+              ),
+            ),
+          `return encode${inner}(input, ctx);`,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        unwrapped: inner,
+      };
+    }
+  }
+  return {
+    type: "unknown",
+    encode: throwSource("UNSUPPORTED_SCHEMA", "unimplemented"),
+  };
+};
+
+const generateBinary = (
+  type: BinaryConstructor,
+  gctx: GenerateContext,
+): GeneratedParts => {
+  const isBuffer = !("BYTES_PER_ELEMENT" in type);
+  const elementLength = isBuffer ? 1 : type.BYTES_PER_ELEMENT;
+  const copy = isBuffer
+    ? "return ctx.bytes.slice(start, start + length).buffer;"
+    : `return new ${type.name}(ctx.bytes.slice(start, start + length).buffer);`;
+  return {
+    type: type.name,
+    encode: [
+      `const bytes = ${isBuffer ? "new Uint8Array(input)" : "new Uint8Array(input.buffer, input.byteOffset, input.byteLength)"};`,
+      "rt.encodeArrayHeader(bytes.byteLength, ctx.writer, rt.Types.Binary);",
+      "rt.reserve(ctx.writer, bytes.byteLength);",
+      "ctx.writer.bytes.set(bytes, ctx.writer.offset);",
+      "ctx.writer.offset += bytes.byteLength;",
+    ].join("\n"),
+    decoders: {
+      [Types.Binary]: [
+        `const length = rt.decodeArrayHeader(ctx);`,
+        block(
+          "if (ctx.offset + length > ctx.bytes.byteLength)",
+          "throw rt.endOfInputError(ctx);",
+        ),
+        "const start = ctx.offset;",
+        elementLength > 1 &&
+          block(
+            `if (length % ${elementLength} !== 0)`,
+            `throw new rt.ZodSerializeError("INVALID_VALUE", \`\${length} bytes are not a multiple of the ${elementLength} byte elements\`, { offset: ctx.offset });`,
+          ),
+        "ctx.offset += length;",
+        // typed arrays can only view memory that is aligned to their element size
+        !isBuffer &&
+          block(
+            elementLength > 1
+              ? `if (ctx.zeroCopy && (ctx.bytes.byteOffset + start) % ${elementLength} === 0)`
+              : "if (ctx.zeroCopy)",
+            `return new ${type.name}(ctx.bytes.buffer, ctx.bytes.byteOffset + start, length${elementLength > 1 ? ` / ${elementLength}` : ""});`,
+          ),
+        copy,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    },
+  };
+};
+
+const generateFixed = (
+  schema: z.ZodNumber | z.ZodBigInt | z.ZodBoolean,
+  layout: FixedLayout,
+): GeneratedParts => {
+  const { length, accessor } = FIXED_CODECS[layout];
+  const coerce: boolean = schema._def.coerce;
+  const isBigInt = schema instanceof z.ZodBigInt;
+  const wide = layout === FixedLayout.u64 || layout === FixedLayout.i64;
+  // single bytes have no byte order
+  const littleEndian = length > 1 ? ", true" : "";
+  const written =
+    schema instanceof z.ZodBoolean
+      ? "input ? 1 : 0"
+      : isBigInt && !wide
+        ? "Number(input)"
+        : isBigInt
+          ? coerce
+            ? "BigInt(input)"
+            : "input"
+          : coerce
+            ? "Number(input)"
+            : "input";
+  const read =
+    schema instanceof z.ZodBoolean
+      ? "value !== 0"
+      : isBigInt && !wide
+        ? "BigInt(value)"
+        : "value";
+  return {
+    type:
+      schema instanceof z.ZodBoolean
+        ? coerce
+          ? "unknown"
+          : "boolean"
+        : isBigInt
+          ? coerce
+            ? "string | number | bigint | boolean"
+            : "bigint"
+          : coerce
+            ? "unknown"
+            : "number",
+    encode: [
+      `rt.reserve(ctx.writer, ${length});`,
+      `ctx.writer.view.set${accessor}(ctx.writer.offset, ${written}${littleEndian});`,
+      `ctx.writer.offset += ${length};`,
+    ].join("\n"),
+    decode: [
+      `const value = ctx.view.get${accessor}(ctx.offset${littleEndian});`,
+      `ctx.offset += ${length};`,
+      `return ${read};`,
+    ].join("\n"),
+  };
+};
+
+const generateOrdinal = (
+  members: ReadonlyArray<string | number>,
+  gctx: GenerateContext,
+): GeneratedParts => ({
+  type: members.map(sourceOf).join(" | "),
+  encode: [
+    block(
+      "switch (input)",
+      members
+        .map(
+          (member, index) =>
+            `case ${sourceOf(member)}:\n${indent(
+              `${writeConstant(bytesOf((writer) => writeVarUint(writer, index)))}\nreturn;`,
+            )}`,
+        )
+        .join("\n"),
+    ),
+    throwSource("INVALID_VALUE", "value is not a member of the enum"),
+  ].join("\n"),
+  decode: [
+    `const ordinal = rt.decodeVarUint(ctx);`,
+    block(
+      "switch (ordinal)",
+      members
+        .map((member, index) => `case ${index}:\n  return ${sourceOf(member)};`)
+        .join("\n"),
+    ),
+    `throw new rt.ZodSerializeError("INVALID_VALUE", \`enum ordinal \${ordinal} is out of range, the enum has ${members.length} members\`, { offset: ctx.offset - rt.varUintLength(ordinal) });`,
+  ].join("\n"),
+});
+
+const ABSENT_HEADER =
+  (Types.Object << 5) | (ObjectTypes.UndefinedOptional << 2);
+
+// bit `index` of the bitmap of an object, see `writeBitmap`
+const bitSource = (bitmap: string, index: number): string =>
+  `${bitmap}[bitmap${index >> 3 ? ` + ${index >> 3}` : ""}]`;
+
+const bitMask = (index: number): string => hex(1 << (index & 7));
+
+const generateObject = (
+  schema: z.AnyZodObject,
+  fieldPath: (key: string) => string,
+  integers: IntegerEncoding,
+  gctx: GenerateContext,
+): GeneratedParts => {
+  const layout = layoutFields(
+    Object.entries(schema.shape as z.ZodRawShape).map(([key, field]) => ({
+      key,
+      schema: field,
+    })),
+    gctx.layout,
+  );
+  const fields = layout.fields.map(
+    ({ key, schema: field, optional, nullable, state, packed }) => ({
+      key: JSON.stringify(key),
+      optional,
+      nullable,
+      state,
+      packed,
+      // elided fields are not written, the decoder sets their value from the schema
+      elided: isElidedField(field, gctx.layout)
+        ? sourceOf(field.value)
+        : undefined,
+      id:
+        isElidedField(field, gctx.layout) || packed !== undefined
+          ? undefined
+          : generateNode(field, fieldPath(key), integers, gctx),
+    }),
+  );
+  const bitmapLength = Math.ceil(layout.bits / 8);
+  const type = fields.length
+    ? `{ ${fields
+        .map(
+          ({ key, optional, nullable, packed, elided, id }) =>
+            `${key}${optional ? "?" : ""}: ${
+              elided ??
+              (packed !== undefined
+                ? ["boolean", nullable && "null", optional && "undefined"]
+                    .filter(Boolean)
+                    .join(" | ")
+                : `Input${id}`)
+            };`,
+        )
+        .join(" ")} }`
+    : "{}";
+  const setBit = (index: number) =>
+    `${bitSource("ctx.writer.bytes", index)} |= ${bitMask(index)};`;
+  const encode =
+    schema._def.unknownKeys === "passthrough"
+      ? throwSource(
+          "UNSUPPORTED_SCHEMA",
+          "unknown keys can not be encoded. Passthrough not supported",
+        )
+      : [
+          `rt.reserve(ctx.writer, ${1 + bitmapLength});`,
+          `ctx.writer.view.setUint8(ctx.writer.offset, ${hex(Types.Object << 5)});`,
+          ...(bitmapLength > 0
+            ? [
+                "const bitmap = ctx.writer.offset + 1;",
+                `ctx.writer.bytes.fill(0, bitmap, bitmap + ${bitmapLength});`,
+              ]
+            : []),
+          `ctx.writer.offset += ${1 + bitmapLength};`,
+          ...fields.flatMap(
+            ({ key, optional, nullable, state, packed, elided, id }) => {
+              if (elided !== undefined) {
+                return [];
+              }
+              const encodeField =
+                packed !== undefined
+                  ? block(`if (input[${key}])`, setBit(packed))
+                  : encodeAt(
+                      `${state === undefined ? "encode" : "encodeValue"}${id}(input[${key}], ctx);`,
+                      key,
+                    );
+              if (state === undefined) {
+                // objects of the tagged layout have no bitmap, absent fields are only their header
+                return optional
+                  ? `${block(
+                      `if (!(${key} in input))`,
+                      writeConstant([ABSENT_HEADER]),
+                    )} else {\n${indent(encodeField)}\n}`
+                  : encodeField;
+              }
+              // the 2 bits of the field have its `ObjectTypes`
+              const setState = (type: ObjectTypes) =>
+                [type & 0b01 && setBit(state), type & 0b10 && setBit(state + 1)]
+                  .filter(Boolean)
+                  .join("\n");
+              return [
+                optional && [
+                  `if (!(${key} in input))`,
+                  setState(ObjectTypes.UndefinedOptional),
+                ],
+                nullable && [
+                  `if (input[${key}] === null)`,
+                  setState(ObjectTypes.Null),
+                ],
+                optional && [
+                  `if (input[${key}] === undefined)`,
+                  setState(ObjectTypes.Undefined),
+                ],
+              ]
+                .filter((branch): branch is [string, string] => !!branch)
+                .map(([head, body]) => block(head, body))
+                .join(" else ")
+                .concat(` else {\n${indent(encodeField)}\n}`);
+            },
+          ),
+        ]
+          .filter(Boolean)
+          .join("\n");
+  const hasBit = (index: number) =>
+    `(${bitSource("ctx.bytes", index)} & ${bitMask(index)}) !== 0`;
+  // both bits are in the same byte unless the first one is the last bit of a byte
+  const fieldState = (index: number) =>
+    (index & 7) === 7
+      ? `(${hasBit(index)} ? 0b01 : 0) | (${hasBit(index + 1)} ? 0b10 : 0)`
+      : `(${bitSource("ctx.bytes", index)} >> ${index & 7}) & 0b11`;
+  const decode = [
+    "ctx.offset += 1;",
+    bitmapLength > 0 &&
+      block(
+        `if (ctx.offset + ${bitmapLength} > ctx.bytes.byteLength)`,
+        "throw rt.endOfInputError(ctx);",
+      ),
+    bitmapLength > 0 && "const bitmap = ctx.offset;",
+    bitmapLength > 0 && `ctx.offset += ${bitmapLength};`,
+    "const value: Record<string, unknown> = {};",
+    ...fields.map(({ key, optional, nullable, state, packed, elided, id }) => {
+      if (elided !== undefined) {
+        return `value[${key}] = ${elided};`;
+      }
+      const decodeField =
+        packed !== undefined
+          ? `value[${key}] = ${hasBit(packed)};`
+          : decodeAt(
+              `value[${key}] = ${state === undefined ? "decode" : "decodeValue"}${id}(ctx);`,
+              key,
+            );
+      if (state === undefined) {
+        return optional
+          ? `${block(
+              `if ((ctx.view.getUint8(ctx.offset) & 0b1100) === ${hex(ObjectTypes.UndefinedOptional << 2)})`,
+              "ctx.offset += 1;",
+            )} else {\n${indent(decodeField)}\n}`
+          : decodeField;
+      }
+      const notAllowed = (type: ObjectTypes) =>
+        `case ${type}:\n  throw new rt.ZodSerializeError("INVALID_VALUE", "field state ${type} is not allowed by the schema", { offset: bitmap${state >> 3 ? ` + ${state >> 3}` : ""}, path: [${key}] });`;
+      return block(
+        `switch (${fieldState(state)})`,
+        [
+          optional
+            ? `case ${ObjectTypes.UndefinedOptional}:\n  break;`
+            : notAllowed(ObjectTypes.UndefinedOptional),
+          nullable
+            ? `case ${ObjectTypes.Null}:\n  value[${key}] = null;\n  break;`
+            : notAllowed(ObjectTypes.Null),
+          optional
+            ? `case ${ObjectTypes.Undefined}:\n  value[${key}] = undefined;\n  break;`
+            : notAllowed(ObjectTypes.Undefined),
+          `default:\n${indent(decodeField)}`,
+        ].join("\n"),
+      );
+    }),
+    "return value;",
+  ]
+    .filter(Boolean)
+    .join("\n");
+  return { type, encode, decoders: { [Types.Object]: decode } };
+};
+
+const generateList = (
+  isSet: boolean,
+  element: number,
+  gctx: GenerateContext,
+): GeneratedParts => {
+  const writeHeader = (length: string) =>
+    `rt.encodeArrayHeader(${length}, ctx.writer);`;
+  const encode = isSet
+    ? [
+        block(
+          "if (!(input instanceof Set))",
+          throwSource("UNSUPPORTED_SCHEMA", "unreachable"),
+        ),
+        writeHeader("input.size"),
+        "let index = 0;",
+        block(
+          "for (const element of input)",
+          `${encodeAt(`encode${element}(element, ctx);`, "index")}\nindex++;`,
+        ),
+      ]
+    : [
+        block(
+          "if (input instanceof Set)",
+          throwSource("INVALID_VALUE", SET_MISMATCH),
+        ),
+        writeHeader("input.length"),
+        block(
+          "for (let index = 0; index < input.length; index++)",
+          encodeAt(`encode${element}(input[index], ctx);`, "index"),
+        ),
+      ];
+  const decode = [
+    `const length = rt.decodeArrayHeader(ctx);`,
+    `rt.checkCollectionLength(length, 1, ctx);`,
+    "const value: Array<unknown> = Array.from({ length });",
+    block(
+      "for (let index = 0; index < length; index++)",
+      decodeAt(`value[index] = decode${element}(ctx);`, "index"),
+    ),
+    isSet ? "return new Set(value);" : "return value;",
+  ];
+  return {
+    type: `${isSet ? "ReadonlySet" : "ReadonlyArray"}<Input${element}>`,
+    encode: encode.join("\n"),
+    decoders: { [Types.Array]: decode.join("\n") },
+  };
+};
+
+const SET_MISMATCH =
+  "set schema was given but no set to parse or set was given and no set schema";
+
+const generateTuple = (
+  items: Array<number>,
+  gctx: GenerateContext,
+): GeneratedParts => ({
+  type: `readonly [${items.map((id) => `Input${id}`).join(", ")}]`,
+  encode: [
+    block(
+      "if (input instanceof Set)",
+      throwSource("INVALID_VALUE", SET_MISMATCH),
+    ),
+    "rt.encodeArrayHeader(input.length, ctx.writer);",
+    ...items.map((id, index) =>
+      encodeAt(`encode${id}(input[${index}], ctx);`, String(index)),
+    ),
+  ].join("\n"),
+  decoders: {
+    [Types.Array]: [
+      `const length = rt.decodeArrayHeader(ctx);`,
+      `rt.checkCollectionLength(length, 1, ctx);`,
+      block(
+        `if (length !== ${items.length})`,
+        `throw new rt.ZodSerializeError("INVALID_VALUE", \`tuple of \${length} elements where ${items.length} are expected\`, { offset: ctx.offset });`,
+      ),
+      "const value: Array<unknown> = Array.from({ length });",
+      ...items.map((id, index) =>
+        decodeAt(`value[${index}] = decode${id}(ctx);`, String(index)),
+      ),
+      "return value;",
+    ].join("\n"),
+  },
+});
+
+const generateUnionDecoder = (
+  options: Array<number>,
+  gctx: GenerateContext,
+): string =>
+  [
+    "let index = ctx.view.getUint8(ctx.offset) & 0x1f;",
+    "ctx.offset++;",
+    options.length > 32 &&
+      block("if (index === 31)", `index += rt.decodeVarUint(ctx);`),
+    block(
+      `if (index >= ${options.length})`,
+      'throw new rt.ZodSerializeError("INVALID_VALUE", `union option ${index} does not exist`, { offset: ctx.offset - 1 });',
+    ),
+    ENTER_NESTED,
+    "let value: unknown;",
+    block(
+      "switch (index)",
+      options
+        .map(
+          (id, index) =>
+            `case ${index}:\n${indent(`value = decode${id}(ctx);\nbreak;`)}`,
+        )
+        .join("\n"),
+    ),
+    "ctx.depth--;",
+    "return value;",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const generateMap = (
+  isMap: boolean,
+  key: number,
+  value: number,
+  gctx: GenerateContext,
+): GeneratedParts => {
+  const writeHeader = (length: string) =>
+    `rt.encodeMapHeader(${isMap ? '"map"' : '"object"'}, ${length}, ctx.writer);`;
+  return {
+    type: isMap
+      ? `ReadonlyMap<Input${key}, Input${value}>`
+      : `{ readonly [key: string]: Input${value} }`,
+    encode: (isMap
+      ? [
+          writeHeader("input.size"),
+          "let index = 0;",
+          block(
+            "for (const [key, value] of input)",
+            [
+              'const segment = typeof key === "string" || typeof key === "number" ? key : index;',
+              encodeAt(`encode${key}(key, ctx);`, "segment"),
+              encodeAt(`encode${value}(value, ctx);`, "segment"),
+              "index++;",
+            ].join("\n"),
+          ),
+        ]
+      : [
+          "const entries = Object.entries(input);",
+          writeHeader("entries.length"),
+          block(
+            "for (const [key, value] of entries)",
+            [
+              // the keys of records are strings, the key schema may narrow them
+              encodeAt(`encode${key}(key as Input${key}, ctx);`, "key"),
+              encodeAt(`encode${value}(value, ctx);`, "key"),
+            ].join("\n"),
+          ),
+        ]
+    ).join("\n"),
+    decoders: {
+      [Types.Map]: [
+        `const { length, isMap } = rt.decodeMapHeader(ctx);`,
+        `rt.checkCollectionLength(length, 2, ctx);`,
+        "const entries: Array<[unknown, unknown]> = [];",
+        block(
+          "for (let index = 0; index < length; index++)",
+          [
+            "let key: unknown;",
+            decodeAt(`key = decode${key}(ctx);`, "index"),
+            'const segment = typeof key === "string" || typeof key === "number" ? key : index;',
+            decodeAt(`entries.push([key, decode${value}(ctx)]);`, "segment"),
+          ].join("\n"),
+        ),
+        block("if (isMap)", "return new Map(entries);"),
+        "const record: Record<string, unknown> = Object.create(null);",
+        block(
+          "for (const [key, value] of entries)",
+          "record[key as string] = value;",
+        ),
+        "return record;",
+      ].join("\n"),
+    },
+  };
+};
+
+/**
+ * add the type and the handling of null, undefined and the type tag around the generated parts, like `wrapParts`
+ */
+const wrapGenerated = (
+  schema: z.ZodTypeAny,
+  id: number,
+  parts: GeneratedParts,
+  layout: LayoutMode,
+): string => {
+  const functions = (encode: string, decode: string) =>
+    [
+      block(
+        `const encode${id} = (input: Input${id}, ctx: rt.EncodeContext): void =>`,
+        encode,
+      ) + ";",
+      block(`const decode${id} = (ctx: rt.DecodeContext): unknown =>`, decode) +
+        ";",
+    ].join("\n");
+  if (parts.decode !== undefined) {
+    return [
+      `type Input${id} = ${parts.type};`,
+      functions(parts.encode, parts.decode),
+    ].join("\n");
+  }
+  const nullable = schema.isNullable();
+  const optional = schema.isOptional();
+  const present = (nullable || optional) && isUntagged(schema, layout);
+  const decoders = Object.entries(parts.decoders ?? {});
+  const type = `type Input${id} = ${[
+    parts.type,
+    nullable && "null",
+    optional && "undefined",
+  ]
+    .filter(Boolean)
+    .join(" | ")};`;
+  // wrappers that don't add anything to the inner schema
+  if (
+    !nullable &&
+    !optional &&
+    decoders.length === 0 &&
+    parts.unwrapped !== undefined
+  ) {
+    return [
+      type,
+      functions(
+        [
+          block(
+            "if (input === undefined || input === null)",
+            throwSource("INVALID_VALUE", NULLISH_VALUE),
+          ),
+          parts.encode,
+        ].join("\n"),
+        `return decode${parts.unwrapped}(ctx);`,
+      ),
+    ].join("\n");
+  }
+  const encodeValue = [
+    block(
+      "if (input === undefined || input === null)",
+      throwSource("INVALID_VALUE", NULLISH_VALUE),
+    ),
+    parts.encode,
+  ];
+  const decodeValue = present
+    ? [`return decode${parts.unwrapped}(ctx);`]
+    : [
+        (decoders.length > 0 || parts.unwrapped === undefined) &&
+          "const typeTag = ctx.view.getUint8(ctx.offset) >> 5;",
+        ...decoders.map(([tag, decoder]) =>
+          block(`if (typeTag === ${tag})`, decoder),
+        ),
+        parts.unwrapped !== undefined
+          ? `return decode${parts.unwrapped}(ctx);`
+          : 'throw new rt.ZodSerializeError("INVALID_VALUE", `unexpected type tag ${typeTag}`, { offset: ctx.offset });',
+      ];
+  if (!nullable && !optional) {
+    return [
+      type,
+      functions(encodeValue.join("\n"), decodeValue.filter(Boolean).join("\n")),
+    ].join("\n");
+  }
+  // the value without null and undefined, fields that allow them write those in the bitmap of the object
+  const valueFunctions = [
+    block(
+      `const encodeValue${id} = (input: Input${id}, ctx: rt.EncodeContext): void =>`,
+      encodeValue.join("\n"),
+    ) + ";",
+    block(
+      `const decodeValue${id} = (ctx: rt.DecodeContext): unknown =>`,
+      decodeValue.filter(Boolean).join("\n"),
+    ) + ";",
+  ];
+  const encode = [
+    nullable &&
+      block(
+        "if (input === null)",
+        `${writeConstant([(Types.Object << 5) | (ObjectTypes.Null << 2)])}\nreturn;`,
+      ),
+    optional &&
+      block(
+        "if (input === undefined)",
+        `${writeConstant([(Types.Object << 5) | (ObjectTypes.Undefined << 2)])}\nreturn;`,
+      ),
+    present && writeConstant([PRESENT_HEADER]),
+    `encodeValue${id}(input, ctx);`,
+  ];
+  const nullish = [
+    "const objectType = (headerByte & 0b1100) >> 2;",
+    nullable &&
+      block(
+        `if (objectType === ${ObjectTypes.Null})`,
+        "ctx.offset++;\nreturn null;",
+      ),
+    optional &&
+      block(
+        `if (objectType === ${ObjectTypes.Undefined})`,
+        "ctx.offset++;\nreturn undefined;",
+      ),
+    present &&
+      block(
+        `if (objectType === ${ObjectTypes.Object})`,
+        `ctx.offset++;\nreturn decode${parts.unwrapped}(ctx);`,
+      ),
+  ];
+  const decode = [
+    "const headerByte = ctx.view.getUint8(ctx.offset);",
+    block(
+      `if (headerByte >> 5 === ${Types.Object})`,
+      nullish.filter(Boolean).join("\n"),
+    ),
+    `return decodeValue${id}(ctx);`,
+  ];
+  return [
+    type,
+    ...valueFunctions,
+    functions(
+      encode.filter(Boolean).join("\n"),
+      decode.filter(Boolean).join("\n"),
+    ),
+  ].join("\n");
+};
+
+const NULLISH_VALUE =
+  "undefined or null value with non nullish schema cannot be encoded";
+
+/**
+ * eventsSchema => Events
+ */
+const generatedName = (exportName: string): string => {
+  const name = exportName.replace(/Schema$/, "") || exportName;
+  return name[0].toUpperCase() + name.slice(1);
+};
+
+/**
+ * generate a TypeScript module with an encoder and a decoder that are specialized for the schema
+ * the generated functions write the same bytes as `encode` and read them like `decode`,
+ * but they don't look at the schema while they run (except for picking union options, catch and preprocess)
+ * ```ts
+ *   const source = generateCodec(eventsSchema, { from: "./shared", exportName: "eventsSchema" });
+ *   await Bun.write("events.codec.ts", source);
+ *   // events.codec.ts exports eventsCodec, encodeEvents and decodeEvents
+ * ```
+ * the generated module imports the schema to validate values like `encode` and `decode` do,
+ * it throws SCHEMA_MISMATCH when it is loaded with a schema that changed since it was generated
+ * and PROTOCOL_VERSION when it is loaded with another version of the runtime ("zod-serialize/runtime").
+ * there is a script for it: `bun run generate <schema module> <export name> <output file>`
+ * @param schema the exported zod schema
+ * @param options where the schema is imported from and the encoding options
+ * @returns the source of the module
+ */
+export const generateCodec = (
+  schema: z.ZodTypeAny,
+  options: GenerateOptions,
+): string => {
+  const {
+    from,
+    exportName,
+    runtime = "zod-serialize/runtime",
+    integers = "fixed",
+    unions = "first",
+    header = "full",
+    fingerprint = "strict",
+    layout = "tagged",
+  } = options;
+  const name = options.name ?? generatedName(exportName);
+  const codecName = `${name[0].toLowerCase()}${name.slice(1)}Codec`;
+  const gctx: GenerateContext = {
+    ids: new Map(),
+    functions: [],
+    nodes: [],
+    unions,
+    layout,
+  };
+  const root = generateNode(schema, "root", integers, gctx);
+  const hasNodes = gctx.nodes.length > 0;
+  return [
+    `// generated by zod-serialize from ${exportName}, do not edit`,
+    "// generate it again after changing the schema or updating zod-serialize",
+    hasNodes && 'import type z from "zod";',
+    `import * as rt from ${JSON.stringify(runtime)};`,
+    `import { ${exportName} as schema } from ${JSON.stringify(from)};`,
+    "",
+    hasNodes && "const root: z.ZodTypeAny = schema;",
+    ...gctx.nodes.map((source, index) => `const node${index} = ${source};`),
+    ...gctx.functions,
+    "",
+    `export const ${codecName} = rt.createGeneratedCodec(`,
+    `  ${RUNTIME_VERSION},`,
+    "  schema,",
+    `  { encode: encode${root}, decode: decode${root} },`,
+    `  { header: ${JSON.stringify(header)}, fingerprint: ${JSON.stringify(fingerprint)}, layout: ${JSON.stringify(layout)} },`,
+    `  0x${schemaFingerprint(schema, fingerprint, layout).toString(16)}n,`,
+    ");",
+    `export const encode${name} = ${codecName}.encode;`,
+    `export const decode${name} = ${codecName}.decode;`,
+    "",
+  ]
+    .filter((line) => line !== false)
+    .join("\n");
+};
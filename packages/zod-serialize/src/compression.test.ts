@@ -0,0 +1,168 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import {
+  createCodec,
+  decode,
+  decodeCompressed,
+  decodeHeader,
+  encode,
+  encodeCompressed,
+  inspect,
+} from ".";
+
+const welcomeSchema = z.object({
+  tick: z.number(),
+  players: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      x: z.number(),
+      y: z.number(),
+      alive: z.boolean(),
+    }),
+  ),
+});
+const welcome = {
+  tick: 1,
+  players: Array.from({ length: 300 }, (_, id) => ({
+    id,
+    name: `player ${id}`,
+    x: id % 20,
+    y: Math.floor(id / 20),
+    alive: id % 7 !== 0,
+  })),
+};
+const small = { tick: 1, players: welcome.players.slice(0, 2) };
+
+describe("compression", () => {
+  const codec = createCodec(welcomeSchema, { compression: {} });
+
+  it("compresses values from the threshold on", () => {
+    const compressed = codec.encode(welcome);
+    expect(compressed.byteLength).toBeLessThan(
+      encode(welcomeSchema, welcome).byteLength / 2,
+    );
+    expect(decodeHeader(compressed).compressed).toBe(true);
+    expect(codec.decode(compressed)).toEqual(welcome);
+    expect(codec.encodedSize(welcome)).toBe(compressed.byteLength);
+  });
+
+  it("writes smaller values uncompressed", () => {
+    const buffer = codec.encode(small);
+    expect(new Uint8Array(buffer)).toEqual(
+      new Uint8Array(encode(welcomeSchema, small)),
+    );
+    expect(decodeHeader(buffer).compressed).toBe(false);
+    expect(
+      createCodec(welcomeSchema, {
+        compression: { threshold: 8 },
+      }).encode(small).byteLength,
+    ).not.toBe(buffer.byteLength);
+  });
+
+  it("decodes compressed values with any codec of the schema", () => {
+    expect(decode(welcomeSchema, codec.encode(welcome))).toEqual(welcome);
+    const gzip = createCodec(welcomeSchema, {
+      compression: { format: "gzip" },
+    });
+    expect(decode(welcomeSchema, gzip.encode(welcome))).toEqual(welcome);
+  });
+
+  it("compresses and decompresses with the streams", async () => {
+    for (const format of ["deflate-raw", "gzip"] as const) {
+      const buffer = await encodeCompressed(welcomeSchema, welcome, {
+        format,
+      });
+      expect(decodeHeader(buffer).compressed).toBe(true);
+      expect(await decodeCompressed(welcomeSchema, buffer)).toEqual(welcome);
+      expect(decode(welcomeSchema, buffer)).toEqual(welcome);
+    }
+    expect(
+      await decodeCompressed(welcomeSchema, codec.encode(welcome)),
+    ).toEqual(welcome);
+    expect(
+      await decodeCompressed(welcomeSchema, encode(welcomeSchema, small)),
+    ).toEqual(small);
+  });
+
+  it("reports the length of compressed values packed back to back", () => {
+    const first = new Uint8Array(codec.encode(welcome));
+    const packed = new Uint8Array([...first, ...first]);
+    const { value, bytesRead } = codec.decodeWithLength(packed, first.length);
+    expect(value).toEqual(welcome);
+    expect(bytesRead).toBe(first.length);
+  });
+
+  it("needs a header", async () => {
+    expect(() =>
+      createCodec(welcomeSchema, { header: "none", compression: {} }),
+    ).toThrow(expect.objectContaining({ code: "INVALID_VALUE" }));
+    await expect(
+      createCodec(welcomeSchema, { header: "none" }).encodeCompressed(welcome),
+    ).rejects.toThrow(/can't be compressed/);
+  });
+
+  it("checks maxBytes against the decompressed length", async () => {
+    const buffer = codec.encode(welcome);
+    const limit = { maxBytes: buffer.byteLength + 100 };
+    expect(() => codec.decode(buffer, limit)).toThrow(
+      expect.objectContaining({ code: "LIMIT_EXCEEDED" }),
+    );
+    await expect(codec.decodeCompressed(buffer, limit)).rejects.toThrow(
+      expect.objectContaining({ code: "LIMIT_EXCEEDED" }),
+    );
+  });
+
+  it("limits the decompressed length by default", async () => {
+    const buffer = new Uint8Array(codec.encode(welcome));
+    // the varint of the decompressed length follows the header and the format
+    let end = 10;
+    while (buffer[end] & 0x80) {
+      end++;
+    }
+    // claims 1 GiB
+    const bomb = new Uint8Array([
+      ...buffer.subarray(0, 10),
+      0x80,
+      0x80,
+      0x80,
+      0x80,
+      0x04,
+      ...buffer.subarray(end + 1),
+    ]);
+    expect(() => codec.decode(bomb)).toThrow(/maxDecompressedBytes/);
+    await expect(codec.decodeCompressed(bomb)).rejects.toThrow(
+      expect.objectContaining({ code: "LIMIT_EXCEEDED" }),
+    );
+    expect(() => codec.decode(buffer, { maxDecompressedBytes: 1000 })).toThrow(
+      expect.objectContaining({ code: "LIMIT_EXCEEDED" }),
+    );
+    expect(codec.decode(buffer)).toEqual(welcome);
+  });
+
+  it("rejects broken compressed bodies", async () => {
+    const buffer = new Uint8Array(codec.encode(welcome));
+    buffer.fill(0xff, 20, 40);
+    expect(() => codec.decode(buffer)).toThrow(
+      expect.objectContaining({ code: "INVALID_VALUE" }),
+    );
+    await expect(codec.decodeCompressed(buffer)).rejects.toThrow(
+      expect.objectContaining({ code: "INVALID_VALUE" }),
+    );
+    const unknownFormat = new Uint8Array(codec.encode(welcome));
+    unknownFormat[9] = 7;
+    expect(() => codec.decode(unknownFormat)).toThrow(
+      /unknown compression format 7/,
+    );
+  });
+
+  it("inspects the compressed body as one node", () => {
+    const [header, body] = inspect(codec.encode(welcome)).children!;
+    expect(header.value).toMatchObject({ compressed: true });
+    expect(body).toMatchObject({
+      kind: "compressed",
+      value: "deflate-raw",
+      length: encode(welcomeSchema, welcome).byteLength - 9,
+    });
+  });
+});
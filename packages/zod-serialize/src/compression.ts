@@ -0,0 +1,126 @@
+import { ZodSerializeError } from "./errors";
+import { toBytes } from "./writer";
+
+export type CompressionFormat = "deflate-raw" | "gzip";
+
+export type CompressionOptions = {
+  /** defaults to "deflate-raw", it has no header and checksum of its own so it's a few bytes shorter */
+  format?: CompressionFormat;
+  /** values whose encoded body is shorter are written uncompressed, defaults to 1024 bytes */
+  threshold?: number;
+};
+
+// the index of the format is written behind the header of compressed values
+export const COMPRESSION_FORMATS: ReadonlyArray<CompressionFormat> = [
+  "deflate-raw",
+  "gzip",
+];
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+// the length in the header of a compressed value is not trusted, it would be as much memory as the sender asks for
+export const DEFAULT_MAX_DECOMPRESSED_BYTES = 16 * 2 ** 20;
+
+type SyncCompression = {
+  compress: (bytes: Uint8Array, format: CompressionFormat) => Uint8Array;
+  decompress: (
+    bytes: Uint8Array,
+    format: CompressionFormat,
+    maxLength: number,
+  ) => Uint8Array;
+};
+
+type Zlib = typeof import("node:zlib");
+
+// process.getBuiltinModule is newer than the node types
+type BuiltinModules = {
+  getBuiltinModule: (id: "node:zlib") => Zlib | undefined;
+};
+
+const hasBuiltinModules = (process: unknown): process is BuiltinModules =>
+  typeof process === "object" &&
+  process !== null &&
+  "getBuiltinModule" in process &&
+  typeof process.getBuiltinModule === "function";
+
+/**
+ * zlib of Bun and Node (22.3 and newer), browsers only have the streams
+ */
+const findSyncCompression = (): SyncCompression | undefined => {
+  const process: unknown = globalThis.process;
+  const zlib = hasBuiltinModules(process)
+    ? process.getBuiltinModule("node:zlib")
+    : undefined;
+  if (!zlib) {
+    return undefined;
+  }
+  // zlib returns Buffers, the codecs work on plain views of their bytes
+  return {
+    compress: (bytes, format) =>
+      toBytes(
+        format === "gzip" ? zlib.gzipSync(bytes) : zlib.deflateRawSync(bytes),
+      ),
+    decompress: (bytes, format, maxLength) => {
+      const options = { maxOutputLength: Math.max(maxLength, 1) };
+      return toBytes(
+        format === "gzip"
+          ? zlib.gunzipSync(bytes, options)
+          : zlib.inflateRawSync(bytes, options),
+      );
+    },
+  };
+};
+
+export const syncCompression = findSyncCompression();
+
+const concat = (chunks: Array<Uint8Array>, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
+
+/**
+ * run the bytes through a compression or decompression stream
+ * @param maxLength the output is not read further than this, longer outputs fail
+ */
+const pipe = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxLength = Infinity,
+): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Array<Uint8Array> = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return concat(chunks, length);
+    }
+    length += value.byteLength;
+    if (length > maxLength) {
+      await reader.cancel();
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        `the compressed body is longer than the ${maxLength} bytes it claims to have`,
+      );
+    }
+    chunks.push(value);
+  }
+};
+
+// the streams run in the background, big values don't block the thread like the synchronous zlib
+export const compressAsync = (
+  bytes: Uint8Array,
+  format: CompressionFormat,
+): Promise<Uint8Array> => pipe(bytes, new CompressionStream(format));
+
+export const decompressAsync = (
+  bytes: Uint8Array,
+  format: CompressionFormat,
+  maxLength: number,
+): Promise<Uint8Array> =>
+  pipe(bytes, new DecompressionStream(format), maxLength);
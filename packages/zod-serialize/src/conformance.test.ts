@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import {
+  importSchema,
+  inspect,
+  PROTOCOL_VERSION,
+  referenceImplementation,
+  runConformance,
+  type ConformanceCorpus,
+  type InspectionNode,
+} from ".";
+import { vectorCases } from "./vectors";
+import corpus from "./vectors.json";
+
+const vectors = corpus as ConformanceCorpus;
+// the vectors with short outputs, for the tests of the runner
+const shortVectors = {
+  ...vectors,
+  vectors: vectors.vectors.filter(({ bytes }) => typeof bytes === "string"),
+};
+
+const FIELD_STATES: Record<string, number> = {
+  null: 1,
+  undefined: 2,
+  absent: 3,
+};
+
+describe("conformance", () => {
+  it("encodes and decodes every vector exactly", async () => {
+    expect(await runConformance(vectors)).toEqual([]);
+  });
+
+  it("has a vector for every case", () => {
+    expect(vectors.vectors.map(({ name }) => name)).toEqual(
+      vectorCases.map(({ name }) => name),
+    );
+  });
+
+  it("covers every type tag, number type and object type", () => {
+    const types = new Set<number>();
+    const numberTypes = new Set<number>();
+    const objectTypes = new Set<number>();
+    const visit = (node: InspectionNode) => {
+      if (node.header !== undefined && node.kind !== "header") {
+        const type = node.header >> 5;
+        types.add(type);
+        if (type === 0) {
+          numberTypes.add(node.header & 0x0f);
+        }
+        if (type === 2) {
+          objectTypes.add((node.header >> 2) & 0x03);
+        }
+      }
+      // fields that allow null or undefined have their object type in the bitmap of their object
+      if (node.header === undefined && node.kind in FIELD_STATES) {
+        objectTypes.add(FIELD_STATES[node.kind]);
+      }
+      node.children?.forEach(visit);
+    };
+    for (const vector of shortVectors.vectors) {
+      visit(
+        inspect(
+          Buffer.from(vector.bytes as string, "hex"),
+          importSchema(vector.schema),
+          vector.options,
+        ),
+      );
+    }
+    expect([...types].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    expect([...numberTypes].sort((a, b) => a - b)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+    ]);
+    expect([...objectTypes].sort((a, b) => a - b)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("reports implementations that write other bytes", async () => {
+    const failures = await runConformance(shortVectors, {
+      encode: (vector, value) => {
+        const bytes = new Uint8Array(
+          referenceImplementation.encode(vector, value) as ArrayBuffer,
+        );
+        if (vector.name === "string/ascii") {
+          bytes[bytes.byteLength - 1] ^= 1;
+        }
+        return bytes;
+      },
+      decode: referenceImplementation.decode,
+    });
+    expect(failures).toEqual([
+      {
+        name: "string/ascii",
+        stage: "encode",
+        reason: "expected 200568656c6c6f but got 200568656c6c6e",
+      },
+    ]);
+  });
+
+  it("reports implementations that decode other values", async () => {
+    const failures = await runConformance(shortVectors, {
+      encode: referenceImplementation.encode,
+      decode: (vector, bytes) => {
+        const value = referenceImplementation.decode(vector, bytes);
+        return vector.name === "date/epoch" ? new Date(1) : value;
+      },
+    });
+    expect(failures).toEqual([
+      {
+        name: "date/epoch",
+        stage: "decode",
+        reason: 'expected {"$date":0} but got {"$date":1}',
+      },
+    ]);
+  });
+
+  it("rejects vectors of newer protocol versions", async () => {
+    const failures = await runConformance({
+      ...shortVectors,
+      version: PROTOCOL_VERSION + 1,
+    });
+    expect(failures).toHaveLength(1);
+    expect(failures[0].reason).toContain(
+      `protocol version ${PROTOCOL_VERSION + 1}`,
+    );
+  });
+});
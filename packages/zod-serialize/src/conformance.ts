@@ -0,0 +1,333 @@
+import type z from "zod";
+import {
+  createCodec,
+  PROTOCOL_VERSION,
+  type CodecOptions,
+  type DecodeInput,
+} from "./index";
+import {
+  exportSchema,
+  importSchema,
+  type SchemaDescriptor,
+} from "./descriptor";
+import { BINARY_TYPES } from "./annotations";
+import { toBytes } from "./writer";
+
+// outputs up to this length are checked in as hex, longer ones as length and hash
+const MAX_HEX_LENGTH = 256;
+// repeated strings and arrays from this length on are written compact
+const MIN_COMPACT_LENGTH = 64;
+
+/**
+ * the encoded bytes of a vector, as hex or for long outputs as the first bytes, the length and the SHA-256 of all bytes
+ */
+export type VectorBytes =
+  string | { head: string; length: number; sha256: string };
+
+/**
+ * a value of the schema, the bytes it is encoded to and the options it is encoded with
+ * the value is JSON, values that JSON doesn't have are written as objects with a single tag:
+ * - `{ "$undefined": true }`, `{ "$number": "NaN" | "Infinity" | "-Infinity" }`, `{ "$bigint": "123" }`
+ * - `{ "$date": 1704067200000 }` the timestamp in millis
+ * - `{ "$map": [[...keys], [...values]] }`, `{ "$set": [...values] }`
+ * - `{ "$binary": "Float32Array", "hex": "0000803f" }` or `{ "$binary": "Uint8Array", "length": 4096 }` for zeros
+ * - `{ "$text": "x", "count": 4096 }` the text repeated, `{ "$repeat": null, "count": 4096 }` an array with the value repeated,
+ *   `{ "$range": 4096 }` the array of the numbers from 0 to 4095
+ */
+export type ConformanceVector = {
+  name: string;
+  schema: SchemaDescriptor;
+  options: Pick<CodecOptions, "integers" | "header" | "fingerprint" | "layout">;
+  value: unknown;
+  bytes: VectorBytes;
+};
+
+export type ConformanceCorpus = {
+  /** the newest protocol version the vectors are written with, vectors of older versions keep their bytes */
+  version: number;
+  vectors: Array<ConformanceVector>;
+};
+
+/**
+ * an implementation of the wire format that is checked against the vectors
+ * the schema and the options are the ones of the vector, the values are already converted from their JSON form
+ */
+export type ConformanceImplementation = {
+  encode: (
+    vector: ConformanceVector,
+    value: unknown,
+  ) => ArrayBuffer | Uint8Array | Promise<ArrayBuffer | Uint8Array>;
+  decode: (vector: ConformanceVector, bytes: Uint8Array) => unknown;
+};
+
+export type ConformanceFailure = {
+  name: string;
+  stage: "encode" | "decode";
+  reason: string;
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string): Uint8Array =>
+  Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+
+const sha256 = async (bytes: Uint8Array): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)));
+
+const isRange = (value: Array<unknown>) =>
+  value.every((element, index) => element === index);
+
+const isRepeated = (value: Array<unknown>) =>
+  value.every(
+    (element) =>
+      element === value[0] && (element === null || typeof element !== "object"),
+  );
+
+/**
+ * convert a value to the JSON form of the vectors
+ * long arrays and strings that repeat the same element are written compact
+ */
+export const toVectorValue = (value: unknown): unknown => {
+  switch (true) {
+    case value === undefined:
+      return { $undefined: true };
+    case typeof value === "number" && !Number.isFinite(value):
+      return { $number: String(value) };
+    case typeof value === "bigint":
+      return { $bigint: String(value) };
+    case typeof value === "string" &&
+      value.length >= MIN_COMPACT_LENGTH &&
+      value === value[0].repeat(value.length):
+      return { $text: value[0], count: value.length };
+    case value instanceof Date:
+      return { $date: value.getTime() };
+    case value instanceof Map:
+      return {
+        $map: [
+          toVectorValue([...value.keys()]),
+          toVectorValue([...value.values()]),
+        ],
+      };
+    case value instanceof Set:
+      return { $set: toVectorValue([...value]) };
+    case value instanceof ArrayBuffer || ArrayBuffer.isView(value): {
+      const bytes = toBytes(value);
+      const $binary = value.constructor.name;
+      return bytes.byteLength >= MIN_COMPACT_LENGTH &&
+        bytes.every((byte) => byte === 0)
+        ? { $binary, length: bytes.byteLength }
+        : { $binary, hex: toHex(bytes) };
+    }
+    case Array.isArray(value) && value.length >= MIN_COMPACT_LENGTH:
+      if (isRange(value)) {
+        return { $range: value.length };
+      }
+      if (isRepeated(value)) {
+        return { $repeat: toVectorValue(value[0]), count: value.length };
+      }
+      return value.map(toVectorValue);
+    case Array.isArray(value):
+      return value.map(toVectorValue);
+    case typeof value === "object" && value !== null:
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          toVectorValue(field),
+        ]),
+      );
+  }
+  return value;
+};
+
+/**
+ * convert a value from the JSON form of the vectors back, see `ConformanceVector`
+ */
+export const fromVectorValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(fromVectorValue);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const tagged = value as Record<string, any>;
+  switch (true) {
+    case "$undefined" in tagged:
+      return undefined;
+    case "$number" in tagged:
+      return Number(tagged.$number);
+    case "$bigint" in tagged:
+      return BigInt(tagged.$bigint);
+    case "$date" in tagged:
+      return new Date(tagged.$date);
+    case "$text" in tagged:
+      return tagged.$text.repeat(tagged.count);
+    case "$repeat" in tagged:
+      return Array.from({ length: tagged.count }, () =>
+        fromVectorValue(tagged.$repeat),
+      );
+    case "$range" in tagged:
+      return Array.from({ length: tagged.$range }, (_, index) => index);
+    case "$map" in tagged: {
+      const [keys, values] = tagged.$map.map(fromVectorValue);
+      return new Map(
+        keys.map((key: unknown, index: number) => [key, values[index]]),
+      );
+    }
+    case "$set" in tagged:
+      return new Set(fromVectorValue(tagged.$set) as Array<unknown>);
+    case "$binary" in tagged: {
+      const bytes =
+        tagged.hex === undefined
+          ? new Uint8Array(tagged.length)
+          : fromHex(tagged.hex);
+      const Binary = BINARY_TYPES.find(({ name }) => name === tagged.$binary);
+      if (!Binary || Binary === ArrayBuffer) {
+        return bytes.buffer;
+      }
+      return new Binary(bytes.buffer);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(tagged).map(([key, field]) => [key, fromVectorValue(field)]),
+  );
+};
+
+/**
+ * JSON of the value with sorted object keys, values that are equal after decoding have the same JSON
+ */
+const canonical = (value: unknown): string =>
+  JSON.stringify(toVectorValue(value), (_, field) =>
+    typeof field === "object" && field !== null && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.entries(field).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : field,
+  );
+
+const toVectorBytes = async (bytes: Uint8Array): Promise<VectorBytes> =>
+  bytes.byteLength <= MAX_HEX_LENGTH
+    ? toHex(bytes)
+    : {
+        head: toHex(bytes.subarray(0, 16)),
+        length: bytes.byteLength,
+        sha256: await sha256(bytes),
+      };
+
+const describeBytes = (bytes: VectorBytes): string =>
+  typeof bytes === "string"
+    ? bytes
+    : `${bytes.length} bytes ${bytes.head}... with sha256 ${bytes.sha256}`;
+
+/**
+ * create the vector of a value
+ * the value is encoded with the schema imported from the descriptor, so the vector only depends on what is in it
+ * @param name unique name of the vector
+ * @param schema the schema of the value
+ * @param value the value before encoding
+ * @param options encoding options, values are written without header unless another header mode is given
+ */
+export const createVector = async (
+  name: string,
+  schema: z.ZodTypeAny,
+  value: unknown,
+  options: ConformanceVector["options"] = {},
+): Promise<ConformanceVector> => {
+  const vector: ConformanceVector = {
+    name,
+    schema: exportSchema(schema),
+    options: { header: "none", ...options },
+    value: toVectorValue(value),
+    bytes: "",
+  };
+  const encoded = await referenceImplementation.encode(
+    vector,
+    fromVectorValue(vector.value),
+  );
+  vector.bytes = await toVectorBytes(new Uint8Array(encoded));
+  return vector;
+};
+
+const codecs = new WeakMap<ConformanceVector, ReturnType<typeof createCodec>>();
+const codecOf = (vector: ConformanceVector) => {
+  let codec = codecs.get(vector);
+  if (!codec) {
+    codec = createCodec(importSchema(vector.schema), vector.options);
+    codecs.set(vector, codec);
+  }
+  return codec;
+};
+
+/**
+ * this implementation, with the schema imported from the descriptor of the vector
+ */
+export const referenceImplementation: ConformanceImplementation = {
+  encode: (vector, value) => codecOf(vector).encode(value),
+  decode: (vector, bytes) => codecOf(vector).decode(bytes as DecodeInput),
+};
+
+/**
+ * check an implementation against the vectors
+ * every value has to be encoded to exactly the bytes of the vector and the bytes have to be decoded to the value again
+ * ```ts
+ *   const failures = await runConformance(corpus, {
+ *     encode: (vector, value) => myEncode(vector.schema, value, vector.options),
+ *     decode: (vector, bytes) => myDecode(vector.schema, bytes, vector.options),
+ *   });
+ * ```
+ * vectors with long outputs only have the hash of the bytes, they are decoded from the output of the encoder
+ * @param corpus the checked-in vectors (`vectors.json`)
+ * @param implementation the implementation to check, defaults to this one
+ * @returns the vectors that failed, empty if the implementation conforms
+ */
+export const runConformance = async (
+  corpus: ConformanceCorpus,
+  implementation: ConformanceImplementation = referenceImplementation,
+): Promise<Array<ConformanceFailure>> => {
+  if (corpus.version > PROTOCOL_VERSION) {
+    return [
+      {
+        name: "corpus",
+        stage: "decode",
+        reason: `the vectors are written with protocol version ${corpus.version} which is newer than ${PROTOCOL_VERSION}`,
+      },
+    ];
+  }
+  const failures: Array<ConformanceFailure> = [];
+  for (const vector of corpus.vectors) {
+    const { name } = vector;
+    const value = fromVectorValue(vector.value);
+    let encoded: Uint8Array | undefined;
+    try {
+      encoded = new Uint8Array(await implementation.encode(vector, value));
+      const actual = await toVectorBytes(encoded);
+      if (JSON.stringify(actual) !== JSON.stringify(vector.bytes)) {
+        failures.push({
+          name,
+          stage: "encode",
+          reason: `expected ${describeBytes(vector.bytes)} but got ${describeBytes(actual)}`,
+        });
+      }
+    } catch (error) {
+      failures.push({ name, stage: "encode", reason: String(error) });
+    }
+    const bytes =
+      typeof vector.bytes === "string" ? fromHex(vector.bytes) : encoded;
+    if (!bytes) {
+      continue;
+    }
+    try {
+      const decoded = implementation.decode(vector, bytes);
+      if (canonical(decoded) !== canonical(value)) {
+        failures.push({
+          name,
+          stage: "decode",
+          reason: `expected ${canonical(value).slice(0, 200)} but got ${canonical(decoded).slice(0, 200)}`,
+        });
+      }
+    } catch (error) {
+      failures.push({ name, stage: "decode", reason: String(error) });
+    }
+  }
+  return failures;
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import {
+  applyDelta,
+  decode,
+  decodeHeader,
+  encode,
+  encodeDelta,
+  ZodSerializeError,
+} from ".";
+import { codecFixtures } from "./fixtures";
+
+const roundTrip = <T>(schema: z.ZodType<T, any>, value: unknown) =>
+  decode(schema, encode(schema, value));
+
+const playerSchema = z.object({
+  name: z.string(),
+  x: z.number(),
+  y: z.number(),
+  team: z.string().default("red"),
+  title: z.string().optional(),
+});
+const stateSchema = z.object({
+  tick: z.number(),
+  players: z.map(z.number(), playerSchema),
+  scores: z.record(z.string(), z.number()),
+  log: z.array(z.string()),
+  tags: z.set(z.string()),
+  phase: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("lobby"), waiting: z.number() }),
+    z.object({ type: z.literal("running"), round: z.number() }),
+  ]),
+});
+const state = {
+  tick: 1,
+  players: new Map([
+    [1, { name: "alice", x: 0, y: 0, team: "blue", title: "captain" }],
+    [2, { name: "bob", x: 10, y: 10 }],
+  ]),
+  scores: { alice: 3, bob: 1 },
+  log: ["start"],
+  tags: new Set(["ranked"]),
+  phase: { type: "lobby" as const, waiting: 2 },
+};
+
+describe("delta", () => {
+  for (const [name, { schema, values }] of Object.entries(codecFixtures)) {
+    it(`patches every value into every other value: ${name}`, () => {
+      for (const previous of values) {
+        for (const next of values) {
+          expect(
+            applyDelta(
+              schema,
+              roundTrip(schema, previous),
+              encodeDelta(schema, previous, next),
+            ),
+          ).toEqual(roundTrip(schema, next));
+        }
+      }
+    });
+  }
+
+  it("only writes what changed", () => {
+    const next = {
+      ...state,
+      tick: 2,
+      players: new Map(state.players).set(2, {
+        ...state.players.get(2)!,
+        x: 11,
+      }),
+    };
+    const delta = encodeDelta(stateSchema, state, next);
+    expect(delta.byteLength).toBeLessThan(
+      encode(stateSchema, next).byteLength / 3,
+    );
+    expect(
+      applyDelta(stateSchema, roundTrip(stateSchema, state), delta),
+    ).toEqual(roundTrip(stateSchema, next));
+  });
+
+  it("removes and adds fields, entries, elements and set values", () => {
+    const next = {
+      ...state,
+      players: new Map([
+        [1, { name: "alice", x: 0, y: 0 }],
+        [3, { name: "carol", x: 5, y: 5, title: "new" }],
+      ]),
+      scores: { alice: 4, carol: 0 },
+      log: ["start", "carol joined", "bob left"],
+      tags: new Set(["casual"]),
+      phase: { type: "lobby" as const, waiting: 1 },
+    };
+    const previous = roundTrip(stateSchema, state);
+    const patched = applyDelta(
+      stateSchema,
+      previous,
+      encodeDelta(stateSchema, state, next),
+    );
+    expect(patched).toEqual(roundTrip(stateSchema, next));
+    expect(patched.players.get(1)).toEqual({
+      name: "alice",
+      x: 0,
+      y: 0,
+      team: "red",
+    });
+    expect("title" in patched.players.get(1)!).toBe(false);
+    expect(previous).toEqual(roundTrip(stateSchema, state));
+  });
+
+  it("shortens arrays", () => {
+    const schema = z.array(z.number());
+    expect(
+      applyDelta(schema, [1, 2, 3], encodeDelta(schema, [1, 2, 3], [1, 5])),
+    ).toEqual([1, 5]);
+  });
+
+  it("replaces values whose union option changed", () => {
+    const next = { ...state, phase: { type: "running" as const, round: 1 } };
+    expect(
+      applyDelta(
+        stateSchema,
+        roundTrip(stateSchema, state),
+        encodeDelta(stateSchema, state, next),
+      ),
+    ).toEqual(roundTrip(stateSchema, next));
+  });
+
+  it("checks the next value against the schema", () => {
+    expect(() =>
+      encodeDelta(stateSchema, state, { ...state, tick: "2" }),
+    ).toThrow(ZodSerializeError);
+  });
+
+  it("rejects buffers that are not a delta of the schema", () => {
+    expect(() =>
+      applyDelta(stateSchema, state, encode(stateSchema, state)),
+    ).toThrow(expect.objectContaining({ code: "SCHEMA_MISMATCH" }));
+    expect(() =>
+      decode(stateSchema, encodeDelta(stateSchema, state, state)),
+    ).toThrow(expect.objectContaining({ code: "SCHEMA_MISMATCH" }));
+  });
+
+  it("rejects previous values the delta was not made for", () => {
+    const schema = z.object({ list: z.array(z.number()) });
+    const delta = encodeDelta(schema, { list: [1] }, { list: [2] });
+    expect(() => applyDelta(schema, { list: null } as any, delta)).toThrow(
+      expect.objectContaining({ code: "SCHEMA_MISMATCH", path: ["list"] }),
+    );
+  });
+
+  it("fails on truncated deltas", () => {
+    const delta = encodeDelta(stateSchema, state, { ...state, tick: 2 });
+    expect(() =>
+      applyDelta(stateSchema, state, delta.slice(0, delta.byteLength - 2)),
+    ).toThrow(ZodSerializeError);
+  });
+
+  it("checks the appended elements against the bytes left", () => {
+    const schema = z.array(z.number());
+    const delta = new Uint8Array(encodeDelta(schema, [], [1]));
+    // header, patch mode, the new length, then the first element. 3 elements don't fit into the 2 bytes left
+    const { length } = decodeHeader(delta);
+    delta[length + 1] = 3;
+    expect(() => applyDelta(schema, [], delta)).toThrow(
+      expect.objectContaining({ code: "TRUNCATED", offset: length + 2 }),
+    );
+  });
+});
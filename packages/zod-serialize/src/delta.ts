@@ -0,0 +1,760 @@
+import z from "zod";
+import {
+  checkCollectionLength,
+  compileSchema,
+  createCompileContext,
+  createDecodeContext,
+  decodeAt,
+  decodeVarUint,
+  encodeAt,
+  ensureBytes,
+  fromZodError,
+  hasBit,
+  LAYOUT_VERSIONS,
+  makeHeader,
+  ObjectTypes,
+  pickUnionOption,
+  readBitmap,
+  readHeaderAt,
+  schemaFingerprint,
+  setBit,
+  toDecodeError,
+  Types,
+  writeBitmap,
+  type CodecOptions,
+  type CompileContext,
+  type CompiledSchema,
+  type DecodeContext,
+  type DecodeInput,
+  type DecodeOptions,
+  type EncodeContext,
+  type IntegerEncoding,
+} from "./codec";
+import { toSerializeError, ZodSerializeError } from "./errors";
+import { getAnnotation } from "./annotations";
+import {
+  createWriter,
+  toArrayBuffer,
+  toBytes,
+  writeBytes,
+  writeUint8,
+  writeVarUint,
+} from "./writer";
+
+// delta buffers have another fingerprint than the values of the schema so neither is decoded as the other
+const DELTA_SALT = 0x64656c7461n; // "delta"
+
+/**
+ * how a changed value is written in a delta, values of schemas that can't be patched are always replaced
+ * - Replace: the new value follows, encoded like `encode` does
+ * - Patch: only the changed fields, entries or elements follow
+ */
+enum DeltaMode {
+  Replace,
+  Patch,
+}
+
+const ABSENT_HEADER =
+  (Types.Object << 5) | (ObjectTypes.UndefinedOptional << 2);
+
+/**
+ * the delta of a schema node, only used for values that changed
+ * - encode: writes the change from the previous to the next value
+ * - apply: reads the change and returns the new value, previous is the value the receiver has
+ */
+type DeltaPlan = {
+  encode: (previous: unknown, next: unknown, ctx: EncodeContext) => void;
+  apply: (previous: unknown, ctx: DecodeContext) => unknown;
+};
+
+/**
+ * the delta of a container schema whose previous and next value match
+ * - matches: previous and next can be patched, e.g. both are objects or both are options of the same union
+ */
+type DeltaPatch = DeltaPlan & {
+  matches: (previous: unknown, next: unknown) => boolean;
+};
+
+/**
+ * - plans: plans that were already compiled with this context, also ends recursion of lazy schemas
+ * - withIntegers: the context for another integer encoding, used for annotated schemas (see `zs.varint`)
+ */
+type DeltaContext = {
+  cctx: CompileContext;
+  plans: Map<z.ZodTypeAny, DeltaPlan>;
+  withIntegers: (integers: IntegerEncoding) => DeltaContext;
+};
+
+const createDeltaContext = (options: CodecOptions): DeltaContext => {
+  const cctx = createCompileContext(options);
+  const contexts = new Map<IntegerEncoding, DeltaContext>();
+  const withIntegers = (integers: IntegerEncoding): DeltaContext => {
+    let dctx = contexts.get(integers);
+    if (!dctx) {
+      dctx = {
+        cctx: cctx.withIntegers(integers),
+        plans: new Map(),
+        withIntegers,
+      };
+      contexts.set(integers, dctx);
+    }
+    return dctx;
+  };
+  return withIntegers(cctx.integers);
+};
+
+/**
+ * whether two values are encoded the same, e.g. dates with the same time or buffers with the same bytes
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    a.constructor !== b.constructor
+  ) {
+    return false;
+  }
+  switch (true) {
+    case a instanceof Date:
+      return Object.is(a.getTime(), (b as Date).getTime());
+    case a instanceof ArrayBuffer || ArrayBuffer.isView(a): {
+      const left = toBytes(a);
+      const right = toBytes(b as ArrayBuffer | ArrayBufferView);
+      return (
+        left.byteLength === right.byteLength &&
+        left.every((byte, index) => byte === right[index])
+      );
+    }
+    case a instanceof Map: {
+      const other = b as Map<unknown, unknown>;
+      return (
+        a.size === other.size &&
+        [...a].every(
+          ([key, value]) =>
+            other.has(key) && isSameValue(value, other.get(key)),
+        )
+      );
+    }
+    case a instanceof Set:
+      return (
+        a.size === (b as Set<unknown>).size &&
+        [...a].every((value) => (b as Set<unknown>).has(value))
+      );
+    case Array.isArray(a):
+      return (
+        a.length === (b as Array<unknown>).length &&
+        a.every((value, index) =>
+          isSameValue(value, (b as Array<unknown>)[index]),
+        )
+      );
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isSameValue(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+};
+
+const isRecord = (value: unknown): value is Record<PropertyKey, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Map) &&
+  !(value instanceof Set);
+
+const isArray = (value: unknown): value is Array<unknown> =>
+  Array.isArray(value);
+
+const isPrimitive = (value: unknown) =>
+  value === null || (typeof value !== "object" && typeof value !== "function");
+
+const isOmittable = (schema: z.ZodTypeAny) => {
+  const parseRes = schema.safeParse(undefined);
+  return parseRes.success && parseRes.data === undefined;
+};
+
+const deltaMismatch = (expected: string) =>
+  new ZodSerializeError(
+    "SCHEMA_MISMATCH",
+    `the previous value is not ${expected}, the delta was made for another previous value`,
+  );
+
+/**
+ * the schema that a delta patches, wrapper schemas are looked through
+ * - readonly: the patched value is frozen like zod does
+ * - integers: the integer encoding the schema is annotated with on the way (see `zs.varint`)
+ */
+const deltaTarget = (
+  schema: z.ZodTypeAny,
+):
+  | { schema: z.ZodTypeAny; readonly: boolean; integers?: IntegerEncoding }
+  | undefined => {
+  let readonly = false;
+  let integers: IntegerEncoding | undefined;
+  for (let inner = schema; ;) {
+    integers = getAnnotation(inner)?.integers ?? integers;
+    switch (true) {
+      case inner instanceof z.ZodReadonly:
+        readonly = true;
+        inner = inner.unwrap();
+        break;
+      case inner instanceof z.ZodOptional:
+      case inner instanceof z.ZodNullable:
+      case inner instanceof z.ZodBranded:
+        inner = inner.unwrap();
+        break;
+      case inner instanceof z.ZodDefault:
+        inner = inner.removeDefault();
+        break;
+      case inner instanceof z.ZodLazy:
+        inner = inner.schema;
+        break;
+      case inner instanceof z.ZodObject:
+      case inner instanceof z.ZodArray:
+      case inner instanceof z.ZodSet:
+      case inner instanceof z.ZodTuple && !inner._def.rest:
+      case inner instanceof z.ZodMap:
+      case inner instanceof z.ZodRecord:
+      case inner instanceof z.ZodUnion:
+      case inner instanceof z.ZodDiscriminatedUnion:
+        return { schema: inner, readonly, integers };
+      default:
+        return undefined;
+    }
+  }
+};
+
+/**
+ * the patch of the values the guard accepts, previous and next have to be one of them
+ * @param expected what the previous value is, for the error when the receiver has another one
+ */
+const patchOf = <T>(
+  isTarget: (value: unknown) => value is T,
+  expected: string,
+  encode: (previous: T, next: T, ctx: EncodeContext) => void,
+  apply: (previous: T, ctx: DecodeContext) => unknown,
+): DeltaPatch => ({
+  matches: (previous, next) => isTarget(previous) && isTarget(next),
+  encode: (previous, next, ctx) => {
+    // only called after `matches`, the check narrows the values
+    if (!isTarget(previous) || !isTarget(next)) {
+      throw new ZodSerializeError(
+        "INVALID_VALUE",
+        `the values are not both ${expected}`,
+      );
+    }
+    encode(previous, next, ctx);
+  },
+  apply: (previous, ctx) => {
+    if (!isTarget(previous)) {
+      throw deltaMismatch(expected);
+    }
+    return apply(previous, ctx);
+  },
+});
+
+/**
+ * the new value is written in full, the decoded value is parsed by the schema like `decode` does,
+ * so defaults, catch and transforms are applied
+ */
+const replacePlan = (
+  schema: z.ZodTypeAny,
+  compiled: CompiledSchema,
+): DeltaPlan => ({
+  encode: (_, next, ctx) => compiled.encode(next, ctx),
+  apply: (_, ctx) => {
+    const parseRes = schema.safeParse(compiled.decode(ctx));
+    if (!parseRes.success) {
+      throw fromZodError(
+        parseRes.error,
+        "decoded value does not match the schema",
+      );
+    }
+    return parseRes.data;
+  },
+});
+
+/**
+ * objects and tuples: a bitmap of the changed fields followed by the delta of every changed field
+ * - omittable: an absent field stays absent after parsing, it is written as absent optional field.
+ *   other absent fields (e.g. with a default) are written as undefined so the receiver parses them
+ */
+const patchFields = (
+  fields: Array<{ key: string | number; omittable: boolean; plan: DeltaPlan }>,
+  isTarget: (value: unknown) => value is Record<PropertyKey, unknown>,
+): DeltaPatch =>
+  patchOf(
+    isTarget,
+    "an object or tuple",
+    (previous, next, ctx) => {
+      const start = writeBitmap(ctx.writer, fields.length);
+      fields.forEach(({ key, omittable, plan }, index) => {
+        const present = key in next;
+        if (
+          present === key in previous &&
+          isSameValue(previous[key], next[key])
+        ) {
+          return;
+        }
+        setBit(ctx.writer, start, index);
+        if (!present && omittable) {
+          return writeUint8(ctx.writer, ABSENT_HEADER);
+        }
+        encodeAt(
+          (value, ctx) => plan.encode(previous[key], value, ctx),
+          next[key],
+          key,
+          ctx,
+        );
+      });
+    },
+    (previous, ctx) => {
+      const bitmap = readBitmap(fields.length, ctx);
+      const value: Record<PropertyKey, unknown> = isArray(previous)
+        ? Object.assign([], previous)
+        : { ...previous };
+      fields.forEach(({ key, omittable, plan }, index) => {
+        if (!hasBit(bitmap, index)) {
+          return;
+        }
+        ensureBytes(ctx, 1);
+        if (omittable && ctx.view.getUint8(ctx.offset) === ABSENT_HEADER) {
+          ctx.offset++;
+          delete value[key];
+          return;
+        }
+        value[key] = decodeAt(
+          (ctx) => plan.apply(previous[key], ctx),
+          key,
+          ctx,
+        );
+      });
+      return value;
+    },
+  );
+
+type Entries = Map<unknown, unknown> | Record<PropertyKey, unknown>;
+
+/**
+ * maps and records: the removed keys, then the changed and added entries with the delta of their value
+ * entries are matched by their key like `Map.has` does
+ */
+const patchEntries = (
+  keyPlan: DeltaPlan,
+  valuePlan: DeltaPlan,
+  kind: "map" | "record",
+): DeltaPatch => {
+  // keys of decoded maps are new objects, so only maps with primitive keys can be patched
+  const isTarget = (value: unknown): value is Entries =>
+    kind === "map"
+      ? value instanceof Map && [...value.keys()].every(isPrimitive)
+      : isRecord(value);
+  const entries = (value: Entries): Array<[unknown, unknown]> =>
+    value instanceof Map ? [...value] : Object.entries(value);
+  const has = (value: Entries, key: unknown) =>
+    value instanceof Map
+      ? value.has(key)
+      : Object.hasOwn(value, key as PropertyKey);
+  const get = (value: Entries, key: unknown) =>
+    value instanceof Map ? value.get(key) : value[key as PropertyKey];
+  return patchOf(
+    isTarget,
+    `a ${kind}`,
+    (previous, next, ctx) => {
+      const removed = entries(previous).filter(([key]) => !has(next, key));
+      const changed = entries(next).filter(
+        ([key, value]) =>
+          !has(previous, key) || !isSameValue(get(previous, key), value),
+      );
+      writeVarUint(ctx.writer, removed.length);
+      removed.forEach(([key], index) =>
+        encodeAt(keyPlan.encode.bind(null, undefined), key, index, ctx),
+      );
+      writeVarUint(ctx.writer, changed.length);
+      changed.forEach(([key, value], index) => {
+        const segment =
+          typeof key === "string" || typeof key === "number" ? key : index;
+        encodeAt(keyPlan.encode.bind(null, undefined), key, segment, ctx);
+        encodeAt(
+          (value, ctx) => valuePlan.encode(get(previous, key), value, ctx),
+          value,
+          segment,
+          ctx,
+        );
+      });
+    },
+    (previous, ctx) => {
+      const value: Entries =
+        previous instanceof Map
+          ? new Map(previous)
+          : Object.assign(Object.create(null), previous);
+      const removed = decodeVarUint(ctx);
+      checkCollectionLength(removed, 1, ctx);
+      for (let index = 0; index < removed; index++) {
+        const key = decodeAt(
+          (ctx) => keyPlan.apply(undefined, ctx),
+          index,
+          ctx,
+        );
+        if (value instanceof Map) {
+          value.delete(key);
+        } else {
+          delete value[key as PropertyKey];
+        }
+      }
+      const changed = decodeVarUint(ctx);
+      checkCollectionLength(changed, 2, ctx);
+      for (let index = 0; index < changed; index++) {
+        const key = decodeAt(
+          (ctx) => keyPlan.apply(undefined, ctx),
+          index,
+          ctx,
+        );
+        const segment =
+          typeof key === "string" || typeof key === "number" ? key : index;
+        const entry = decodeAt(
+          (ctx) => valuePlan.apply(get(previous, key), ctx),
+          segment,
+          ctx,
+        );
+        if (value instanceof Map) {
+          value.set(key, entry);
+        } else {
+          value[key as PropertyKey] = entry;
+        }
+      }
+      return value;
+    },
+  );
+};
+
+/**
+ * the patch of a container schema (see `deltaTarget`)
+ */
+const compilePatch = (schema: z.ZodTypeAny, dctx: DeltaContext): DeltaPatch => {
+  switch (true) {
+    case schema instanceof z.ZodObject:
+      return patchFields(
+        Object.entries(schema.shape as z.ZodRawShape).map(
+          ([key, fieldSchema]) => ({
+            key,
+            omittable: isOmittable(fieldSchema),
+            plan: compileDelta(fieldSchema, dctx),
+          }),
+        ),
+        isRecord,
+      );
+    case schema instanceof z.ZodTuple: {
+      const items = schema.items as Array<z.ZodTypeAny>;
+      return patchFields(
+        items.map((item, index) => ({
+          key: index,
+          omittable: false,
+          plan: compileDelta(item, dctx),
+        })),
+        (value): value is Record<PropertyKey, unknown> =>
+          isArray(value) && value.length === items.length,
+      );
+    }
+    case schema instanceof z.ZodArray: {
+      // the new length, a bitmap of the changed elements both values have, their deltas and the appended elements
+      const element = compileDelta(schema.element, dctx);
+      return patchOf(
+        isArray,
+        "an array",
+        (previous, next, ctx) => {
+          const common = Math.min(previous.length, next.length);
+          writeVarUint(ctx.writer, next.length);
+          const start = writeBitmap(ctx.writer, common);
+          for (let index = 0; index < next.length; index++) {
+            if (index < common) {
+              if (isSameValue(previous[index], next[index])) {
+                continue;
+              }
+              setBit(ctx.writer, start, index);
+            }
+            encodeAt(
+              (value, ctx) => element.encode(previous[index], value, ctx),
+              next[index],
+              index,
+              ctx,
+            );
+          }
+        },
+        (previous, ctx) => {
+          const length = decodeVarUint(ctx);
+          const common = Math.min(previous.length, length);
+          // the appended elements take up at least one byte each
+          checkCollectionLength(length, 0, ctx);
+          ensureBytes(ctx, length - common);
+          const bitmap = readBitmap(common, ctx);
+          const value = previous.slice(0, length);
+          for (let index = 0; index < length; index++) {
+            if (index < common && !hasBit(bitmap, index)) {
+              continue;
+            }
+            value[index] = decodeAt(
+              (ctx) => element.apply(previous[index], ctx),
+              index,
+              ctx,
+            );
+          }
+          return value;
+        },
+      );
+    }
+    case schema instanceof z.ZodSet: {
+      // the removed and the added values, sets of objects are replaced because their values are matched by identity
+      const element = replacePlan(
+        schema._def.valueType,
+        compileSchema(schema._def.valueType, dctx.cctx),
+      );
+      const isTarget = (value: unknown): value is Set<unknown> =>
+        value instanceof Set && [...value].every(isPrimitive);
+      return patchOf(
+        isTarget,
+        "a set",
+        (previous, next, ctx) => {
+          for (const [from, to] of [
+            [previous, next],
+            [next, previous],
+          ]) {
+            const values = [...from].filter((value) => !to.has(value));
+            writeVarUint(ctx.writer, values.length);
+            values.forEach((value, index) =>
+              encodeAt(element.encode.bind(null, undefined), value, index, ctx),
+            );
+          }
+        },
+        (previous, ctx) => {
+          const value = new Set(previous);
+          for (const update of ["delete", "add"] as const) {
+            const length = decodeVarUint(ctx);
+            checkCollectionLength(length, 1, ctx);
+            for (let index = 0; index < length; index++) {
+              value[update](
+                decodeAt((ctx) => element.apply(undefined, ctx), index, ctx),
+              );
+            }
+          }
+          return value;
+        },
+      );
+    }
+    case schema instanceof z.ZodMap:
+    case schema instanceof z.ZodRecord:
+      return patchEntries(
+        compileDelta(schema._def.keyType, dctx),
+        compileDelta(schema._def.valueType, dctx),
+        schema instanceof z.ZodMap ? "map" : "record",
+      );
+    case schema instanceof z.ZodUnion:
+    case schema instanceof z.ZodDiscriminatedUnion: {
+      // the index of the option previous and next belong to and the delta of the option
+      const options: Array<z.ZodTypeAny> =
+        schema instanceof z.ZodUnion ? schema.options : [...schema.options];
+      const plans = options.map((option) => compileDelta(option, dctx));
+      const pick = (input: unknown): number => {
+        if (schema instanceof z.ZodDiscriminatedUnion) {
+          const option = isRecord(input)
+            ? schema.optionsMap.get(input[schema.discriminator] as z.Primitive)
+            : undefined;
+          return option ? options.indexOf(option) : -1;
+        }
+        try {
+          return pickUnionOption(input, options, dctx.cctx.unions);
+        } catch {
+          return -1;
+        }
+      };
+      return {
+        matches: (previous, next) => {
+          const index = pick(next);
+          return index !== -1 && index === pick(previous);
+        },
+        encode: (previous, next, ctx) => {
+          const index = pick(next);
+          writeVarUint(ctx.writer, index);
+          plans[index].encode(previous, next, ctx);
+        },
+        apply: (previous, ctx) => {
+          const index = decodeVarUint(ctx);
+          if (index >= plans.length) {
+            throw new ZodSerializeError(
+              "SCHEMA_MISMATCH",
+              `union option ${index} does not exist`,
+              { offset: ctx.offset },
+            );
+          }
+          return plans[index].apply(previous, ctx);
+        },
+      };
+    }
+  }
+  throw new ZodSerializeError("UNSUPPORTED_SCHEMA", "unreachable");
+};
+
+/**
+ * analyse a schema once and build the delta plan for it
+ * containers (objects, arrays, sets, tuples, maps, records and unions) write whether they are replaced or patched,
+ * everything else is replaced
+ */
+const compileDelta = (schema: z.ZodTypeAny, dctx: DeltaContext): DeltaPlan => {
+  const cached = dctx.plans.get(schema);
+  if (cached) {
+    return cached;
+  }
+  const annotation = getAnnotation(schema);
+  if (annotation?.integers && annotation.integers !== dctx.cctx.integers) {
+    return compileDelta(schema, dctx.withIntegers(annotation.integers));
+  }
+  const replace = replacePlan(schema, compileSchema(schema, dctx.cctx));
+  const target = deltaTarget(schema);
+  if (!target) {
+    dctx.plans.set(schema, replace);
+    return replace;
+  }
+  // the patch is compiled on first use, lazy schemas may return a new schema every time
+  let patch: DeltaPatch | undefined;
+  const getPatch = () =>
+    (patch ??= compilePatch(
+      target.schema,
+      target.integers ? dctx.withIntegers(target.integers) : dctx,
+    ));
+  const plan: DeltaPlan = {
+    encode: (previous, next, ctx) => {
+      if (!getPatch().matches(previous, next)) {
+        writeUint8(ctx.writer, DeltaMode.Replace);
+        return replace.encode(previous, next, ctx);
+      }
+      writeUint8(ctx.writer, DeltaMode.Patch);
+      getPatch().encode(previous, next, ctx);
+    },
+    apply: (previous, ctx) => {
+      ensureBytes(ctx, 1);
+      const mode = ctx.view.getUint8(ctx.offset++);
+      if (mode === DeltaMode.Replace) {
+        return replace.apply(previous, ctx);
+      }
+      if (mode !== DeltaMode.Patch) {
+        throw new ZodSerializeError(
+          "INVALID_VALUE",
+          `unknown delta mode ${mode}`,
+          { offset: ctx.offset - 1 },
+        );
+      }
+      const value = getPatch().apply(previous, ctx);
+      return target.readonly ? Object.freeze(value) : value;
+    },
+  };
+  dctx.plans.set(schema, plan);
+  return plan;
+};
+
+const deltas = new WeakMap<
+  z.ZodTypeAny,
+  { plan: DeltaPlan; fingerprint: bigint; header: Uint8Array }
+>();
+const getDelta = (schema: z.ZodTypeAny) => {
+  let delta = deltas.get(schema);
+  if (!delta) {
+    const fingerprint = schemaFingerprint(schema) ^ DELTA_SALT;
+    delta = {
+      plan: compileDelta(schema, createDeltaContext({})),
+      fingerprint,
+      header: new Uint8Array(
+        makeHeader(fingerprint, "full", LAYOUT_VERSIONS.tagged),
+      ),
+    };
+    deltas.set(schema, delta);
+  }
+  return delta;
+};
+
+/**
+ * encode only what changed from the previous to the next value, e.g. for state that is sent on every tick
+ * ```ts
+ *   const buffer = encodeDelta(stateSchema, lastSent, state);
+ *   // on the other side
+ *   state = applyDelta(stateSchema, state, buffer);
+ * ```
+ * objects and tuples write a bitmap of the changed fields, maps and records their removed and changed entries,
+ * arrays a bitmap of the changed elements and the appended ones, sets their removed and added values.
+ * unchanged fields take up one bit, values that are not containers or whose type changed are written in full.
+ * the delta only fits the previous value it was made for, the receiver has to have it (e.g. from `decode` or the last `applyDelta`)
+ * @param schema zod schema of the values
+ * @param previous the value the receiver has
+ * @param next the new value, it is checked against the schema like `encode` does
+ * @returns the delta with a header whose fingerprint differs from the one of encoded values
+ */
+export const encodeDelta = <T>(
+  schema: z.ZodType<T>,
+  previous: T | unknown,
+  next: T | unknown,
+): ArrayBuffer => {
+  const { plan, header } = getDelta(schema);
+  const parseRes = schema.safeParse(next);
+  if (!parseRes.success) {
+    throw fromZodError(parseRes.error, "cannot parse schema");
+  }
+  const writer = createWriter();
+  try {
+    writeBytes(writer, header);
+    plan.encode(previous, next, { parsed: false, writer });
+  } catch (error) {
+    throw toSerializeError(error, "INVALID_VALUE", writer.offset);
+  }
+  return toArrayBuffer(writer);
+};
+
+/**
+ * apply a delta of `encodeDelta` to the previous value
+ * the previous value is not changed, changed objects, arrays, maps and sets are copies.
+ * replaced values are parsed by their schema like `decode` does, so defaults and transforms are applied to them
+ * @param schema zod schema of the values
+ * @param previous the value the delta was made for
+ * @param buffer the delta
+ * @param options decode options
+ * @returns the next value
+ */
+export const applyDelta = <T>(
+  schema: z.ZodType<T>,
+  previous: T,
+  buffer: DecodeInput,
+  options?: DecodeOptions,
+): T => {
+  const { plan, fingerprint } = getDelta(schema);
+  const ctx = createDecodeContext(buffer, 0, options);
+  try {
+    const { version, hash } = readHeaderAt(ctx);
+    if (version !== LAYOUT_VERSIONS.tagged) {
+      throw new ZodSerializeError(
+        "PROTOCOL_VERSION",
+        `Protocol versions does not match cannot apply delta (expected ${LAYOUT_VERSIONS.tagged} got ${version})`,
+        { offset: 0 },
+      );
+    }
+    if (hash !== fingerprint) {
+      throw new ZodSerializeError(
+        "SCHEMA_MISMATCH",
+        "the buffer is not a delta of the schema",
+        { offset: 1 },
+      );
+    }
+    return plan.apply(previous, ctx) as T;
+  } catch (error) {
+    throw toDecodeError(error, ctx);
+  }
+};
@@ -0,0 +1,246 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import {
+  decode,
+  encode,
+  exportSchema,
+  importSchema,
+  schemaFingerprint,
+  zs,
+  ZodSerializeError,
+} from ".";
+import { complexSchema } from "./fixtures";
+
+type Tree = { name: string; children: Array<Tree> };
+const treeSchema: z.ZodType<Tree> = z.lazy(() =>
+  z.object({ name: z.string(), children: z.array(treeSchema) }),
+);
+
+enum Direction {
+  Up,
+  Down,
+}
+
+const schemas: Array<[string, z.ZodTypeAny]> = [
+  [
+    "primitives",
+    z.object({
+      name: z.string().min(1).email(),
+      count: z.number().int().min(0).max(1000),
+      big: z.bigint().min(-5n),
+      flag: z.boolean(),
+      at: z.coerce.date(),
+      nothing: z.null(),
+      missing: z.undefined(),
+      nan: z.nan(),
+    }),
+  ],
+  [
+    "literals and enums",
+    z.tuple([
+      z.literal("a"),
+      z.literal(1),
+      z.literal(1n),
+      z.literal(true),
+      z.literal(null),
+      z.literal(undefined),
+      z.enum(["x", "y"]),
+      z.nativeEnum(Direction),
+      z.nativeEnum({ A: "a", B: "b" }),
+    ]),
+  ],
+  [
+    "collections",
+    z.object({
+      list: z.array(z.string()).min(1).max(3),
+      unique: z.set(z.number()),
+      lookup: z.map(z.string(), z.date()),
+      counts: z.record(z.string(), z.number()),
+    }),
+  ],
+  [
+    "unions",
+    z.object({
+      either: z.union([z.string(), z.number()]).optional(),
+      shape: z
+        .discriminatedUnion("kind", [
+          z.object({ kind: z.literal("circle"), r: z.number() }),
+          z.object({ kind: z.literal("square"), a: z.number() }),
+        ])
+        .nullable(),
+    }),
+  ],
+  ["lazy", treeSchema],
+  [
+    "annotations",
+    z.object({
+      id: zs.varint(z.number()),
+      samples: zs.typedArray(Float32Array),
+      raw: zs.bytes(),
+      note: z.string().describe("free text"),
+    }),
+  ],
+];
+
+describe("exportSchema", () => {
+  it.each(schemas)("keeps the fingerprint of %s", (_, schema) => {
+    const imported = importSchema(exportSchema(schema));
+    expect(schemaFingerprint(imported)).toBe(schemaFingerprint(schema));
+    expect(schemaFingerprint(imported, "structural")).toBe(
+      schemaFingerprint(schema, "structural"),
+    );
+  });
+  it.each(schemas)("keeps the fingerprint of %s as JSON", (_, schema) => {
+    const json = JSON.parse(JSON.stringify(exportSchema(schema)));
+    expect(schemaFingerprint(importSchema(json))).toBe(
+      schemaFingerprint(schema),
+    );
+  });
+  it.each(schemas)("keeps the fingerprint of %s as binary", (_, schema) => {
+    const binary = exportSchema(schema, { format: "binary" });
+    expect(binary).toBeInstanceOf(ArrayBuffer);
+    expect(schemaFingerprint(importSchema(binary))).toBe(
+      schemaFingerprint(schema),
+    );
+  });
+  it("describes the schema as JSON", () => {
+    expect(
+      exportSchema(
+        z.object({
+          id: z.number().int(),
+          tags: z.array(z.enum(["a", "b"])).optional(),
+        }),
+      ),
+    ).toEqual({
+      type: "object",
+      shape: {
+        id: { type: "number", checks: [{ kind: "int" }] },
+        tags: {
+          type: "optional",
+          inner: {
+            type: "array",
+            element: { type: "enum", values: ["a", "b"] },
+          },
+        },
+      },
+    });
+    expect(exportSchema(treeSchema)).toMatchObject({
+      type: "lazy",
+      id: 0,
+      inner: {
+        shape: { children: { element: { type: "ref", id: 0 } } },
+      },
+    });
+  });
+  it("imports schemas that decode the buffers of the exported schema", () => {
+    const schema = z.object({
+      name: z.string(),
+      position: z.tuple([zs.varint(z.number().int()), z.number()]),
+      tree: treeSchema,
+    });
+    const value = {
+      name: "a",
+      position: [-3, 0.5],
+      tree: { name: "root", children: [{ name: "leaf", children: [] }] },
+    };
+    const imported = importSchema(exportSchema(schema));
+    const buffer = encode(schema, value);
+    expect(decode(imported, buffer)).toEqual(value);
+    expect(new Uint8Array(encode(imported, value))).toEqual(
+      new Uint8Array(buffer),
+    );
+  });
+  it("keeps the checks", () => {
+    const imported = importSchema(
+      JSON.parse(
+        JSON.stringify(
+          exportSchema(
+            z.object({
+              code: z.string().regex(/^[a-z]+$/i, "letters only"),
+              amount: z.bigint().max(10n),
+              items: z.array(z.string()).length(2),
+            }),
+          ),
+        ),
+      ),
+    );
+    expect(
+      imported.safeParse({ code: "aB", amount: 10n, items: ["a", "b"] })
+        .success,
+    ).toBe(true);
+    const result = imported.safeParse({ code: "a1", amount: 11n, items: [] });
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      "letters only",
+      "BigInt must be less than or equal to 10",
+      "Array must contain exactly 2 element(s)",
+    ]);
+  });
+  it("reports schemas that run code", () => {
+    const error = (() => {
+      try {
+        exportSchema(
+          z.object({
+            user: z.object({ name: z.string().refine((s) => s !== "root") }),
+          }),
+        );
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(ZodSerializeError);
+    expect(error).toMatchObject({
+      code: "UNSUPPORTED_SCHEMA",
+      path: ["user", "name"],
+    });
+    expect(() => exportSchema(z.string().transform(Number))).toThrow(
+      "transforms run code",
+    );
+    expect(() => exportSchema(z.number().default(1))).toThrow(
+      "ZodDefault schema cannot be exported",
+    );
+    expect(() => exportSchema(complexSchema)).toThrow(
+      "ZodIntersection schema cannot be exported (at foobar)",
+    );
+  });
+  it("reports the path of nested schemas that run code", () => {
+    const refined = z.string().refine((s) => s !== "root");
+    const cases: Array<[z.ZodTypeAny, Array<string | number>]> = [
+      [z.object({ tags: z.array(refined) }), ["tags", "element"]],
+      [z.set(refined), ["element"]],
+      [z.map(refined, z.number()), ["key"]],
+      [z.record(z.string(), z.array(refined)), ["value", "element"]],
+      [z.object({ name: refined.optional() }), ["name", "inner"]],
+      [refined.nullable().readonly(), ["inner", "inner"]],
+    ];
+    for (const [schema, path] of cases) {
+      expect(() => exportSchema(schema)).toThrow(
+        expect.objectContaining({ code: "UNSUPPORTED_SCHEMA", path }),
+      );
+    }
+  });
+  it("rejects invalid descriptors", () => {
+    expect(() => importSchema({ type: "nope" } as any)).toThrow(
+      ZodSerializeError,
+    );
+    expect(() => importSchema({ type: "ref", id: 0 })).toThrow(
+      "referenced before it is defined",
+    );
+    expect(() =>
+      importSchema({
+        type: "discriminatedUnion",
+        discriminator: "kind",
+        options: [{ type: "string" }],
+      }),
+    ).toThrow(ZodSerializeError);
+  });
+  it("rejects checks zod doesn't know", () => {
+    expect(() =>
+      importSchema({ type: "number", checks: [{ kind: "email" }] }),
+    ).toThrow(
+      expect.objectContaining({
+        code: "INVALID_VALUE",
+        message: expect.stringContaining('unknown number check "email"'),
+      }),
+    );
+  });
+});
@@ -0,0 +1,702 @@
+import z from "zod";
+import { createCodec, type DecodeInput, type IntegerEncoding } from "./codec";
+import { ZodSerializeError } from "./errors";
+import { annotate, BINARY_TYPES, getAnnotation } from "./annotations";
+
+/**
+ * a check of a string, number, bigint, date, array or set schema, e.g. `{ kind: "min", value: 3, inclusive: true }`
+ * bigint values are written as strings, regular expressions as their source with a `flags` entry
+ */
+export type SchemaCheck = Record<string, string | number | boolean | null>;
+
+type DescriptorBase = {
+  description?: string;
+  /** set by `zs.varint` and `zs.fixed` */
+  integers?: IntegerEncoding;
+};
+
+/**
+ * a zod schema as plain JSON, see `exportSchema`
+ */
+export type SchemaDescriptor = DescriptorBase &
+  (
+    | {
+        type: "string" | "number" | "bigint" | "boolean" | "date";
+        checks?: Array<SchemaCheck>;
+        coerce?: boolean;
+      }
+    | { type: "nan" | "null" | "undefined" }
+    | { type: "binary"; binary: string }
+    /** without a value the literal is undefined, bigint literals have their value as string */
+    | {
+        type: "literal";
+        value?: string | number | boolean | null;
+        bigint?: boolean;
+      }
+    | { type: "enum"; values: Array<string> }
+    | { type: "nativeEnum"; entries: Record<string, string | number> }
+    | {
+        type: "object";
+        shape: Record<string, SchemaDescriptor>;
+        unknownKeys?: "passthrough" | "strict";
+      }
+    | {
+        type: "array" | "set";
+        element: SchemaDescriptor;
+        checks?: Array<SchemaCheck>;
+      }
+    | { type: "tuple"; items: Array<SchemaDescriptor> }
+    | { type: "map" | "record"; key: SchemaDescriptor; value: SchemaDescriptor }
+    | { type: "union"; options: Array<SchemaDescriptor> }
+    | {
+        type: "discriminatedUnion";
+        discriminator: string;
+        options: Array<SchemaDescriptor>;
+      }
+    | { type: "optional" | "nullable" | "readonly"; inner: SchemaDescriptor }
+    /** the first occurrence of a lazy schema, later occurrences refer to it by the id */
+    | { type: "lazy"; id: number; inner: SchemaDescriptor }
+    | { type: "ref"; id: number }
+  );
+
+export type DescriptorFormat = "json" | "binary";
+
+const checkSchema = z.array(
+  z.record(
+    z.string(),
+    z.union([z.string(), z.number(), z.boolean(), z.null()]),
+  ),
+);
+
+const descriptorSchema: z.ZodType<SchemaDescriptor> = z.lazy(() => {
+  const base = z.object({
+    description: z.string().optional(),
+    integers: z.enum(["fixed", "varint"]).optional(),
+  });
+  return z.discriminatedUnion("type", [
+    base.extend({
+      type: z.enum(["string", "number", "bigint", "boolean", "date"]),
+      checks: checkSchema.optional(),
+      coerce: z.boolean().optional(),
+    }),
+    base.extend({ type: z.enum(["nan", "null", "undefined"]) }),
+    base.extend({ type: z.literal("binary"), binary: z.string() }),
+    base.extend({
+      type: z.literal("literal"),
+      value: z
+        .union([z.string(), z.number(), z.boolean(), z.null()])
+        .optional(),
+      bigint: z.boolean().optional(),
+    }),
+    base.extend({ type: z.literal("enum"), values: z.array(z.string()) }),
+    base.extend({
+      type: z.literal("nativeEnum"),
+      entries: z.record(z.string(), z.union([z.string(), z.number()])),
+    }),
+    base.extend({
+      type: z.literal("object"),
+      shape: z.record(z.string(), descriptorSchema),
+      unknownKeys: z.enum(["passthrough", "strict"]).optional(),
+    }),
+    base.extend({
+      type: z.enum(["array", "set"]),
+      element: descriptorSchema,
+      checks: checkSchema.optional(),
+    }),
+    base.extend({ type: z.literal("tuple"), items: z.array(descriptorSchema) }),
+    base.extend({
+      type: z.enum(["map", "record"]),
+      key: descriptorSchema,
+      value: descriptorSchema,
+    }),
+    base.extend({
+      type: z.literal("union"),
+      options: z.array(descriptorSchema),
+    }),
+    base.extend({
+      type: z.literal("discriminatedUnion"),
+      discriminator: z.string(),
+      options: z.array(descriptorSchema),
+    }),
+    base.extend({
+      type: z.enum(["optional", "nullable", "readonly"]),
+      inner: descriptorSchema,
+    }),
+    base.extend({
+      type: z.literal("lazy"),
+      id: z.number().int().nonnegative(),
+      inner: descriptorSchema,
+    }),
+    base.extend({
+      type: z.literal("ref"),
+      id: z.number().int().nonnegative(),
+    }),
+  ]);
+});
+
+const descriptorCodec = createCodec(descriptorSchema);
+
+type ExportContext = {
+  lazies: Array<z.ZodLazy<z.ZodTypeAny>>;
+  path: Array<string | number>;
+};
+
+const unsupported = (reason: string, ctx: ExportContext) =>
+  new ZodSerializeError("UNSUPPORTED_SCHEMA", reason, {
+    path: [...ctx.path],
+  });
+
+const exportChecks = (
+  checks: Array<Record<string, unknown>>,
+): Array<SchemaCheck> | undefined =>
+  checks.length === 0
+    ? undefined
+    : checks.map((check) => {
+        const exported: SchemaCheck = {};
+        for (const [key, value] of Object.entries(check)) {
+          if (value instanceof RegExp) {
+            exported[key] = value.source;
+            exported.flags = value.flags;
+          } else if (typeof value === "bigint") {
+            exported[key] = String(value);
+          } else if (value !== undefined) {
+            exported[key] = value as SchemaCheck[string];
+          }
+        }
+        return exported;
+      });
+
+// the length checks of arrays and sets are separate fields of the schema definition
+const exportLengthChecks = (
+  lengths: Record<string, { value: number; message?: string } | null>,
+): Array<SchemaCheck> | undefined =>
+  exportChecks(
+    Object.entries(lengths).flatMap(([kind, check]) =>
+      check ? [{ kind, ...check }] : [],
+    ),
+  );
+
+const nested = <T>(
+  ctx: ExportContext,
+  segment: string | number,
+  run: () => T,
+): T => {
+  ctx.path.push(segment);
+  const result = run();
+  ctx.path.pop();
+  return result;
+};
+
+const exportNode = (
+  schema: z.ZodTypeAny,
+  ctx: ExportContext,
+): SchemaDescriptor => {
+  const annotation = getAnnotation(schema);
+  const { description } = schema._def;
+  const descriptor = exportParts(schema, ctx);
+  return {
+    ...descriptor,
+    ...(description !== undefined && { description }),
+    ...(annotation?.integers && { integers: annotation.integers }),
+  };
+};
+
+const exportParts = (
+  schema: z.ZodTypeAny,
+  ctx: ExportContext,
+): SchemaDescriptor => {
+  const binary = getAnnotation(schema)?.binary;
+  const coerce = schema._def.coerce ? { coerce: true } : {};
+  switch (true) {
+    case binary !== undefined:
+      return { type: "binary", binary: binary.name };
+    case schema instanceof z.ZodString:
+      return {
+        type: "string",
+        checks: exportChecks(schema._def.checks),
+        ...coerce,
+      };
+    case schema instanceof z.ZodNumber:
+      return {
+        type: "number",
+        checks: exportChecks(schema._def.checks),
+        ...coerce,
+      };
+    case schema instanceof z.ZodBigInt:
+      return {
+        type: "bigint",
+        checks: exportChecks(schema._def.checks),
+        ...coerce,
+      };
+    case schema instanceof z.ZodDate:
+      return {
+        type: "date",
+        checks: exportChecks(schema._def.checks),
+        ...coerce,
+      };
+    case schema instanceof z.ZodBoolean:
+      return { type: "boolean", ...coerce };
+    case schema instanceof z.ZodNaN:
+      return { type: "nan" };
+    case schema instanceof z.ZodNull:
+      return { type: "null" };
+    case schema instanceof z.ZodUndefined:
+      return { type: "undefined" };
+    case schema instanceof z.ZodLiteral: {
+      const { value } = schema;
+      switch (typeof value) {
+        case "undefined":
+          return { type: "literal" };
+        case "bigint":
+          return { type: "literal", value: String(value), bigint: true };
+        case "string":
+        case "number":
+        case "boolean":
+          return { type: "literal", value };
+      }
+      if (value === null) {
+        return { type: "literal", value };
+      }
+      throw unsupported(`${typeof value} literals cannot be exported`, ctx);
+    }
+    case schema instanceof z.ZodEnum:
+      return { type: "enum", values: [...schema.options] };
+    case schema instanceof z.ZodNativeEnum:
+      return { type: "nativeEnum", entries: { ...schema.enum } };
+    case schema instanceof z.ZodObject: {
+      const { unknownKeys, catchall } = schema._def;
+      if (!(catchall instanceof z.ZodNever)) {
+        throw unsupported("the catchall of objects cannot be exported", ctx);
+      }
+      return {
+        type: "object",
+        shape: Object.fromEntries(
+          Object.entries(schema.shape as z.ZodRawShape).map(([key, field]) => [
+            key,
+            nested(ctx, key, () => exportNode(field, ctx)),
+          ]),
+        ),
+        ...(unknownKeys !== "strip" && { unknownKeys }),
+      };
+    }
+    case schema instanceof z.ZodArray: {
+      const { minLength, maxLength, exactLength } = schema._def;
+      return {
+        type: "array",
+        element: nested(ctx, "element", () => exportNode(schema.element, ctx)),
+        checks: exportLengthChecks({
+          min: minLength,
+          max: maxLength,
+          length: exactLength,
+        }),
+      };
+    }
+    case schema instanceof z.ZodSet: {
+      const { valueType, minSize, maxSize } = schema._def;
+      return {
+        type: "set",
+        element: nested(ctx, "element", () => exportNode(valueType, ctx)),
+        checks: exportLengthChecks({ min: minSize, max: maxSize }),
+      };
+    }
+    case schema instanceof z.ZodTuple:
+      if (schema._def.rest) {
+        throw unsupported("the rest of tuples cannot be exported", ctx);
+      }
+      return {
+        type: "tuple",
+        items: (schema as z.ZodTuple).items.map((item, index) =>
+          nested(ctx, index, () => exportNode(item, ctx)),
+        ),
+      };
+    case schema instanceof z.ZodMap:
+    case schema instanceof z.ZodRecord:
+      return {
+        type: schema instanceof z.ZodMap ? "map" : "record",
+        key: nested(ctx, "key", () => exportNode(schema.keySchema, ctx)),
+        value: nested(ctx, "value", () => exportNode(schema.valueSchema, ctx)),
+      };
+    case schema instanceof z.ZodUnion:
+    case schema instanceof z.ZodDiscriminatedUnion: {
+      const options = (schema.options as Array<z.ZodTypeAny>).map(
+        (option, index) => nested(ctx, index, () => exportNode(option, ctx)),
+      );
+      return schema instanceof z.ZodDiscriminatedUnion
+        ? {
+            type: "discriminatedUnion",
+            discriminator: schema.discriminator,
+            options,
+          }
+        : { type: "union", options };
+    }
+    case schema instanceof z.ZodOptional:
+      return {
+        type: "optional",
+        inner: nested(ctx, "inner", () => exportNode(schema.unwrap(), ctx)),
+      };
+    case schema instanceof z.ZodNullable:
+      return {
+        type: "nullable",
+        inner: nested(ctx, "inner", () => exportNode(schema.unwrap(), ctx)),
+      };
+    case schema instanceof z.ZodReadonly:
+      return {
+        type: "readonly",
+        inner: nested(ctx, "inner", () => exportNode(schema.unwrap(), ctx)),
+      };
+    // brands only exist in the types
+    case schema instanceof z.ZodBranded:
+      return exportNode(schema.unwrap(), ctx);
+    case schema instanceof z.ZodLazy: {
+      const id = ctx.lazies.indexOf(schema);
+      if (id !== -1) {
+        return { type: "ref", id };
+      }
+      ctx.lazies.push(schema);
+      return {
+        type: "lazy",
+        id: ctx.lazies.length - 1,
+        inner: exportNode(schema.schema, ctx),
+      };
+    }
+    case schema instanceof z.ZodEffects:
+      throw unsupported(
+        `${schema._def.effect.type}s run code and cannot be exported`,
+        ctx,
+      );
+  }
+  throw unsupported(
+    `${schema.constructor.name} schema cannot be exported`,
+    ctx,
+  );
+};
+
+/**
+ * turn the schema into a descriptor that other processes or languages can read buffers with
+ * ```ts
+ *   const descriptor = exportSchema(playerSchema);
+ *   // in another process
+ *   const playerSchema = importSchema(descriptor);
+ * ```
+ * checks like `.min()` or `.email()` are kept, schemas that run code (refinements, transforms, preprocess)
+ * and defaults, catch, pipelines, intersections, tuple rests and object catchalls fail with UNSUPPORTED_SCHEMA
+ * @param schema zod schema
+ * @param options format: "json" for a JSON serializable object, "binary" for the descriptor encoded as ArrayBuffer
+ */
+export const exportSchema = <F extends DescriptorFormat = "json">(
+  schema: z.ZodTypeAny,
+  { format }: { format?: F } = {},
+): F extends "binary" ? ArrayBuffer : SchemaDescriptor => {
+  const descriptor = exportNode(schema, { lazies: [], path: [] });
+  return (
+    format === "binary" ? descriptorCodec.encode(descriptor) : descriptor
+  ) as F extends "binary" ? ArrayBuffer : SchemaDescriptor;
+};
+
+type ImportContext = { lazies: Array<z.ZodLazy<z.ZodTypeAny>> };
+
+const invalid = (reason: string) =>
+  new ZodSerializeError("INVALID_VALUE", reason);
+
+type ImportedCheck =
+  z.ZodStringCheck | z.ZodNumberCheck | z.ZodBigIntCheck | z.ZodDateCheck;
+
+// the kinds of checks zod runs for each type, it fails at parse time on other kinds
+const CHECK_KINDS: Record<
+  "string" | "number" | "bigint" | "date",
+  ReadonlySet<string>
+> = {
+  string: new Set<z.ZodStringCheck["kind"]>([
+    "min",
+    "max",
+    "length",
+    "email",
+    "url",
+    "emoji",
+    "uuid",
+    "nanoid",
+    "cuid",
+    "includes",
+    "cuid2",
+    "ulid",
+    "startsWith",
+    "endsWith",
+    "regex",
+    "trim",
+    "toLowerCase",
+    "toUpperCase",
+    "jwt",
+    "datetime",
+    "date",
+    "time",
+    "duration",
+    "ip",
+    "cidr",
+    "base64",
+    "base64url",
+  ]),
+  number: new Set<z.ZodNumberCheck["kind"]>([
+    "min",
+    "max",
+    "int",
+    "multipleOf",
+    "finite",
+  ]),
+  bigint: new Set<z.ZodBigIntCheck["kind"]>(["min", "max", "multipleOf"]),
+  date: new Set<z.ZodDateCheck["kind"]>(["min", "max"]),
+};
+
+const importChecks = (
+  checks: Array<SchemaCheck> | undefined,
+  type: keyof typeof CHECK_KINDS,
+): Array<ImportedCheck> =>
+  (checks ?? []).map(({ flags, ...check }) => {
+    if (typeof check.kind !== "string") {
+      throw invalid("checks need a kind");
+    }
+    if (!CHECK_KINDS[type].has(check.kind)) {
+      throw invalid(`unknown ${type} check ${JSON.stringify(check.kind)}`);
+    }
+    const imported: Record<string, unknown> = { ...check };
+    if (check.kind === "regex") {
+      imported.regex = new RegExp(
+        String(check.regex),
+        typeof flags === "string" ? flags : "",
+      );
+    } else if (type === "bigint" && check.value !== undefined) {
+      imported.value = BigInt(String(check.value));
+    }
+    // the fields were exported from a check of the same kind, zod runs it like its own
+    return imported as ImportedCheck;
+  });
+
+// apply the length checks with the methods of the schema, so the messages are built the way zod does
+const importLengthChecks = <
+  T extends z.ZodArray<z.ZodTypeAny> | z.ZodSet<z.ZodTypeAny>,
+>(
+  schema: T,
+  checks: Array<SchemaCheck> | undefined,
+): T =>
+  (checks ?? []).reduce((checked: T, { kind, value, message }) => {
+    if (typeof value !== "number") {
+      throw invalid(`length check ${kind} needs a number`);
+    }
+    const text = typeof message === "string" ? message : undefined;
+    switch (true) {
+      case kind === "min":
+        return checked.min(value, text) as T;
+      case kind === "max":
+        return checked.max(value, text) as T;
+      case kind === "length" && checked instanceof z.ZodArray:
+        return checked.length(value, text) as T;
+    }
+    throw invalid(`unknown length check ${kind}`);
+  }, schema);
+
+const decorate = (
+  schema: z.ZodTypeAny,
+  { description, integers }: DescriptorBase,
+): z.ZodTypeAny => {
+  if (description === undefined && !integers) {
+    return schema;
+  }
+  // describe copies the schema without its annotation
+  const described =
+    description !== undefined ? schema.describe(description) : schema;
+  return annotate(described, {
+    ...getAnnotation(schema),
+    ...(integers && { integers }),
+  });
+};
+
+// lazy schemas decorate themselves before their inner schema can refer to them
+const importNode = (
+  descriptor: SchemaDescriptor,
+  ctx: ImportContext,
+): z.ZodTypeAny =>
+  descriptor.type === "lazy"
+    ? importParts(descriptor, ctx)
+    : decorate(importParts(descriptor, ctx), descriptor);
+
+const PRIMITIVES = {
+  string: z.string,
+  number: z.number,
+  bigint: z.bigint,
+  boolean: z.boolean,
+  date: z.date,
+};
+
+const importParts = (
+  descriptor: SchemaDescriptor,
+  ctx: ImportContext,
+): z.ZodTypeAny => {
+  switch (descriptor.type) {
+    case "string":
+    case "number":
+    case "bigint":
+    case "boolean":
+    case "date": {
+      const create = PRIMITIVES[descriptor.type] as (params: {
+        coerce: boolean;
+      }) => z.ZodTypeAny;
+      const schema = create({ coerce: descriptor.coerce ?? false });
+      const Schema = schema.constructor as new (def: unknown) => z.ZodTypeAny;
+      return descriptor.type === "boolean"
+        ? schema
+        : new Schema({
+            ...schema._def,
+            checks: importChecks(descriptor.checks, descriptor.type),
+          });
+    }
+    case "nan":
+      return z.nan();
+    case "null":
+      return z.null();
+    case "undefined":
+      return z.undefined();
+    case "binary": {
+      const binary = BINARY_TYPES.find(
+        (type) => type.name === descriptor.binary,
+      );
+      if (!binary) {
+        throw invalid(`unknown binary type ${descriptor.binary}`);
+      }
+      return annotate(z.instanceof(binary), { binary });
+    }
+    case "literal":
+      return z.literal(
+        descriptor.bigint
+          ? BigInt(descriptor.value as string)
+          : descriptor.value,
+      );
+    case "enum":
+      return z.enum(descriptor.values as [string, ...Array<string>]);
+    case "nativeEnum":
+      return z.nativeEnum(descriptor.entries as z.EnumLike);
+    case "object": {
+      const schema = z.object(
+        Object.fromEntries(
+          Object.entries(descriptor.shape).map(([key, field]) => [
+            key,
+            importNode(field, ctx),
+          ]),
+        ),
+      );
+      switch (descriptor.unknownKeys) {
+        case "passthrough":
+          return schema.passthrough();
+        case "strict":
+          return schema.strict();
+      }
+      return schema;
+    }
+    case "array":
+      return importLengthChecks(
+        z.array(importNode(descriptor.element, ctx)),
+        descriptor.checks,
+      );
+    case "set":
+      return importLengthChecks(
+        z.set(importNode(descriptor.element, ctx)),
+        descriptor.checks,
+      );
+    case "tuple":
+      return z.tuple(
+        descriptor.items.map((item) => importNode(item, ctx)) as [
+          z.ZodTypeAny,
+          ...Array<z.ZodTypeAny>,
+        ],
+      );
+    case "map":
+      return z.map(
+        importNode(descriptor.key, ctx),
+        importNode(descriptor.value, ctx),
+      );
+    case "record":
+      return z.record(
+        importNode(descriptor.key, ctx) as z.KeySchema,
+        importNode(descriptor.value, ctx),
+      );
+    case "union":
+      return z.union(
+        descriptor.options.map((option) => importNode(option, ctx)) as [
+          z.ZodTypeAny,
+          z.ZodTypeAny,
+          ...Array<z.ZodTypeAny>,
+        ],
+      );
+    case "discriminatedUnion":
+      return z.discriminatedUnion(
+        descriptor.discriminator,
+        descriptor.options.map((option) => importNode(option, ctx)) as [
+          z.ZodDiscriminatedUnionOption<string>,
+          ...Array<z.ZodDiscriminatedUnionOption<string>>,
+        ],
+      );
+    case "optional":
+      return importNode(descriptor.inner, ctx).optional();
+    case "nullable":
+      return importNode(descriptor.inner, ctx).nullable();
+    case "readonly":
+      return importNode(descriptor.inner, ctx).readonly();
+    case "lazy": {
+      if (descriptor.id !== ctx.lazies.length) {
+        throw invalid(`lazy schema ${descriptor.id} is out of order`);
+      }
+      let inner: z.ZodTypeAny | undefined;
+      const schema = decorate(
+        z.lazy(() => inner!),
+        descriptor,
+      ) as z.ZodLazy<z.ZodTypeAny>;
+      ctx.lazies.push(schema);
+      inner = importNode(descriptor.inner, ctx);
+      return schema;
+    }
+    case "ref": {
+      const schema = ctx.lazies[descriptor.id];
+      if (!schema) {
+        throw invalid(
+          `lazy schema ${descriptor.id} is referenced before it is defined`,
+        );
+      }
+      return schema;
+    }
+  }
+};
+
+/**
+ * rebuild a zod schema from the descriptor of `exportSchema`, it has the same fingerprint as the exported schema
+ * @param descriptor the JSON descriptor or the binary descriptor
+ */
+export const importSchema = (
+  descriptor: SchemaDescriptor | DecodeInput,
+): z.ZodTypeAny => {
+  const input =
+    descriptor instanceof ArrayBuffer ||
+    descriptor instanceof SharedArrayBuffer ||
+    ArrayBuffer.isView(descriptor)
+      ? descriptorCodec.decode(descriptor)
+      : descriptor;
+  const parsed = descriptorSchema.safeParse(input);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `invalid schema descriptor: ${issue.message}`,
+      { path: [...issue.path], cause: parsed.error },
+    );
+  }
+  try {
+    return importNode(parsed.data, { lazies: [] });
+  } catch (error) {
+    if (error instanceof ZodSerializeError) {
+      throw error;
+    }
+    // e.g. a discriminated union whose options don't have the discriminator
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `invalid schema descriptor: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import { encode, open, seal, type SealKey } from ".";
+
+const sessionSchema = z.object({
+  userId: z.number(),
+  name: z.string(),
+  admin: z.boolean(),
+});
+const session = { userId: 7, name: "alice", admin: false };
+
+const bytes = (length: number, fill: number) =>
+  new Uint8Array(length).fill(fill);
+const key: SealKey = { id: 1, signing: bytes(32, 1) };
+const encryptingKey: SealKey = {
+  id: 2,
+  signing: bytes(32, 2),
+  encryption: bytes(32, 3),
+};
+
+describe("envelope", () => {
+  it("signs the encoded value", async () => {
+    const sealed = new Uint8Array(await seal(sessionSchema, session, key));
+    const encoded = new Uint8Array(encode(sessionSchema, session));
+    expect(sealed.byteLength).toBe(2 + encoded.byteLength + 32);
+    expect(sealed.subarray(0, 2)).toEqual(new Uint8Array([1, 0]));
+    expect(sealed.subarray(2, 2 + encoded.byteLength)).toEqual(encoded);
+    expect(await open(sessionSchema, sealed, key)).toEqual(session);
+  });
+
+  it("encrypts the value with a random IV", async () => {
+    const first = new Uint8Array(
+      await seal(sessionSchema, session, encryptingKey),
+    );
+    const second = new Uint8Array(
+      await seal(sessionSchema, session, encryptingKey),
+    );
+    expect(first[1]).toBe(1);
+    expect(first).not.toEqual(second);
+    // the name is not readable
+    expect(new TextDecoder().decode(first)).not.toContain("alice");
+    expect(await open(sessionSchema, first, encryptingKey)).toEqual(session);
+    expect(await open(sessionSchema, second, encryptingKey)).toEqual(session);
+  });
+
+  it("accepts CryptoKeys", async () => {
+    const cryptoKey: SealKey = {
+      id: 3,
+      signing: await crypto.subtle.generateKey(
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      ),
+      encryption: await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 128 },
+        false,
+        ["encrypt", "decrypt"],
+      ),
+    };
+    const sealed = await seal(sessionSchema, session, cryptoKey);
+    expect(await open(sessionSchema, sealed, cryptoKey)).toEqual(session);
+  });
+
+  it("picks the key by its id while keys are rotated", async () => {
+    const next: SealKey = { id: 4, signing: bytes(32, 4) };
+    const keys = [next, key, encryptingKey];
+    for (const sealingKey of keys) {
+      const sealed = await seal(sessionSchema, session, sealingKey);
+      expect(await open(sessionSchema, sealed, keys)).toEqual(session);
+    }
+    const old = await seal(sessionSchema, session, key);
+    await expect(open(sessionSchema, old, [next])).rejects.toThrow(
+      expect.objectContaining({ code: "INVALID_SIGNATURE" }),
+    );
+  });
+
+  it("rejects changed values and other keys", async () => {
+    for (const sealingKey of [key, encryptingKey]) {
+      const sealed = new Uint8Array(
+        await seal(sessionSchema, session, sealingKey),
+      );
+      for (const index of [
+        1,
+        5,
+        sealed.byteLength - 33,
+        sealed.byteLength - 1,
+      ]) {
+        const changed = sealed.slice();
+        changed[index] ^= 1;
+        await expect(open(sessionSchema, changed, sealingKey)).rejects.toThrow(
+          expect.objectContaining({ code: "INVALID_SIGNATURE" }),
+        );
+      }
+      const otherKey = { ...sealingKey, signing: bytes(32, 9) };
+      await expect(open(sessionSchema, sealed, otherKey)).rejects.toThrow(
+        expect.objectContaining({ code: "INVALID_SIGNATURE" }),
+      );
+    }
+  });
+
+  it("tells bad signatures apart from other schemas", async () => {
+    const sealed = await seal(sessionSchema, session, key);
+    await expect(
+      open(z.object({ userId: z.number() }), sealed, key),
+    ).rejects.toThrow(expect.objectContaining({ code: "SCHEMA_MISMATCH" }));
+  });
+
+  it("rejects short buffers and invalid key ids", async () => {
+    await expect(open(sessionSchema, bytes(20, 0), key)).rejects.toThrow(
+      expect.objectContaining({ code: "TRUNCATED" }),
+    );
+    await expect(
+      seal(sessionSchema, session, { ...key, id: 256 }),
+    ).rejects.toThrow(expect.objectContaining({ code: "INVALID_VALUE" }));
+    await expect(
+      seal(sessionSchema, { ...session, admin: "yes" }, key),
+    ).rejects.toThrow(expect.objectContaining({ code: "INVALID_VALUE" }));
+  });
+});
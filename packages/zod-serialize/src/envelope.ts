@@ -0,0 +1,202 @@
+import type z from "zod";
+import { decode, encode, type DecodeInput, type DecodeOptions } from "./index";
+import { ZodSerializeError } from "./errors";
+import {
+  createWriter,
+  toArrayBuffer,
+  toBytes,
+  writeBytes,
+  writeUint8,
+} from "./writer";
+
+const TAG_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// bits of the flags byte
+enum EnvelopeFlags {
+  Encrypted = 0x01,
+}
+
+/**
+ * a key of sealed values
+ * - id: written into the envelope so `open` picks the key the value was sealed with, 0 to 255
+ * - signing: the HMAC-SHA256 key, raw bytes or a CryptoKey that can sign and verify
+ * - encryption: the AES-GCM key, raw bytes (16 or 32) or a CryptoKey that can encrypt and decrypt.
+ *   values are only encrypted with it, they are signed either way
+ */
+export type SealKey = {
+  id: number;
+  signing: CryptoKey | Uint8Array;
+  encryption?: CryptoKey | Uint8Array;
+};
+
+type ImportedKey = { signing: CryptoKey; encryption?: CryptoKey };
+
+// raw keys are imported once per key object
+const importedKeys = new WeakMap<SealKey, Promise<ImportedKey>>();
+
+const importKey = (key: SealKey): Promise<ImportedKey> => {
+  let imported = importedKeys.get(key);
+  if (!imported) {
+    imported = Promise.all([
+      key.signing instanceof Uint8Array
+        ? crypto.subtle.importKey(
+            "raw",
+            key.signing,
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["sign", "verify"],
+          )
+        : key.signing,
+      key.encryption instanceof Uint8Array
+        ? crypto.subtle.importKey("raw", key.encryption, "AES-GCM", false, [
+            "encrypt",
+            "decrypt",
+          ])
+        : key.encryption,
+    ]).then(([signing, encryption]) => ({ signing, encryption }));
+    importedKeys.set(key, imported);
+  }
+  return imported;
+};
+
+const checkKeyId = (id: number): void => {
+  if (!Number.isInteger(id) || id < 0 || id > 0xff) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `key id ${id} is not a byte, it has to be an integer from 0 to 255`,
+    );
+  }
+};
+
+/**
+ * encode a value and sign it, so it can be handed to others (cookies, tokens, third parties) and checked when it comes back
+ * ```ts
+ *   const key = { id: 1, signing: secret };
+ *   response.setCookie("session", toBase64(await seal(sessionSchema, session, key)));
+ *   const session = await open(sessionSchema, fromBase64(cookie), [key, previousKey]);
+ * ```
+ * - 1 byte: the id of the key
+ * - 1 byte: flags, bit 0 is set if the value is encrypted
+ * - 12 bytes: the random IV of AES-GCM, only for encrypted values
+ * - the value as written by `encode` (header and body), encrypted with AES-GCM if the key has an encryption key
+ * - 32 bytes: the HMAC-SHA256 of everything in front of it
+ * @param schema zod schema of the value
+ * @param input the value to seal
+ * @param key the key the value is signed with and, if it has one, encrypted with
+ * @returns the sealed value
+ */
+export const seal = async <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+  key: SealKey,
+): Promise<ArrayBuffer> => {
+  checkKeyId(key.id);
+  const encoded = new Uint8Array(encode(schema, input));
+  const { signing, encryption } = await importKey(key);
+  const writer = createWriter(2 + IV_LENGTH + encoded.byteLength + 16 + 32);
+  writeUint8(writer, key.id);
+  if (encryption) {
+    writeUint8(writer, EnvelopeFlags.Encrypted);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    writeBytes(writer, iv);
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      encryption,
+      encoded,
+    );
+    writeBytes(writer, new Uint8Array(encrypted));
+  } else {
+    writeUint8(writer, 0);
+    writeBytes(writer, encoded);
+  }
+  const tag = await crypto.subtle.sign(
+    "HMAC",
+    signing,
+    writer.bytes.subarray(0, writer.offset),
+  );
+  writeBytes(writer, new Uint8Array(tag));
+  return toArrayBuffer(writer);
+};
+
+/**
+ * check the signature of a sealed value, decrypt it and decode it
+ * fails with INVALID_SIGNATURE if the value was changed, sealed with another key or with a key id that is not in `keys`.
+ * only values with a valid signature are decoded, they fail with SCHEMA_MISMATCH if they were sealed with another schema
+ * @param schema zod schema of the value
+ * @param buffer the sealed value
+ * @param keys the keys the value may be sealed with, picked by their id, e.g. the current and the previous key while keys are rotated
+ * @param options decode options, they apply to the value inside the envelope
+ */
+export const open = async <T>(
+  schema: z.ZodType<T>,
+  buffer: DecodeInput,
+  keys: SealKey | Array<SealKey>,
+  options?: DecodeOptions,
+): Promise<T> => {
+  const bytes = toBytes(buffer);
+  if (bytes.byteLength < 2 + TAG_LENGTH) {
+    throw new ZodSerializeError(
+      "TRUNCATED",
+      `a sealed value has at least ${2 + TAG_LENGTH} bytes but the buffer has ${bytes.byteLength}`,
+    );
+  }
+  const [id, flags] = bytes;
+  const key = (Array.isArray(keys) ? keys : [keys]).find(
+    (candidate) => candidate.id === id,
+  );
+  if (!key) {
+    throw new ZodSerializeError(
+      "INVALID_SIGNATURE",
+      `the value was sealed with key ${id} which is not one of the keys`,
+      { offset: 0 },
+    );
+  }
+  const { signing, encryption } = await importKey(key);
+  const signed = bytes.subarray(0, bytes.byteLength - TAG_LENGTH);
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    signing,
+    bytes.subarray(signed.byteLength),
+    signed,
+  );
+  if (!valid) {
+    throw new ZodSerializeError(
+      "INVALID_SIGNATURE",
+      "the signature does not match, the value was changed or sealed with another key",
+      { offset: signed.byteLength },
+    );
+  }
+  if (flags & ~EnvelopeFlags.Encrypted) {
+    throw new ZodSerializeError(
+      "INVALID_VALUE",
+      `unknown envelope flags ${flags}`,
+      { offset: 1 },
+    );
+  }
+  if (!(flags & EnvelopeFlags.Encrypted)) {
+    return decode(schema, signed.subarray(2), options);
+  }
+  if (!encryption) {
+    throw new ZodSerializeError(
+      "INVALID_SIGNATURE",
+      `the value is encrypted but key ${id} has no encryption key`,
+      { offset: 1 },
+    );
+  }
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: signed.subarray(2, 2 + IV_LENGTH) },
+      encryption,
+      signed.subarray(2 + IV_LENGTH),
+    );
+  } catch (error) {
+    throw new ZodSerializeError(
+      "INVALID_SIGNATURE",
+      "the value can't be decrypted with the encryption key",
+      { offset: 2, cause: error },
+    );
+  }
+  return decode(schema, decrypted, options);
+};
@@ -0,0 +1,105 @@
+/**
+ * - SCHEMA_MISMATCH: the buffer was encoded with another schema (or the data doesn't fit the schema)
+ * - PROTOCOL_VERSION: the buffer was encoded by an incompatible version of zod-serialize
+ * - TRUNCATED: the buffer ends before the encoded value
+ * - LIMIT_EXCEEDED: a value or a buffer is bigger than what can be encoded or what is allowed
+ * - UNSUPPORTED_SCHEMA: the schema (or a part of it) can't be encoded, e.g. z.any()
+ * - INVALID_VALUE: the value doesn't match the schema or the encoded value is malformed
+ * - INVALID_SIGNATURE: a sealed value was changed or sealed with a key that is not known (see `open`)
+ */
+export type ZodSerializeErrorCode =
+  | "SCHEMA_MISMATCH"
+  | "PROTOCOL_VERSION"
+  | "TRUNCATED"
+  | "LIMIT_EXCEEDED"
+  | "UNSUPPORTED_SCHEMA"
+  | "INVALID_VALUE"
+  | "INVALID_SIGNATURE";
+
+export type ZodSerializeErrorOptions = {
+  path?: Array<string | number>;
+  offset?: number;
+  cause?: unknown;
+};
+
+/**
+ * players[3].x
+ */
+export const formatPath = (path: Array<string | number>): string =>
+  path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`,
+    )
+    .join("");
+
+const formatMessage = (reason: string, path: Array<string | number>) =>
+  path.length > 0 ? `${reason} (at ${formatPath(path)})` : reason;
+
+/**
+ * error of everything that goes wrong while encoding or decoding
+ * - code: stable identifier of the kind of failure
+ * - reason: the message without the path
+ * - path: the field the failure happened at, e.g. ["players", 3, "x"]
+ * - offset: position in the buffer where the failure happened (in the encoded output when encoding)
+ */
+export class ZodSerializeError extends Error {
+  readonly code: ZodSerializeErrorCode;
+  readonly reason: string;
+  readonly path: Array<string | number>;
+  offset: number | undefined;
+
+  constructor(
+    code: ZodSerializeErrorCode,
+    reason: string,
+    { path = [], offset, cause }: ZodSerializeErrorOptions = {},
+  ) {
+    super(formatMessage(reason, path), { cause });
+    this.name = "ZodSerializeError";
+    this.code = code;
+    this.reason = reason;
+    this.path = path;
+    this.offset = offset;
+  }
+}
+
+/**
+ * the result of `safeEncode` and `safeDecode`, shaped like the result of zod's `safeParse`
+ */
+export type SafeResult<T> =
+  | { success: true; data: T; error?: never }
+  | { success: false; data?: never; error: ZodSerializeError };
+
+/**
+ * turn anything that was thrown into a ZodSerializeError
+ * @param error the thrown value
+ * @param code code for errors that are not ZodSerializeErrors yet
+ * @param offset position in the buffer, kept if the error already has one
+ */
+export const toSerializeError = (
+  error: unknown,
+  code: ZodSerializeErrorCode,
+  offset?: number,
+): ZodSerializeError => {
+  if (error instanceof ZodSerializeError) {
+    error.offset ??= offset;
+    return error;
+  }
+  const reason = error instanceof Error ? error.message : String(error);
+  return new ZodSerializeError(code, reason, { offset, cause: error });
+};
+
+/**
+ * add the field to the front of the path while the error bubbles up through objects, arrays and maps
+ */
+export const prependPath = (
+  error: ZodSerializeError,
+  segment: string | number,
+): ZodSerializeError => {
+  error.path.unshift(segment);
+  error.message = formatMessage(error.reason, error.path);
+  return error;
+};
@@ -0,0 +1,408 @@
+import z from "zod";
+import * as zs from "./zs";
+
+export const complexSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string().email(),
+  isAdmin: z.boolean(),
+  roles: z.array(z.enum(["admin", "mod"])),
+  lastLogin: z.date(),
+  birthDate: z.date().optional(),
+  things: z.array(z.string()).nullable(),
+  fooUnion: z.union([z.string(), z.number()]),
+  fooDiscriminatedUnion: z.discriminatedUnion("foo", [
+    z.object({ foo: z.literal("foo"), bar: z.number() }),
+    z.object({ foo: z.literal("bar"), baz: z.string() }),
+  ]),
+  nesting: z.object({
+    foo: z.object({
+      bar: z.object({
+        baz: z.string(),
+      }),
+    }),
+  }),
+  tuple: z.tuple([z.string(), z.number()]),
+  tuple2: z.tuple([z.string(), z.number()]).readonly(),
+  set: z.set(z.string()),
+  map: z.map(z.number(), z.number()),
+  record: z.record(z.string(), z.number()),
+  foobar: z.object({ foo: z.string() }).and(z.object({ bar: z.string() })),
+  related: z.array(
+    z.object({
+      id: z.nan(),
+      age: z.number(),
+      name: z.string(),
+    }),
+  ),
+});
+
+export const complexValue: z.infer<typeof complexSchema> = {
+  id: -3,
+  name: "aaaaa",
+  email: "aaaaaa@aa.com",
+  isAdmin: true,
+  roles: ["admin", "mod", "admin"],
+  lastLogin: new Date("2024-01-01"),
+  birthDate: undefined,
+  things: null,
+  fooUnion: "",
+  nesting: {
+    foo: {
+      bar: {
+        baz: "baz",
+      },
+    },
+  },
+  fooDiscriminatedUnion: { foo: "foo", bar: 3 },
+  set: new Set(["foo", "bar"]),
+  tuple: ["foo", 3],
+  tuple2: ["foo", 3],
+  foobar: { foo: "foo", bar: "bar" },
+  map: new Map([
+    [1, 2],
+    [3, 4],
+  ]),
+  record: {
+    foo: 1,
+    bar: 2,
+  },
+  related: [
+    {
+      id: NaN,
+      age: Infinity,
+      name: "",
+    },
+    {
+      id: NaN,
+      age: 1234567890,
+      name: "asdfajslkdföjdskfjölsdjökdlajöflkjasöfjsdalk😀",
+    },
+  ],
+};
+
+enum StringEnum {
+  Hello = "hello",
+  World = "world",
+}
+
+enum NumericEnum {
+  Hello,
+  World,
+}
+
+enum MixedEnum {
+  Hello,
+  World = "world",
+}
+
+let treeSchema: z.ZodObject<any>;
+const branchSchema = z.object({
+  bar: z.string(),
+  recursive: z.lazy(() => treeSchema).optional(),
+});
+treeSchema = z.object({ foo: branchSchema });
+
+type CodecFixture = {
+  schema: z.ZodTypeAny;
+  values: Array<unknown>;
+  /**
+   * the values decoding returns, if parsing changes them
+   */
+  decoded?: Array<unknown>;
+};
+
+const literals = (length: number) =>
+  Array.from({ length }).map((_, i) => z.literal(i)) as unknown as [
+    z.ZodLiteral<number>,
+    z.ZodLiteral<number>,
+    ...z.ZodLiteral<number>[],
+  ];
+
+/**
+ * the schemas of the e2e tests with the values they round trip, shared by the tests of the other encoders
+ */
+export const codecFixtures: Record<string, CodecFixture> = {
+  string: {
+    schema: z.string(),
+    values: ["hello", "", "hello".repeat(2000), "x".repeat(2 ** 20 + 1)],
+  },
+  coercedString: {
+    schema: z.coerce.string(),
+    values: [33, "foo"],
+    decoded: ["33", "foo"],
+  },
+  number: {
+    schema: z.number(),
+    values: [
+      42,
+      2 ** 10,
+      2 ** 20,
+      2 ** 24,
+      2 ** 35,
+      2 ** 40,
+      -33,
+      1.5,
+      3.141,
+      Infinity,
+      -Infinity,
+    ],
+  },
+  nan: { schema: z.nan(), values: [NaN] },
+  bigint: {
+    schema: z.bigint(),
+    values: [2n ** 35n, 2n ** 40n, 2n ** 63n - 1n, -(2n ** 63n)],
+  },
+  coercedNumber: {
+    schema: z.coerce.number(),
+    values: ["22", 3, new Date("2024-01-01")],
+    decoded: [22, 3, +new Date("2024-01-01")],
+  },
+  coercedBigint: {
+    schema: z.coerce.bigint(),
+    values: ["22"],
+    decoded: [22n],
+  },
+  boolean: { schema: z.boolean(), values: [true, false] },
+  coercedBoolean: {
+    schema: z.coerce.boolean(),
+    values: [1, ""],
+    decoded: [true, false],
+  },
+  date: { schema: z.date(), values: [new Date("2024-01-01")] },
+  coercedDate: {
+    schema: z.coerce.date(),
+    values: ["2024-01-01", 946684800000],
+    decoded: [new Date("2024-01-01"), new Date("2000-01-01")],
+  },
+  undefined: { schema: z.undefined(), values: [undefined] },
+  null: { schema: z.null(), values: [null] },
+  optional: { schema: z.string().optional(), values: ["foo", undefined] },
+  nullable: { schema: z.string().nullable(), values: ["foo", null] },
+  nullish: { schema: z.string().nullish(), values: ["foo", null, undefined] },
+  array: {
+    schema: z.array(z.string()),
+    values: [[], ["hello", "world"], Array.from({ length: 2 ** 10 }, String)],
+  },
+  numberArray: {
+    schema: z.array(z.number()),
+    values: [
+      Array.from({ length: 500 }, (_, i) => i),
+      Array.from({ length: 5_000 }, (_, i) => i),
+    ],
+  },
+  set: {
+    schema: z.set(z.number()),
+    values: [
+      new Set([1, 2, 3]),
+      new Set(Array.from({ length: 10_000 }, (_, i) => i)),
+    ],
+  },
+  stringSet: { schema: z.set(z.string()), values: [new Set(["hello"])] },
+  tuple: { schema: z.tuple([z.string(), z.number()]), values: [["foo", 3]] },
+  object: {
+    schema: z.object({
+      string: z.string(),
+      optional: z.string().optional(),
+      nullish: z.string().nullish(),
+    }),
+    values: [
+      { string: "hello", optional: "world", nullish: null },
+      { string: "hello", optional: undefined, nullish: "world" },
+      { string: "hello" },
+    ],
+  },
+  map: {
+    schema: z.map(z.string(), z.number()),
+    values: [
+      new Map([
+        ["hello", 33],
+        ["world", 44],
+      ]),
+      new Map(Array.from({ length: 2 ** 10 }, (_, i) => [i.toString(), i])),
+    ],
+  },
+  record: {
+    schema: z.record(z.string(), z.number()),
+    values: [{ hello: 33, world: 44 }],
+  },
+  intersection: {
+    schema: z.intersection(
+      z.object({ foo: z.string() }),
+      z.object({ bar: z.number() }),
+    ),
+    values: [{ foo: "foo", bar: 3 }],
+  },
+  numberIntersection: {
+    schema: z.intersection(
+      z.union([z.string(), z.number()]),
+      z.union([z.boolean(), z.number()]),
+    ),
+    values: [2],
+  },
+  stringIntersection: {
+    schema: z.intersection(
+      z.union([z.string(), z.number()]),
+      z.union([z.string(), z.boolean()]),
+    ),
+    values: [""],
+  },
+  booleanIntersection: {
+    schema: z.intersection(
+      z.union([z.boolean(), z.number()]),
+      z.union([z.string(), z.boolean()]),
+    ),
+    values: [false],
+  },
+  union: { schema: z.union([z.string(), z.number()]), values: ["hello", 33] },
+  shortUnion: {
+    schema: z.union(literals(31)),
+    values: Array.from({ length: 31 }, (_, i) => i),
+  },
+  longUnion: {
+    schema: z.union(literals(40)),
+    values: Array.from({ length: 40 }, (_, i) => i),
+  },
+  optionalUnion: {
+    schema: z.union([z.string(), z.undefined(), z.null()]),
+    values: ["foo", undefined, null],
+  },
+  discriminatedUnion: {
+    schema: z.discriminatedUnion("foo", [
+      z.object({ foo: z.literal(1) }),
+      z.object({ foo: z.literal(2), bar: z.string() }),
+    ]),
+    values: [{ foo: 1 }, { foo: 2, bar: "bar" }],
+  },
+  literals: {
+    schema: z.tuple([
+      z.literal("hello"),
+      z.literal(42),
+      z.literal(42n),
+      z.literal(false),
+      z.literal(undefined),
+      z.literal(null),
+    ]),
+    values: [["hello", 42, 42n, false, undefined, null]],
+  },
+  enum: { schema: z.enum(["hello", "world"]), values: ["hello", "world"] },
+  stringEnum: {
+    schema: z.nativeEnum(StringEnum),
+    values: [StringEnum.Hello, StringEnum.World],
+  },
+  numericEnum: {
+    schema: z.nativeEnum(NumericEnum),
+    values: [NumericEnum.Hello, NumericEnum.World],
+  },
+  mixedEnum: {
+    schema: z.nativeEnum(MixedEnum),
+    values: [MixedEnum.Hello, MixedEnum.World],
+  },
+  nullableEnum: {
+    schema: z.enum(["hello", "world"]).nullable(),
+    values: ["world", null],
+  },
+  default: {
+    schema: z.string().default("hello"),
+    values: [undefined, "bar"],
+    decoded: ["hello", "bar"],
+  },
+  catch: {
+    schema: z.string().catch(() => "hello"),
+    values: ["foo", 33],
+    decoded: ["foo", "hello"],
+  },
+  readonly: {
+    schema: z.object({ foo: z.string() }).readonly(),
+    values: [{ foo: "foo" }],
+  },
+  brand: {
+    schema: z.object({ id: z.number() }).brand<"userId">(),
+    values: [{ id: 1 }],
+  },
+  lazy: {
+    schema: treeSchema,
+    values: [{ foo: { bar: "1", recursive: { foo: { bar: "bar" } } } }],
+  },
+  pipe: {
+    schema: z
+      .string()
+      .transform((x) => x.length)
+      .pipe(z.number()),
+    values: ["hello"],
+    decoded: [5],
+  },
+  preprocess: {
+    schema: z.preprocess((x) => String(x), z.string()),
+    values: [123],
+    decoded: ["123"],
+  },
+  refine: {
+    schema: z.string().refine((s) => s.length > 3),
+    values: ["asdf"],
+  },
+  transform: {
+    schema: z
+      .string()
+      .nullish()
+      .transform((s) => s ?? null),
+    values: ["asdf", null, undefined],
+    decoded: ["asdf", null, null],
+  },
+  transformInsideCatch: {
+    schema: z
+      .object({
+        foo: z
+          .string()
+          .transform((s) => s.length)
+          .pipe(z.number()),
+      })
+      .catch(() => ({ foo: 1234 })),
+    values: [{ foo: "adf" }],
+    decoded: [{ foo: 3 }],
+  },
+  varint: {
+    schema: z.object({
+      small: zs.varint(z.number()),
+      big: zs.varint(z.bigint()),
+      date: zs.varint(z.date()),
+    }),
+    values: [
+      { small: -3, big: 2n ** 60n, date: new Date("2024-01-01") },
+      { small: 2 ** 40, big: -1n, date: new Date(0) },
+    ],
+  },
+  fixedLayout: {
+    schema: z.object({
+      byte: z.number().int().min(0).max(255),
+      short: z.number().int().min(-1000).max(1000),
+      wide: z
+        .bigint()
+        .min(0n)
+        .max(2n ** 40n),
+      ratio: z.number().finite(),
+      flag: z.boolean(),
+      maybe: z.number().int().min(0).max(10).optional(),
+    }),
+    values: [
+      { byte: 255, short: -1000, wide: 2n ** 40n, ratio: 0.5, flag: true },
+      { byte: 0, short: 3, wide: 0n, ratio: -1, flag: false, maybe: 10 },
+    ],
+  },
+  binary: {
+    schema: z.object({
+      bytes: zs.bytes(),
+      floats: zs.typedArray(Float32Array).optional(),
+      buffer: zs.arrayBuffer(),
+    }),
+    values: [
+      {
+        bytes: new Uint8Array([1, 2, 3]),
+        floats: new Float32Array([0.5, -2]),
+        buffer: new ArrayBuffer(4),
+      },
+      { bytes: new Uint8Array(0), buffer: new ArrayBuffer(0) },
+    ],
+  },
+  complex: { schema: complexSchema, values: [complexValue] },
+};
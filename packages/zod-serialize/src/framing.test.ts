@@ -0,0 +1,159 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import {
+  encode,
+  encodeFrame,
+  createFrameDecoder,
+  createFrameEncoderStream,
+  createFrameDecoderStream,
+} from ".";
+
+const schema = z.object({ id: z.number(), name: z.string() });
+const values = [
+  { id: 1, name: "hello" },
+  { id: 2, name: "x".repeat(300) },
+  { id: -3, name: "" },
+];
+
+const concat = (chunks: Array<Uint8Array>) => {
+  const bytes = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const readAll = async <T>(readable: ReadableStream<T>) => {
+  const reader = readable.getReader();
+  const values: Array<T> = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return values;
+    }
+    values.push(value);
+  }
+};
+
+describe("framing", () => {
+  it("prefixes the encoded value with its length", () => {
+    const frame = encodeFrame(schema, values[0]);
+    const message = new Uint8Array(encode(schema, values[0]));
+    expect(frame[0]).toBe(message.byteLength);
+    expect(frame.subarray(1)).toEqual(message);
+  });
+  it("uses a multi byte length prefix for long values", () => {
+    const frame = encodeFrame(schema, values[1]);
+    const length = encode(schema, values[1]).byteLength;
+    expect(frame[0]).toBe((length & 0x7f) | 0x80);
+    expect(frame[1]).toBe(length >> 7);
+    expect(frame.byteLength).toBe(length + 2);
+  });
+  it("decodes several frames in one chunk", () => {
+    const decoder = createFrameDecoder(schema);
+    const stream = concat(values.map((v) => encodeFrame(schema, v)));
+    expect(decoder.push(stream)).toEqual(values);
+    decoder.end();
+  });
+  it("decodes frames split at every position", () => {
+    const stream = concat(values.map((v) => encodeFrame(schema, v)));
+    for (let split = 1; split < stream.length; split++) {
+      const decoder = createFrameDecoder(schema);
+      expect([
+        ...decoder.push(stream.subarray(0, split)),
+        ...decoder.push(stream.subarray(split)),
+      ]).toEqual(values);
+      decoder.end();
+    }
+  });
+  it("decodes frames that arrive byte by byte", () => {
+    const decoder = createFrameDecoder(schema);
+    const stream = concat(values.map((v) => encodeFrame(schema, v)));
+    const decoded = [];
+    for (let i = 0; i < stream.length; i++) {
+      decoded.push(...decoder.push(stream.subarray(i, i + 1)));
+    }
+    expect(decoded).toEqual(values);
+  });
+  it("accepts ArrayBuffer chunks", () => {
+    const decoder = createFrameDecoder(schema);
+    expect(decoder.push(encodeFrame(schema, values[0]).slice().buffer)).toEqual(
+      [values[0]],
+    );
+  });
+  it("fails if the stream ends with an incomplete frame", () => {
+    const decoder = createFrameDecoder(schema);
+    const frame = encodeFrame(schema, values[0]);
+    expect(decoder.push(frame.subarray(0, 5))).toEqual([]);
+    expect(() => decoder.end()).toThrow(/incomplete frame/);
+    expect(() => decoder.end()).toThrow(
+      expect.objectContaining({ code: "TRUNCATED" }),
+    );
+  });
+  it("rejects frames that are longer than the maximum frame length", () => {
+    const decoder = createFrameDecoder(schema, { maxFrameLength: 100 });
+    expect(() => decoder.push(encodeFrame(schema, values[1]))).toThrow(
+      /maximum frame length/,
+    );
+  });
+  it("rejects frames whose length doesn't match the encoded value", () => {
+    const decoder = createFrameDecoder(schema);
+    const frame = encodeFrame(schema, values[0]).slice();
+    frame[0] += 1;
+    expect(() => decoder.push(concat([frame, new Uint8Array(1)]))).toThrow(
+      /does not match/,
+    );
+  });
+  it("drops a frame that can't be decoded and keeps decoding", () => {
+    const decoder = createFrameDecoder(schema);
+    const bad = encodeFrame(schema, values[0]).slice();
+    // an unknown header mode
+    bad[1] = 0xc0 | bad[1];
+    const chunk = concat([
+      encodeFrame(schema, values[0]),
+      bad,
+      encodeFrame(schema, values[1]).subarray(0, 10),
+    ]);
+    expect(() => decoder.push(chunk)).toThrow(/unknown header mode 3/);
+    expect(
+      decoder.push(
+        concat([
+          encodeFrame(schema, values[1]).subarray(10),
+          encodeFrame(schema, values[2]),
+        ]),
+      ),
+    ).toEqual(values);
+    decoder.end();
+  });
+  it("encodes and decodes values with streams", async () => {
+    const rechunk = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        for (let i = 0; i < chunk.length; i += 7) {
+          controller.enqueue(chunk.slice(i, i + 7));
+        }
+      },
+    });
+    const readable = new ReadableStream({
+      start: (controller) => {
+        values.forEach((value) => controller.enqueue(value));
+        controller.close();
+      },
+    })
+      .pipeThrough(createFrameEncoderStream(schema))
+      .pipeThrough(rechunk)
+      .pipeThrough(createFrameDecoderStream(schema));
+    expect(await readAll(readable)).toEqual(values);
+  });
+  it("errors the stream if it ends with an incomplete frame", async () => {
+    const frame = encodeFrame(schema, values[0]);
+    const readable = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(frame.subarray(0, 3));
+        controller.close();
+      },
+    }).pipeThrough(createFrameDecoderStream(schema));
+    await expect(readAll(readable)).rejects.toThrow(/incomplete frame/);
+  });
+});
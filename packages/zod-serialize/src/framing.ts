@@ -0,0 +1,168 @@
+import type z from "zod";
+import { decodeWithLength, encode, type DecodeInput } from "./index";
+import { ZodSerializeError } from "./errors";
+import {
+  createWriter,
+  MAX_VARUINT_LENGTH,
+  readVarUint,
+  toBytes,
+  writeBytes,
+  writeVarUint,
+} from "./writer";
+
+const DEFAULT_MAX_FRAME_LENGTH = 16 * 2 ** 20;
+
+export type FrameDecoderOptions = {
+  /** frames that claim to be longer than this are rejected, defaults to 16 MiB */
+  maxFrameLength?: number;
+};
+
+export type FrameDecoder<T> = {
+  /**
+   * add a chunk of the byte stream
+   * a frame that can't be decoded is dropped and its error is thrown,
+   * the values of the frames in front of it are returned by the next push and the frames behind it are decoded by it.
+   * frames that are longer than the maximum frame length can't be skipped, the decoder keeps failing
+   * @returns the values of all frames that were completed by the chunk
+   */
+  push: (chunk: DecodeInput) => Array<T>;
+  /** throws if the stream ended in the middle of a frame */
+  end: () => void;
+};
+
+/**
+ * encode a value as a frame for byte streams
+ * - length prefix: LEB128 varint with the length of the encoded value
+ * - body: the encoded value (header + content) as produced by `encode`
+ * @param schema zod schema of the value
+ * @param input the value to encode
+ * @returns the frame
+ */
+export const encodeFrame = <T>(
+  schema: z.ZodType<T>,
+  input: T | unknown,
+): Uint8Array => {
+  const message = new Uint8Array(encode(schema, input));
+  const writer = createWriter(message.byteLength + MAX_VARUINT_LENGTH);
+  writeVarUint(writer, message.byteLength);
+  writeBytes(writer, message);
+  return writer.bytes.subarray(0, writer.offset);
+};
+
+/**
+ * create a decoder for a stream of frames
+ * chunks can be split at any position, bytes of incomplete frames are buffered until the rest arrives
+ * ```ts
+ *   const decoder = createFrameDecoder(eventsSchema);
+ *   socket.on("data", (chunk) => {
+ *     for (const event of decoder.push(chunk)) {
+ *       handleEvent(event);
+ *     }
+ *   });
+ *   socket.on("end", () => decoder.end());
+ * ```
+ * @param schema zod schema of the values in the stream
+ * @param options limits for the decoder
+ */
+export const createFrameDecoder = <T>(
+  schema: z.ZodType<T>,
+  { maxFrameLength = DEFAULT_MAX_FRAME_LENGTH }: FrameDecoderOptions = {},
+): FrameDecoder<T> => {
+  const pending = createWriter();
+  // values of the frames in front of a frame that failed
+  let decoded: Array<T> = [];
+
+  return {
+    push: (chunk) => {
+      writeBytes(pending, toBytes(chunk));
+      const values = decoded;
+      decoded = [];
+      let offset = 0;
+      try {
+        while (true) {
+          const prefix = readVarUint(pending.bytes, offset, pending.offset);
+          if (!prefix) {
+            break;
+          }
+          const { value: length, length: prefixLength } = prefix;
+          if (length > maxFrameLength) {
+            throw new ZodSerializeError(
+              "LIMIT_EXCEEDED",
+              `frame of ${length} bytes exceeds the maximum frame length of ${maxFrameLength} bytes`,
+            );
+          }
+          const start = offset + prefixLength;
+          const end = start + length;
+          if (end > pending.offset) {
+            break;
+          }
+          // the frame is dropped if it can't be decoded
+          offset = end;
+          const { value, bytesRead } = decodeWithLength(
+            schema,
+            pending.bytes.subarray(start, end),
+          );
+          if (bytesRead !== length) {
+            throw new ZodSerializeError(
+              "INVALID_VALUE",
+              `frame length of ${length} bytes does not match the ${bytesRead} bytes of the encoded value`,
+            );
+          }
+          values.push(value);
+        }
+      } catch (error) {
+        decoded = values;
+        throw error;
+      } finally {
+        // move the incomplete frame to the start of the buffer
+        pending.bytes.copyWithin(0, offset, pending.offset);
+        pending.offset -= offset;
+      }
+      return values;
+    },
+    end: () => {
+      if (pending.offset > 0) {
+        throw new ZodSerializeError(
+          "TRUNCATED",
+          `stream ended with an incomplete frame (${pending.offset} bytes buffered)`,
+        );
+      }
+    },
+  };
+};
+
+/**
+ * stream that turns values into frames
+ * ```ts
+ *   values.pipeThrough(createFrameEncoderStream(schema)).pipeTo(socket.writable);
+ * ```
+ */
+export const createFrameEncoderStream = <T>(
+  schema: z.ZodType<T>,
+): TransformStream<T, Uint8Array> =>
+  new TransformStream({
+    transform: (value, controller) => {
+      controller.enqueue(encodeFrame(schema, value));
+    },
+  });
+
+/**
+ * stream that turns chunks of a byte stream into the values of the frames
+ * ```ts
+ *   socket.readable.pipeThrough(createFrameDecoderStream(schema));
+ * ```
+ */
+export const createFrameDecoderStream = <T>(
+  schema: z.ZodType<T>,
+  options?: FrameDecoderOptions,
+): TransformStream<DecodeInput, T> => {
+  const decoder = createFrameDecoder(schema, options);
+  return new TransformStream({
+    transform: (chunk, controller) => {
+      for (const value of decoder.push(chunk)) {
+        controller.enqueue(value);
+      }
+    },
+    flush: () => decoder.end(),
+  });
+};
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import {
+  createCodec,
+  decode,
+  decodeWithLength,
+  encode,
+  zs,
+  ZodSerializeError,
+} from ".";
+import { complexSchema, complexValue } from "./fixtures";
+
+/**
+ * mulberry32, a seeded random number generator so failing inputs can be reproduced
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+};
+
+type Tree = { name: string; children: Array<Tree> };
+const treeSchema: z.ZodType<Tree> = z.lazy(() =>
+  z.object({ name: z.string(), children: z.array(treeSchema) }),
+);
+const nestedTree = (depth: number): Tree =>
+  depth === 0
+    ? { name: "leaf", children: [] }
+    : { name: "node", children: [nestedTree(depth - 1)] };
+
+const catchError = (run: () => unknown): ZodSerializeError => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ZodSerializeError);
+    return error as ZodSerializeError;
+  }
+  throw new Error("expected an error");
+};
+
+describe("limits", () => {
+  const numbers = z.array(z.number());
+
+  it("rejects length headers that claim more elements than there are bytes", () => {
+    const encoded = new Uint8Array(encode(numbers, []));
+    // array header claiming 500000 elements followed by a few bytes
+    const forged = new Uint8Array([
+      ...encoded.subarray(0, 9),
+      0x97,
+      0xa1,
+      0x20,
+    ]);
+    const error = catchError(() => decode(numbers, forged));
+    expect(error.code).toBe("TRUNCATED");
+    expect(error.offset).toBe(12);
+  });
+  it("rejects collections that are longer than maxCollectionLength", () => {
+    const buffer = encode(numbers, [1, 2, 3, 4]);
+    expect(decode(numbers, buffer, { maxCollectionLength: 4 })).toEqual([
+      1, 2, 3, 4,
+    ]);
+    const error = catchError(() =>
+      decode(numbers, buffer, { maxCollectionLength: 3 }),
+    );
+    expect(error.code).toBe("LIMIT_EXCEEDED");
+
+    const map = z.map(z.string(), z.string());
+    const mapBuffer = encode(map, new Map([["a", "b"]]));
+    expect(
+      catchError(() => decode(map, mapBuffer, { maxCollectionLength: 0 })).code,
+    ).toBe("LIMIT_EXCEEDED");
+  });
+  it("rejects values that are longer than maxBytes", () => {
+    const buffer = encode(complexSchema, complexValue);
+    expect(
+      decode(complexSchema, buffer, { maxBytes: buffer.byteLength }),
+    ).toEqual(complexValue);
+    const error = catchError(() =>
+      decode(complexSchema, buffer, { maxBytes: buffer.byteLength - 1 }),
+    );
+    expect(error.code).toBe("LIMIT_EXCEEDED");
+  });
+  it("limits only the value that is decoded with decodeWithLength", () => {
+    const buffer = new Uint8Array(encode(z.string(), "abc"));
+    const packed = new Uint8Array([...buffer, ...buffer]);
+    expect(
+      decodeWithLength(z.string(), packed, buffer.byteLength, {
+        maxBytes: buffer.byteLength,
+      }),
+    ).toEqual({ value: "abc", bytesRead: buffer.byteLength });
+  });
+  it("rejects values that are nested deeper than maxDepth", () => {
+    const buffer = encode(treeSchema, nestedTree(200));
+    // a field and an array element per level
+    expect(catchError(() => decode(treeSchema, buffer)).code).toBe(
+      "LIMIT_EXCEEDED",
+    );
+    expect(decode(treeSchema, buffer, { maxDepth: 401 })).toEqual(
+      nestedTree(200),
+    );
+    expect(
+      catchError(() => decode(treeSchema, buffer, { maxDepth: 400 })).code,
+    ).toBe("LIMIT_EXCEEDED");
+  });
+  it("rejects union options that don't exist", () => {
+    const schema = z.union([z.string(), z.number()]);
+    const encoded = new Uint8Array(encode(schema, 1));
+    encoded[9] = 0xa2;
+    expect(catchError(() => decode(schema, encoded)).code).toBe(
+      "INVALID_VALUE",
+    );
+  });
+  it("rejects tuples of the wrong length", () => {
+    const schema = z.tuple([z.string(), z.string()]);
+    const encoded = new Uint8Array(encode(schema, ["a", "b"]));
+    encoded[9] = 0x81;
+    expect(catchError(() => decode(schema, encoded)).code).toBe(
+      "INVALID_VALUE",
+    );
+  });
+  it("rejects typed arrays with a partial element", () => {
+    const schema = zs.typedArray(Float64Array);
+    const encoded = new Uint8Array(encode(schema, new Float64Array([1])));
+    encoded[9] = 0xe7;
+    expect(catchError(() => decode(schema, encoded)).code).toBe(
+      "INVALID_VALUE",
+    );
+  });
+  it("doesn't let record keys reach Object.prototype", () => {
+    const schema = z.record(z.string(), z.record(z.string(), z.boolean()));
+    const buffer = encode(
+      schema,
+      JSON.parse('{"__proto__":{"polluted":true}}'),
+    );
+    expect(decode(schema, buffer)).toEqual({});
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("fuzz", () => {
+  const schemas: Array<[string, z.ZodTypeAny, unknown]> = [
+    ["complex", complexSchema, complexValue],
+    ["tree", treeSchema, nestedTree(5)],
+    [
+      "binary",
+      z.object({
+        bytes: zs.bytes(),
+        floats: zs.typedArray(Float32Array).nullable(),
+        count: zs.varint(z.number().int()),
+      }),
+      { bytes: new Uint8Array([1, 2, 3]), floats: null, count: -1234 },
+    ],
+  ];
+
+  /**
+   * the decoder returns a value of the schema or throws a ZodSerializeError, nothing else
+   */
+  const expectDecodeToBeSafe = (
+    schema: z.ZodTypeAny,
+    buffer: Uint8Array,
+    seed: number,
+  ) => {
+    try {
+      const value = decode(schema, buffer, { maxCollectionLength: 1000 });
+      expect(schema.safeParse(value).success).toBe(true);
+    } catch (error) {
+      if (!(error instanceof ZodSerializeError)) {
+        throw new Error(`seed ${seed}: ${error}`, { cause: error });
+      }
+    }
+  };
+
+  describe.each(schemas)("%s", (_, schema, value) => {
+    const codec = createCodec(schema);
+    const encoded = new Uint8Array(codec.encode(value));
+    const header = encoded.subarray(0, 9);
+
+    it("decodes random bodies", () => {
+      for (let seed = 0; seed < 1000; seed++) {
+        const random = createRandom(seed);
+        const body = Array.from({ length: Math.floor(random() * 64) }, () =>
+          Math.floor(random() * 256),
+        );
+        expectDecodeToBeSafe(
+          schema,
+          new Uint8Array([...header, ...body]),
+          seed,
+        );
+      }
+    });
+    it("decodes mutated values", () => {
+      for (let seed = 0; seed < 1000; seed++) {
+        const random = createRandom(seed);
+        const mutated = encoded.slice();
+        const mutations = 1 + Math.floor(random() * 4);
+        for (let i = 0; i < mutations; i++) {
+          // keep the header so the body is actually decoded
+          const index = 9 + Math.floor(random() * (mutated.length - 9));
+          mutated[index] = Math.floor(random() * 256);
+        }
+        expectDecodeToBeSafe(schema, mutated, seed);
+      }
+    });
+    it("decodes truncated values", () => {
+      for (let length = 0; length < encoded.length; length++) {
+        const error = catchError(() =>
+          decode(schema, encoded.subarray(0, length)),
+        );
+        expect(error.code).toBe("TRUNCATED");
+      }
+    });
+  });
+});
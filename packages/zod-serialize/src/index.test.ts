@@ -1,63 +1,51 @@
-import { describe, it, test, expect } from "bun:test";
+import { describe, it, test, expect, spyOn } from "bun:test";
 import z from "zod";
-import { encode, decode } from ".";
+import {
+  encode,
+  decode,
+  createCodec,
+  encodeInto,
+  encodedSize,
+  decodeWithLength,
+  safeEncode,
+  safeDecode,
+  zs,
+  ZodSerializeError,
+  LAYOUT_VERSIONS,
+  PROTOCOL_VERSION,
+  schemaFingerprint,
+  decodeHeader,
+} from ".";
+import { codecFixtures } from "./fixtures";
 
 const encodeAndDecode = <T>(schema: z.ZodType<T, any>, value: T | unknown) =>
   decode(schema, encode(schema, value));
 
 describe("e2e", () => {
-  describe("string", () => {
-    it("encodes and decodes a string", () => {
-      expect(encodeAndDecode(z.string(), "hello")).toBe("hello");
-    });
-    it("coerces the value to a string", () => {
-      expect(encodeAndDecode(z.coerce.string(), 33)).toBe("33");
+  for (const [name, { schema, values, decoded = values }] of Object.entries(
+    codecFixtures,
+  )) {
+    it(`encodes and decodes ${name}`, () => {
+      values.forEach((value, i) => {
+        expect(encodeAndDecode(schema, value)).toStrictEqual(decoded[i]);
+      });
     });
+  }
+  describe("string", () => {
     it("doesn't coerce the value if it shouldn't ", () => {
       expect(() => encodeAndDecode(z.string(), 33)).toThrow();
     });
-    it("encodes and decodes a long string", () => {
-      expect(encodeAndDecode(z.string(), "hello".repeat(2000))).toBe(
-        "hello".repeat(2000),
-      );
-    });
-    it("failes if the string is to long", () => {
-      expect(() => encodeAndDecode(z.string(), "x".repeat(2 ** 20))).toThrow();
+    it("encodes and decodes strings longer than 1 MiB with an extended header", () => {
+      const value = "x".repeat(2 ** 20);
+      const encoded = new Uint8Array(encode(z.string(), value));
+      expect(Array.from(encoded.subarray(9, 15))).toEqual([
+        0x30, 0x00, 0x00, 0x80, 0x80, 0x40,
+      ]);
+      expect(encoded.byteLength).toBe(9 + 6 + 2 ** 20);
+      expect(decode(z.string(), encoded)).toBe(value);
     });
   });
   describe("numeric", () => {
-    describe("variants", () => {
-      it("encodes and decodes a 8bit number", () => {
-        expect(encodeAndDecode(z.number(), 42)).toBe(42);
-      });
-      it("encodes and decodes a 16 bit number", () => {
-        expect(encodeAndDecode(z.number(), 2 ** 10)).toBe(2 ** 10);
-      });
-      it("encodes and decodes a 32 bit number", () => {
-        expect(encodeAndDecode(z.number(), 2 ** 24)).toBe(2 ** 24);
-      });
-      it("encodes and decodes a 64 bit number", () => {
-        expect(encodeAndDecode(z.number(), 2 ** 35)).toBe(2 ** 35);
-      });
-      it("encodes and decodes a 64 bit bigint", () => {
-        expect(encodeAndDecode(z.bigint(), 2n ** 35n)).toBe(2n ** 35n);
-      });
-      it("encodes and decodes floats", () => {
-        expect(encodeAndDecode(z.number(), 3.141)).toBe(3.141);
-      });
-      it("encodes and decodes Infinity", () => {
-        expect(encodeAndDecode(z.number(), Infinity)).toBe(Infinity);
-      });
-      it("encodes and decodes -Infinity", () => {
-        expect(encodeAndDecode(z.number(), -Infinity)).toBe(-Infinity);
-      });
-      it("encodes and decodes NaN", () => {
-        expect(encodeAndDecode(z.nan(), NaN)).toBe(NaN);
-      });
-      it("encodes and decodes negative numbers", () => {
-        expect(encodeAndDecode(z.number(), -33)).toBe(-33);
-      });
-    });
     describe("limits", () => {
       it("failes for to big bigints", () => {
         expect(() => encodeAndDecode(z.bigint(), 2n ** 63n)).toThrow();
@@ -67,101 +55,41 @@ describe("e2e", () => {
       });
     });
     describe("coercion", () => {
-      it("coerces numeric strings to numbers", () => {
-        expect(encodeAndDecode(z.coerce.number(), "22")).toBe(22);
-      });
       it("doesn't coerce the value if it shouldn't", () => {
         expect(() => encodeAndDecode(z.number(), "22")).toThrow();
       });
-      it("coerces numeric strings to bigints", () => {
-        expect(encodeAndDecode(z.coerce.bigint(), "22")).toBe(22n);
-      });
-      it("coerces dates to numbers", () => {
-        expect(encodeAndDecode(z.coerce.number(), new Date("2024-01-01"))).toBe(
-          +new Date("2024-01-01"),
-        );
-      });
     });
   });
   describe("boolean", () => {
-    it("encodes and decodes a boolean", () => {
-      expect(encodeAndDecode(z.boolean(), true)).toBe(true);
-    });
-    it("coerces the value to boolean", () => {
-      expect(encodeAndDecode(z.coerce.boolean(), 1)).toBe(true);
-    });
     it("doesn't coerce the value if it shouln't", () => {
       expect(() => encodeAndDecode(z.boolean(), 1)).toThrow();
     });
   });
   describe("date", () => {
-    it("encodes and decodes a date", () => {
-      expect(encodeAndDecode(z.date(), new Date("2024-01-01"))).toEqual(
-        new Date("2024-01-01"),
-      );
-    });
-    it("coerces the value to a date", () => {
-      expect(encodeAndDecode(z.coerce.date(), 946684800000)).toEqual(
-        new Date("2000-01-01"),
-      );
-    });
     it("doesn't coerce the value if it shouldn't", () => {
       expect(() => encodeAndDecode(z.date(), 946684800000)).toThrow();
     });
   });
   describe("undefined", () => {
-    it("encodes and decodes undefined", () => {
-      expect(encodeAndDecode(z.undefined(), undefined)).toBe(undefined);
-    });
-    it("works also with .optional()", () => {
-      expect(encodeAndDecode(z.string().optional(), undefined)).toBe(
-        undefined as any,
-      );
-    });
-    it("works also with .nullish()", () => {
-      expect(encodeAndDecode(z.string().nullish(), undefined)).toBe(
-        undefined as any,
-      );
-    });
     it("fails if the value is not optional", () => {
       expect(() => encodeAndDecode(z.string(), undefined)).toThrow();
     });
   });
   describe("null", () => {
-    it("encodes and decodes null", () => {
-      expect(encodeAndDecode(z.null(), null)).toBe(null);
-    });
-    it("works also with .nullable()", () => {
-      expect(encodeAndDecode(z.string().nullable(), null)).toBe(null);
-    });
-    it("works also with .nullish()", () => {
-      expect(encodeAndDecode(z.string().nullish(), null)).toBe(null);
-    });
     it("fails if the value is not nullabe", () => {
       expect(() => encodeAndDecode(z.string(), null)).toThrow();
     });
   });
   describe("array like", () => {
     describe("array", () => {
-      it("encodes and decodes an array", () => {
-        expect(encodeAndDecode(z.array(z.string()), ["hello"])).toEqual([
-          "hello",
+      it("encodes and decodes arrays with more than 524_288 elements with an extended header", () => {
+        const value = Array.from({ length: 2 ** 19 }, () => undefined);
+        const schema = z.array(z.boolean().optional());
+        const encoded = new Uint8Array(encode(schema, value));
+        expect(Array.from(encoded.subarray(9, 13))).toEqual([
+          0x98, 0x80, 0x80, 0x20,
         ]);
-      });
-      it("encodes and decodes an medium sized array", () => {
-        const value = Array.from({ length: 500 }).map((_, i) => i);
-        expect(encodeAndDecode(z.array(z.number()), value)).toEqual(value);
-      });
-      it("encodes and decodes an long array", () => {
-        const value = Array.from({ length: 5_000 }).map((_, i) => i);
-        expect(encodeAndDecode(z.array(z.number()), value)).toEqual(value);
-      });
-      // This test is skipped in development mode because it takes a long time to run
-      it("fails if array is to long", () => {
-        const value = Array.from({ length: 2 ** 19 });
-        expect(() =>
-          encodeAndDecode(z.array(z.boolean().optional()), value),
-        ).toThrow();
+        expect(decode(schema, encoded)).toEqual(value);
       });
       it("fails if the value is not an array", () => {
         expect(() => encodeAndDecode(z.array(z.string()), "hello")).toThrow();
@@ -173,15 +101,6 @@ describe("e2e", () => {
       });
     });
     describe("set", () => {
-      it("encodes and decodes a set", () => {
-        expect(encodeAndDecode(z.set(z.string()), new Set(["hello"]))).toEqual(
-          new Set(["hello"]),
-        );
-      });
-      it("encodes and decodes a big set", () => {
-        const value = new Set(Array.from({ length: 10_000 }).map((_, i) => i));
-        expect(encodeAndDecode(z.set(z.number()), value)).toEqual(value);
-      });
       it("fails if the value is not a set", () => {
         expect(() => encodeAndDecode(z.set(z.string()), "hello")).toThrow();
       });
@@ -191,109 +110,80 @@ describe("e2e", () => {
         ).toThrow();
       });
     });
-    describe("tuple", () => {
-      it("encodes and decodes a tuple", () => {
-        expect(
-          encodeAndDecode(z.tuple([z.string(), z.number()]), ["hello", 33]),
-        ).toEqual(["hello", 33]);
-      });
-    });
   });
   describe("object", () => {
-    const schema = z.object({
-      string: z.string(),
-      optional: z.string().optional(),
-      nullish: z.string().nullish(),
-    });
-    it("encodes and decodes an object", () => {
-      expect(
-        encodeAndDecode(schema, {
-          string: "hello",
-          optional: "world",
-          nullish: null,
+    it("packs booleans and the states of nullish fields into a bitmap", () => {
+      const codec = createCodec(
+        z.object({
+          a: z.boolean(),
+          b: z.boolean(),
+          optional: z.string().optional(),
+          nullable: z.boolean().nullable(),
+          x: z.number(),
         }),
-      ).toStrictEqual({ string: "hello", optional: "world", nullish: null });
-    });
-    it("handles passes trough undefined as a value", () => {
+        { header: "none", layout: "compact" },
+      );
+      // bits: a, b, 2 bits optional state, 2 bits nullable state, nullable value
+      const bytes = (value: unknown) =>
+        Array.from(new Uint8Array(codec.encode(value)));
+      expect(bytes({ a: true, b: false, nullable: true, x: 3 })).toEqual([
+        0x40, 0b01001101, 0x00, 3,
+      ]);
       expect(
-        encodeAndDecode(schema, {
-          string: "hello",
-          optional: undefined,
-          nullish: "world",
-        }),
-      ).toStrictEqual({
-        string: "hello",
-        optional: undefined,
-        nullish: "world",
-      });
+        bytes({ a: false, b: true, optional: "c", nullable: null, x: 3 }),
+      ).toEqual([0x40, 0b00010010, 0x20, 0x01, 0x63, 0x00, 3]);
+      for (const value of [
+        { a: true, b: false, nullable: true, x: 3 },
+        { a: false, b: true, optional: undefined, nullable: null, x: 3 },
+        { a: true, b: true, optional: "c", nullable: false, x: 3 },
+      ]) {
+        expect(codec.decode(codec.encode(value))).toStrictEqual(value);
+      }
     });
-    it("handles passes trough an missing optional property", () => {
-      expect(encodeAndDecode(schema, { string: "hello" })).toStrictEqual({
-        string: "hello",
+    it("spans the bitmap over more bytes", () => {
+      const shape = Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`flag${i}`, z.boolean()]),
+      );
+      const codec = createCodec(z.object(shape), {
+        header: "none",
+        layout: "compact",
       });
+      const value = Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`flag${i}`, i % 3 === 0]),
+      );
+      const buffer = codec.encode(value);
+      expect(buffer.byteLength).toBe(1 + 3);
+      expect(codec.decode(buffer)).toEqual(value);
+    });
+    it("rejects field states the schema doesn't allow", () => {
+      const codec = createCodec(z.object({ a: z.string().nullable() }), {
+        header: "none",
+        layout: "compact",
+      });
+      expect(() => codec.decode(new Uint8Array([0x40, 0b10]))).toThrow(
+        expect.objectContaining({
+          code: "INVALID_VALUE",
+          path: ["a"],
+          offset: 1,
+        }),
+      );
     });
   });
   describe("map", () => {
-    it("encodes and decodes a map", () => {
-      const value = new Map([
-        ["hello", 33],
-        ["world", 44],
-      ]);
-      expect(encodeAndDecode(z.map(z.string(), z.number()), value)).toEqual(
-        value,
-      );
-    });
-    it("encodes and decodes a long map", () => {
+    it("encodes and decodes maps with more than 524_288 entries with an extended header", () => {
       const value = new Map(
-        Array.from({ length: 2 ** 10 }).map((_, i) => [i.toString(), i]),
-      );
-      expect(encodeAndDecode(z.map(z.string(), z.number()), value)).toEqual(
-        value,
+        Array.from({ length: 2 ** 19 }).map((_, i) => [i, null]),
       );
-    });
-    it("encodes and decodes a record", () => {
-      const value = Object.fromEntries([
-        ["hello", 33],
-        ["world", 44],
+      const schema = z.map(z.number(), z.null());
+      const encoded = new Uint8Array(encode(schema, value));
+      expect(Array.from(encoded.subarray(9, 15))).toEqual([
+        0xd8, 0x00, 0x00, 0x80, 0x80, 0x20,
       ]);
-      expect(encodeAndDecode(z.record(z.string(), z.number()), value)).toEqual(
-        value,
-      );
+      expect(decode(schema, encoded)).toEqual(value);
     });
   });
   describe("intersection", () => {
-    it("encodes and decodes an object intersection", () => {
-      const schema = z.intersection(
-        z.object({ a: z.string() }),
-        z.object({ b: z.number() }),
-      );
-      expect(encodeAndDecode(schema, { a: "hello", b: 33 })).toEqual({
-        a: "hello",
-        b: 33,
-      });
-    });
     describe("union", () => {
-      it("number", () => {
-        const schema = z.intersection(
-          z.union([z.string(), z.number()]),
-          z.union([z.boolean(), z.number()]),
-        );
-        expect(encodeAndDecode(schema, 2)).toEqual(2);
-      });
-      it("string", () => {
-        const schema = z.intersection(
-          z.union([z.string(), z.number()]),
-          z.union([z.string(), z.boolean()]),
-        );
-        expect(encodeAndDecode(schema, "")).toEqual("");
-      });
-      it("boolean", () => {
-        const schema = z.intersection(
-          z.union([z.boolean(), z.number()]),
-          z.union([z.string(), z.boolean()]),
-        );
-        expect(encodeAndDecode(schema, false)).toEqual(false);
-      });
       it.todo("object", () => {
         const schema = z.intersection(
           z.union([z.object({ foo: z.string() }), z.number()]),
@@ -307,168 +197,67 @@ describe("e2e", () => {
     });
   });
   describe("union", () => {
-    it("encodes and decodes a union", () => {
-      const schema = z.union([z.string(), z.number()]);
-      expect(encodeAndDecode(schema, "hello")).toEqual("hello");
-      expect(encodeAndDecode(schema, 33)).toEqual(33);
+    it("writes an extended header for unions with more than 32 options", () => {
+      const { schema } = codecFixtures.longUnion;
+      const encoded = new Uint8Array(encode(schema, 35));
+      expect(Array.from(encoded.subarray(9, 11))).toEqual([0xbf, 4]);
     });
-    it("fails if the value is not in the union", () => {
-      const schema = z.union([z.string(), z.number()]);
-      expect(() => encodeAndDecode(schema, true)).toThrow();
-    });
-    it("works with undefined", () => {
-      const schema = z.union([z.string(), z.undefined()]);
-      expect(encodeAndDecode(schema, undefined)).toBe(undefined as any);
-    });
-    it("works with null", () => {
-      const schema = z.union([z.string(), z.null()]);
-      expect(encodeAndDecode(schema, null)).toBe(null);
-    });
-    it("works with discriminated union", () => {
-      const schema = z.discriminatedUnion("foo", [
-        z.object({ foo: z.literal(1) }),
-        z.object({ foo: z.literal(2), bar: z.string() }),
-      ]);
-      expect(encodeAndDecode(schema, { foo: 1 })).toEqual({
-        foo: 1,
-      });
-      expect(encodeAndDecode(schema, { foo: 2, bar: "bar" })).toEqual({
-        foo: 2,
-        bar: "bar",
-      });
-    });
-    it("works with all members of the union", () => {
+    it("keeps the short header for the last option of a union with 32 options", () => {
       const schema = z.union(
-        Array.from({ length: 31 }).map((_, i) => z.literal(i)) as any,
+        Array.from({ length: 32 }).map((_, i) => z.literal(i)) as any,
       );
-      Array.from({ length: 31 }).forEach((_, value) => {
-        expect(encodeAndDecode(schema, value)).toBe(value);
-      });
+      const encoded = new Uint8Array(encode(schema, 31));
+      expect(Array.from(encoded.subarray(9, 12))).toEqual([0xbf, 0x00, 31]);
+      expect(decode(schema, encoded)).toBe(31);
     });
-    it("fails if the union has too many members", () => {
-      expect(() =>
-        encodeAndDecode(
-          z.union(
-            Array.from({ length: 33 }).map((_, i) => z.literal(i)) as any,
-          ),
-          1,
-        ),
-      ).toThrow();
+    it("fails if the value is not in the union", () => {
+      const schema = z.union([z.string(), z.number()]);
+      expect(() => encodeAndDecode(schema, true)).toThrow();
     });
   });
   describe("literal", () => {
-    it("encodes and decodes a string literal", () => {
-      expect(encodeAndDecode(z.literal("hello"), "hello")).toBe("hello");
-    });
-    it("encodes and decodes a number literal", () => {
-      expect(encodeAndDecode(z.literal(42), 42)).toBe(42);
-    });
-    it("encodes and decodes a bigint literal", () => {
-      expect(encodeAndDecode(z.literal(42n), 42n)).toBe(42n);
-    });
-    it("encodes and decodes a boolean literal", () => {
-      expect(encodeAndDecode(z.literal(false), false)).toBe(false);
-    });
-    it("encodes and decodes a undefined literal", () => {
-      expect(encodeAndDecode(z.literal(undefined), undefined)).toBe(undefined);
-    });
-    it("encodes and decodes a null literal", () => {
-      expect(encodeAndDecode(z.literal(null), null)).toBe(null);
+    it("writes nothing for object fields with a literal schema", () => {
+      const schema = z.object({
+        type: z.literal("playerPos"),
+        version: z.literal(2n),
+        x: z.number(),
+      });
+      const codec = createCodec(schema, { header: "none", layout: "compact" });
+      const buffer = codec.encode({ type: "playerPos", version: 2n, x: 3 });
+      expect(new Uint8Array(buffer)).toEqual(new Uint8Array([0x40, 0x00, 3]));
+      expect(codec.decode(buffer)).toEqual({
+        type: "playerPos",
+        version: 2n,
+        x: 3,
+      });
     });
   });
   describe("enum", () => {
-    it("encodes and decodes an enum", () => {
-      const schema = z.enum(["hello", "world"]);
-      expect(encodeAndDecode(schema, "hello")).toBe("hello");
-      expect(encodeAndDecode(schema, "world")).toBe("world");
-    });
-    it("encodes and decodes an native enum with string values", () => {
-      enum MyEnum {
-        Hello = "hello",
-        World = "world",
-      }
-      const schema = z.nativeEnum(MyEnum);
-      expect(encodeAndDecode(schema, "hello")).toBe(MyEnum.Hello);
-      expect(encodeAndDecode(schema, "world")).toBe(MyEnum.World);
-    });
-    it("encodes and decodes an native enum with numeric values", () => {
-      enum MyEnum {
-        Hello,
-        World,
-      }
-      const schema = z.nativeEnum(MyEnum);
-      expect(encodeAndDecode(schema, 0)).toBe(MyEnum.Hello);
-      expect(encodeAndDecode(schema, 1)).toBe(MyEnum.World);
-    });
-    it("encodes and decodes an native enum with mixed values", () => {
-      enum MyEnum {
-        Hello,
-        World = "world",
-      }
-      const schema = z.nativeEnum(MyEnum);
-      expect(encodeAndDecode(schema, 0)).toBe(MyEnum.Hello);
-      expect(encodeAndDecode(schema, "world")).toBe(MyEnum.World);
+    it("writes the ordinal of the value", () => {
+      const codec = createCodec(z.enum(["hello", "world"]), {
+        header: "none",
+        layout: "compact",
+      });
+      expect(new Uint8Array(codec.encode("world"))).toEqual(
+        new Uint8Array([1]),
+      );
+      const many = z.enum(
+        Array.from({ length: 200 }, (_, i) => `m${i}`) as [string, ...string[]],
+      );
+      const manyCodec = createCodec(many, { layout: "compact" });
+      expect(manyCodec.decode(manyCodec.encode("m199"))).toBe("m199");
     });
-  });
-  describe("unwrappers", () => {
-    test("default", () => {
-      const schema = z.string().default("hello");
-      expect(encodeAndDecode(schema, undefined)).toBe("hello");
-      expect(encodeAndDecode(schema, "bar")).toBe("bar");
-    });
-    test("optional", () => {
-      const schema = z.string().optional();
-      expect(encodeAndDecode(schema, "foo")).toBe("foo");
-      expect(encodeAndDecode(schema, undefined)).toBe(undefined as any);
-    });
-    test("nullable", () => {
-      const schema = z.string().nullable();
-      expect(encodeAndDecode(schema, "foo")).toBe("foo");
-      expect(encodeAndDecode(schema, null)).toBe(null);
-    });
-    test("catch", () => {
-      const schema = z.string().catch(() => "hello");
-      expect(encodeAndDecode(schema, "foo")).toBe("foo");
-      expect(encodeAndDecode(schema, 33)).toBe("hello");
-    });
-    test("readonly", () => {
-      const schema = z.object({ foo: z.string() }).readonly();
-      expect(encodeAndDecode(schema, { foo: "foo" })).toEqual({ foo: "foo" });
-    });
-    test("brand", () => {
-      const schema = z.object({ id: z.number() }).brand<"userId">();
-      expect(encodeAndDecode(schema, { id: 1 })).toEqual({ id: 1 });
-    });
-    test("lazy", () => {
-      let schema: z.ZodObject<any>;
-      const schema2 = z.object({
-        bar: z.string(),
-        recursive: z.lazy(() => schema).optional(),
+    it("rejects ordinals of members the enum doesn't have", () => {
+      const codec = createCodec(z.enum(["hello", "world"]), {
+        header: "none",
+        layout: "compact",
       });
-      schema = z.object({ foo: schema2 });
-      const inner = { foo: { bar: "bar" } };
-      const value = {
-        foo: {
-          bar: "1",
-          recursive: inner,
-        },
-      };
-      value.foo.recursive = value;
-      // @ts-expect-error recursive value
-      value.foo.recursive.foo.recursive = inner;
-      expect(encodeAndDecode(schema, value)).toEqual(value);
-    });
-    test("pipe", () => {
-      const schema = z
-        .string()
-        .transform((x) => x.length)
-        .pipe(z.number());
-      expect(encodeAndDecode(schema, "hello")).toBe(5);
-    });
-    test("preprocess", () => {
-      const schema = z.preprocess((x) => String(x), z.string());
-      expect(encodeAndDecode(schema, 123)).toBe("123");
+      expect(() => codec.decode(new Uint8Array([2]))).toThrow(
+        expect.objectContaining({ code: "INVALID_VALUE", offset: 0 }),
+      );
     });
+  });
+  describe("unwrappers", () => {
     test("preprocess needs to happen during encoding", () => {
       const schema = z.preprocess((x, ctx) => {
         if (Array.isArray(x)) {
@@ -487,29 +276,11 @@ describe("e2e", () => {
       expect(encodeAndDecode(schema, 3)).toEqual([0, 1, 2]);
     });
     test("refine", () => {
-      const schema = z.string().refine((s) => s.length > 3);
-      expect(encodeAndDecode(schema, "asdf")).toBe("asdf");
+      const { schema } = codecFixtures.refine;
       expect(() => encodeAndDecode(schema, "as")).toThrow();
     });
-    test("transform", () => {
-      const schema = z
-        .string()
-        .nullish()
-        .transform((s) => s ?? null);
-      expect(encodeAndDecode(schema, "asdf")).toBe("asdf");
-      expect(encodeAndDecode(schema, null)).toBe(null);
-      expect(encodeAndDecode(schema, undefined)).toBe(null);
-    });
     test("transform inside catch", () => {
-      const schema = z
-        .object({
-          foo: z
-            .string()
-            .transform((s) => s.length)
-            .pipe(z.number()),
-        })
-        .catch(() => ({ foo: 1234 }));
-      expect(encodeAndDecode(schema, { foo: "adf" })).toEqual({ foo: 3 });
+      const { schema } = codecFixtures.transformInsideCatch;
       // catch happend outside of the transform.
       // so the transform was applied because of the catch.
       // so the transform cannot be serialized since the schema has changed
@@ -518,86 +289,986 @@ describe("e2e", () => {
       expect(() => encodeAndDecode(schema, { fooasdf: 1 })).toThrow();
     });
   });
-  it("works with complex objects", () => {
-    const complexSchema = z.object({
-      id: z.number(),
+});
+
+describe("createCodec", () => {
+  const schema = z.object({ id: z.number(), name: z.string() });
+
+  it("encodes the same bytes as encode", () => {
+    const codec = createCodec(schema);
+    const value = { id: 1, name: "hi" };
+    expect(new Uint8Array(codec.encode(value))).toEqual(
+      new Uint8Array(encode(schema, value)),
+    );
+    expect(new Uint8Array(codec.encode(value).slice(9))).toEqual(
+      new Uint8Array([0x40, 0x00, 0x01, 0x20, 0x02, 0x68, 0x69]),
+    );
+  });
+  it("decodes values encoded by encode", () => {
+    const codec = createCodec(schema);
+    expect(codec.decode(encode(schema, { id: 1, name: "hi" }))).toEqual({
+      id: 1,
+      name: "hi",
+    });
+  });
+  it("exposes the fingerprint of the header", () => {
+    const codec = createCodec(schema);
+    const header = new DataView(codec.encode({ id: 1, name: "hi" }));
+    expect(header.getBigUint64(1)).toBe(codec.fingerprint);
+    expect(createCodec(z.object({ id: z.string() })).fingerprint).not.toBe(
+      codec.fingerprint,
+    );
+  });
+  it("writes values without header", () => {
+    const codec = createCodec(schema, { header: "none" });
+    const encoded = new Uint8Array(codec.encode({ id: 1, name: "hi" }));
+    expect(encoded).toEqual(
+      new Uint8Array(encode(schema, { id: 1, name: "hi" })).subarray(9),
+    );
+    expect(codec.decode(encoded)).toEqual({ id: 1, name: "hi" });
+  });
+  it("fails to decode values of another schema", () => {
+    const codec = createCodec(schema);
+    expect(() =>
+      codec.decode(encode(z.object({ id: z.string() }), { id: "1" })),
+    ).toThrow();
+  });
+  it("works with recursive schemas", () => {
+    type Tree = { value: number; children: Array<Tree> };
+    const tree: z.ZodType<Tree> = z.object({
+      value: z.number(),
+      children: z.lazy(() => z.array(tree)),
+    });
+    const codec = createCodec(tree);
+    const value = {
+      value: 1,
+      children: [{ value: 2, children: [{ value: 3, children: [] }] }],
+    };
+    expect(codec.decode(codec.encode(value))).toEqual(value);
+  });
+  it("fails for schemas that cannot be encoded", () => {
+    expect(() => createCodec(z.object({ foo: z.any() }))).toThrow();
+  });
+});
+
+describe("encodeInto", () => {
+  const schema = z.object({ id: z.number(), name: z.string() });
+  const value = { id: 1000, name: "hello" };
+
+  it("writes the same bytes as encode", () => {
+    const target = new Uint8Array(64);
+    const length = encodeInto(schema, value, target);
+    expect(target.subarray(0, length)).toEqual(
+      new Uint8Array(encode(schema, value)),
+    );
+  });
+  it("writes at the given offset", () => {
+    const target = new Uint8Array(64);
+    const length = encodeInto(schema, value, target, 10);
+    expect(target.subarray(0, 10)).toEqual(new Uint8Array(10));
+    expect(decode(schema, target.slice(10, 10 + length).buffer)).toEqual(value);
+  });
+  it("reports the encoded size", () => {
+    expect(encodedSize(schema, value)).toBe(encode(schema, value).byteLength);
+    expect(encodedSize(schema, value)).toBe(
+      encodeInto(schema, value, new Uint8Array(64)),
+    );
+  });
+  it("fails without writing if the target is too small", () => {
+    const size = encodedSize(schema, value);
+    const target = new Uint8Array(size + 2);
+    expect(() => encodeInto(schema, value, target, 3)).toThrow(
+      /target buffer is too small/,
+    );
+    expect(target).toEqual(new Uint8Array(size + 2));
+    expect(encodeInto(schema, value, target, 2)).toBe(size);
+  });
+  it("fails for offsets outside of the target", () => {
+    expect(() => encodeInto(schema, value, new Uint8Array(64), -1)).toThrow();
+    expect(() => encodeInto(schema, value, new Uint8Array(64), 65)).toThrow();
+  });
+  it("fails for invalid values", () => {
+    expect(() => encodeInto(schema, { id: "1" }, new Uint8Array(64))).toThrow();
+  });
+});
+
+describe("decode views", () => {
+  const schema = z.object({ id: z.number(), name: z.string() });
+  const value = { id: 1000, name: "hello" };
+
+  it("decodes an Uint8Array", () => {
+    expect(decode(schema, new Uint8Array(encode(schema, value)))).toEqual(
+      value,
+    );
+  });
+  it("decodes a node Buffer", () => {
+    expect(decode(schema, Buffer.from(encode(schema, value)))).toEqual(value);
+  });
+  it("decodes a view into a bigger buffer", () => {
+    const encoded = new Uint8Array(encode(schema, value));
+    const received = new Uint8Array(encoded.byteLength + 20).fill(0xff);
+    received.set(encoded, 7);
+    expect(
+      decode(schema, received.subarray(7, 7 + encoded.byteLength)),
+    ).toEqual(value);
+    expect(
+      decode(schema, new DataView(received.buffer, 7, encoded.byteLength)),
+    ).toEqual(value);
+  });
+  it("reports the number of bytes read", () => {
+    const encoded = encode(schema, value);
+    expect(decodeWithLength(schema, encoded)).toEqual({
+      value,
+      bytesRead: encoded.byteLength,
+    });
+  });
+  it("decodes values packed back to back", () => {
+    const values = [value, { id: 1, name: "" }, { id: -5, name: "world" }];
+    const received = new Uint8Array(256);
+    let length = 0;
+    for (const v of values) {
+      length += encodeInto(schema, v, received, length);
+    }
+    const decoded = [];
+    let offset = 0;
+    while (offset < length) {
+      const { value, bytesRead } = decodeWithLength(schema, received, offset);
+      decoded.push(value);
+      offset += bytesRead;
+    }
+    expect(decoded).toEqual(values);
+    expect(offset).toBe(length);
+  });
+});
+
+describe("varint", () => {
+  const numbers = [
+    0,
+    1,
+    -1,
+    63,
+    -64,
+    64,
+    -65,
+    200,
+    2 ** 31,
+    -(2 ** 31),
+    2 ** 51,
+    -(2 ** 51) - 1,
+    Number.MAX_SAFE_INTEGER,
+    Number.MIN_SAFE_INTEGER,
+  ];
+  const bigints = [
+    ...numbers.map(BigInt),
+    2n ** 62n,
+    -(2n ** 62n) - 1n,
+    2n ** 63n - 2n,
+    2n ** 63n - 1n,
+    -(2n ** 63n),
+  ];
+  const numberCodec = createCodec(z.number(), { integers: "varint" });
+  const bigintCodec = createCodec(z.bigint(), { integers: "varint" });
+
+  test.each(numbers)("round trips the number %p", (value) => {
+    expect(numberCodec.decode(numberCodec.encode(value))).toBe(value);
+  });
+  test.each(bigints)("round trips the bigint %p", (value) => {
+    expect(bigintCodec.decode(bigintCodec.encode(value))).toBe(value);
+  });
+  it("is never longer than the fixed width", () => {
+    const fixedCodec = createCodec(z.bigint());
+    for (const value of bigints) {
+      expect(bigintCodec.encodedSize(value)).toBeLessThanOrEqual(
+        fixedCodec.encodedSize(value),
+      );
+    }
+  });
+  it("encodes small integers and timestamps in fewer bytes", () => {
+    const fixedCodec = createCodec(z.number());
+    expect(fixedCodec.encodedSize(200)).toBe(9 + 3);
+    expect(numberCodec.encodedSize(200)).toBe(9 + 3);
+    expect(fixedCodec.encodedSize(300)).toBe(9 + 3);
+    expect(numberCodec.encodedSize(-60)).toBe(9 + 2);
+    const timestamp = Date.UTC(2024, 0, 1);
+    expect(fixedCodec.encodedSize(timestamp)).toBe(9 + 9);
+    expect(numberCodec.encodedSize(timestamp)).toBe(9 + 1 + 6);
+    expect(numberCodec.decode(numberCodec.encode(timestamp))).toBe(timestamp);
+  });
+  it("uses zigzag so small negative numbers stay small", () => {
+    const bytes = new Uint8Array(
+      createCodec(z.bigint(), { integers: "varint" }).encode(-1n),
+    );
+    expect(Array.from(bytes.subarray(9))).toEqual([0x0c, 0x01]);
+  });
+  it("keeps floats and booleans unchanged", () => {
+    const schema = z.object({ f: z.number(), b: z.boolean() });
+    const value = { f: 1.5, b: true };
+    const codec = createCodec(schema, { integers: "varint" });
+    expect(new Uint8Array(codec.encode(value))).toEqual(
+      new Uint8Array(encode(schema, value)),
+    );
+  });
+  it("can be selected per schema node", () => {
+    const schema = z.object({
+      id: zs.varint(z.number()),
+      nested: zs.varint(z.object({ a: z.number(), b: zs.fixed(z.number()) })),
+      fixed: z.number(),
+    });
+    const value = {
+      id: 100000,
+      nested: { a: 100000, b: 100000 },
+      fixed: 100000,
+    };
+    const encoded = encode(schema, value);
+    // 2 object headers + 2 varints (1 + 3) + 2 i32 (1 + 4)
+    expect(encoded.byteLength).toBe(9 + 2 + 4 + 4 + 5 + 5);
+    expect(decode(schema, encoded)).toEqual(value);
+  });
+  it("doesn't change the schema that is passed to zs.varint", () => {
+    const id = z.number();
+    const schema = z.object({ a: id, b: zs.varint(id) });
+    const encoded = new Uint8Array(encode(schema, { a: 100000, b: 100000 }));
+    expect(Array.from(encoded.subarray(10))).toEqual([
+      0x03, 0xa0, 0x86, 0x01, 0x00, 0x0b, 0xc0, 0x9a, 0x0c,
+    ]);
+  });
+  it("is decoded by codecs without the option", () => {
+    const schema = z.object({ id: z.number(), big: z.bigint() });
+    const value = { id: -123456789, big: 42n };
+    const encoded = createCodec(schema, { integers: "varint" }).encode(value);
+    expect(decode(schema, encoded)).toEqual(value);
+    expect(encoded.byteLength).toBeLessThan(encode(schema, value).byteLength);
+  });
+});
+
+describe("fixed layout", () => {
+  const byte = z.number().int().min(0).max(255);
+  const body = (schema: z.ZodTypeAny, value: unknown) =>
+    Array.from(new Uint8Array(encode(schema, value)).subarray(9));
+
+  it("writes bounded integers without type tag", () => {
+    expect(body(byte, 200)).toEqual([200]);
+    expect(body(z.number().int().min(-128).max(127), -1)).toEqual([0xff]);
+    expect(body(z.number().int().min(0).max(0xffff), 0x1234)).toEqual([
+      0x34, 0x12,
+    ]);
+    expect(body(z.number().int().min(-1).max(0xffff), 1)).toEqual([1, 0, 0, 0]);
+  });
+  test.each([
+    [z.number().int().gt(-1).lt(256), 255, 1],
+    [z.number().int().positive().max(255), 255, 1],
+    [z.number().int().min(-0x8000).max(0x7fff), -0x8000, 2],
+    [z.number().int().min(0).max(0xffffffff), 0xffffffff, 4],
+    [
+      z
+        .number()
+        .int()
+        .min(-(2 ** 31))
+        .max(2 ** 31 - 1),
+      -(2 ** 31),
+      4,
+    ],
+    [z.number().finite(), 1.5, 8],
+    [z.bigint().min(0n).max(255n), 255n, 1],
+    [
+      z
+        .bigint()
+        .min(-(2n ** 31n))
+        .max(2n ** 31n - 1n),
+      -(2n ** 31n),
+      4,
+    ],
+    [
+      z
+        .bigint()
+        .min(0n)
+        .max(2n ** 64n - 1n),
+      2n ** 64n - 1n,
+      8,
+    ],
+    [
+      z
+        .bigint()
+        .gte(-(2n ** 63n))
+        .lt(2n ** 63n),
+      -(2n ** 63n),
+      8,
+    ],
+  ] as Array<[z.ZodTypeAny, unknown, number]>)(
+    "round trips %p with %p in %p bytes",
+    (schema, value, length) => {
+      expect(body(schema, value).length).toBe(length);
+      expect(encodeAndDecode(schema, value)).toBe(value);
+    },
+  );
+  it("keeps the type tag for unbounded or wide integers", () => {
+    expect(body(z.number().int().nonnegative(), 300)).toEqual([0x02, 44, 1]);
+    expect(
+      body(
+        z
+          .number()
+          .int()
+          .min(0)
+          .max(2 ** 40),
+        1,
+      ),
+    ).toEqual([0x00, 1]);
+    expect(body(z.number().min(0).max(255), 1)).toEqual([0x00, 1]);
+  });
+  it("writes booleans as a bare byte", () => {
+    expect(body(z.boolean(), true)).toEqual([1]);
+    expect(body(z.boolean(), false)).toEqual([0]);
+    expect(encodeAndDecode(z.object({ a: z.boolean() }), { a: false })).toEqual(
+      { a: false },
+    );
+  });
+  it("coerces the value before writing it", () => {
+    expect(encodeAndDecode(z.coerce.number().int().min(0).max(255), "12")).toBe(
+      12,
+    );
+    expect(encodeAndDecode(z.coerce.bigint().min(0n).max(10n), "3")).toBe(3n);
+  });
+  it("tells values apart from null and undefined", () => {
+    // 0x40, 0x44 and 0x48 are the headers of objects, null and undefined
+    const schema = z.array(byte.nullable().optional());
+    const value = [0x40, null, 0x44, undefined, 0x48, 0];
+    expect(encodeAndDecode(schema, value)).toEqual(value);
+    expect(encodeAndDecode(byte.default(0x48), 0x48)).toBe(0x48);
+    expect(
+      encodeAndDecode(z.object({ a: byte.optional(), b: byte }), { b: 0x4c }),
+    ).toEqual({ b: 0x4c });
+    expect(
+      encodeAndDecode(z.object({ a: z.boolean().optional() }), { a: true }),
+    ).toEqual({ a: true });
+  });
+  it("works inside unions", () => {
+    const schema = z.union([z.boolean(), byte, z.string()]);
+    for (const value of [true, false, 0, 255, "x"]) {
+      expect(encodeAndDecode(schema, value)).toBe(value);
+    }
+  });
+  it("is part of the schema identity", () => {
+    const fingerprints = [
+      z.number(),
+      byte,
+      z.number().int().min(0).max(0xffff),
+      z.number().finite(),
+    ].map((schema) => createCodec(schema).fingerprint);
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+    expect(() =>
+      decode(z.number().int().min(0).max(0xffff), encode(byte, 1)),
+    ).toThrow(/Schemas do not match/);
+  });
+});
+
+describe("binary", () => {
+  it("writes bytes raw after a length header", () => {
+    const encoded = new Uint8Array(
+      encode(zs.bytes(), new Uint8Array([1, 2, 3])),
+    );
+    expect(Array.from(encoded.subarray(9))).toEqual([0xe3, 1, 2, 3]);
+    expect(decode(zs.bytes(), encoded)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+  it("encodes only the part of the buffer that is viewed", () => {
+    const value = new Uint8Array([0, 1, 2, 3, 4, 5]).subarray(2, 4);
+    expect(encodeAndDecode(zs.bytes(), value)).toEqual(new Uint8Array([2, 3]));
+  });
+  it("encodes and decodes an ArrayBuffer", () => {
+    const value = new Uint8Array([9, 8, 7]).buffer;
+    const decoded = encodeAndDecode(zs.arrayBuffer(), value);
+    expect(decoded).toBeInstanceOf(ArrayBuffer);
+    expect(new Uint8Array(decoded)).toEqual(new Uint8Array([9, 8, 7]));
+  });
+  test.each([
+    new Uint8ClampedArray([0, 128, 255]),
+    new Int8Array([-128, 0, 127]),
+    new Uint16Array([0, 0xffff]),
+    new Int16Array([-0x8000, 0, 0x7fff]),
+    new Uint32Array([0, 0xffffffff]),
+    new Int32Array([-(2 ** 31), 2 ** 31 - 1]),
+    new Float32Array([0.5, -1.25, Infinity]),
+    new Float64Array([Math.PI, -1, Infinity]),
+    new BigInt64Array([-(2n ** 63n), 2n ** 63n - 1n]),
+    new BigUint64Array([0n, 2n ** 64n - 1n]),
+  ])("encodes and decodes %p", (value) => {
+    const schema = zs.typedArray(value.constructor as Float64ArrayConstructor);
+    const encoded = encode(schema, value);
+    const headerLength = value.byteLength < 8 ? 1 : 2;
+    expect(encoded.byteLength).toBe(9 + headerLength + value.byteLength);
+    const decoded = decode(schema, encoded);
+    expect(decoded).toBeInstanceOf(value.constructor);
+    expect(decoded).toEqual(value as any);
+  });
+  it("uses the extended length header for big buffers", () => {
+    const value = new Uint8Array(2 ** 20).map((_, i) => i);
+    expect(encodeAndDecode(zs.bytes(), value)).toEqual(value);
+  });
+  it("works inside objects and with optional fields", () => {
+    const schema = z.object({
       name: z.string(),
-      email: z.string().email(),
-      isAdmin: z.boolean(),
-      roles: z.array(z.enum(["admin", "mod"])),
-      lastLogin: z.date(),
-      birthDate: z.date().optional(),
-      things: z.array(z.string()).nullable(),
-      fooUnion: z.union([z.string(), z.number()]),
-      fooDiscriminatedUnion: z.discriminatedUnion("foo", [
-        z.object({ foo: z.literal("foo"), bar: z.number() }),
-        z.object({ foo: z.literal("bar"), baz: z.string() }),
-      ]),
-      nesting: z.object({
-        foo: z.object({
-          bar: z.object({
-            baz: z.string(),
-          }),
-        }),
+      content: zs.bytes(),
+      samples: zs.typedArray(Float32Array).optional(),
+    });
+    const value = { name: "a", content: new Uint8Array([1, 2]) };
+    expect(encodeAndDecode(schema, value)).toEqual(value);
+    const withSamples = { ...value, samples: new Float32Array([1, 2]) };
+    expect(encodeAndDecode(schema, withSamples)).toEqual(withSamples);
+  });
+  it("fails for values of another type", () => {
+    expect(() => encode(zs.bytes(), new Int8Array(2))).toThrow();
+    expect(() => encode(zs.bytes(), [1, 2])).toThrow();
+  });
+  it("copies the bytes by default", () => {
+    const encoded = new Uint8Array(encode(zs.bytes(), new Uint8Array([1, 2])));
+    const decoded = decode(zs.bytes(), encoded);
+    expect(decoded.buffer).not.toBe(encoded.buffer);
+    encoded[encoded.length - 1] = 9;
+    expect(decoded).toEqual(new Uint8Array([1, 2]));
+  });
+  it("returns views into the input with zeroCopy", () => {
+    const encoded = new Uint8Array(encode(zs.bytes(), new Uint8Array([1, 2])));
+    const decoded = decode(zs.bytes(), encoded, { zeroCopy: true });
+    expect(decoded.buffer).toBe(encoded.buffer);
+    encoded[encoded.length - 1] = 9;
+    expect(decoded).toEqual(new Uint8Array([1, 9]));
+  });
+  it("copies typed arrays that are not aligned in the input with zeroCopy", () => {
+    const schema = zs.typedArray(Float32Array);
+    const value = new Float32Array([1.5, 2.5]);
+    // the floats start at offset 11 which is not a multiple of 4
+    const decoded = decode(schema, encode(schema, value), { zeroCopy: true });
+    expect(decoded).toEqual(value);
+    const received = new Uint8Array(32);
+    const length = encodeInto(schema, value, received, 1);
+    const view = decode(schema, received.subarray(1, 1 + length), {
+      zeroCopy: true,
+    });
+    expect(view).toEqual(value);
+    expect(view.buffer).toBe(received.buffer);
+  });
+  it("is part of the schema identity", () => {
+    const fingerprints = [
+      zs.bytes(),
+      zs.arrayBuffer(),
+      zs.typedArray(Int8Array),
+      zs.typedArray(Float32Array),
+      z.array(z.number()),
+    ].map((schema: z.ZodTypeAny) => createCodec(schema).fingerprint);
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+  });
+});
+
+describe("union options", () => {
+  it("picks the option of a discriminated union by the discriminator", () => {
+    const options = ["a", "b", "c"].map((type) =>
+      z.object({ type: z.literal(type), value: z.number() }),
+    );
+    const schema = z.discriminatedUnion("type", options as any);
+    const codec = createCodec(schema);
+    const spies = options.map((option) => spyOn(option, "safeParse"));
+    const encoded = new Uint8Array(codec.encode({ type: "c", value: 1 }));
+    expect(encoded[9]).toBe(0xa2);
+    expect(codec.decode(encoded)).toEqual({ type: "c", value: 1 });
+    spies.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+  });
+  it("works with discriminators that are not strings", () => {
+    const schema = z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal(1), a: z.string() }),
+      z.object({ kind: z.literal(false), b: z.number() }),
+      z.object({ kind: z.null() }),
+    ]);
+    expect(encodeAndDecode(schema, { kind: 1, a: "x" })).toEqual({
+      kind: 1,
+      a: "x",
+    });
+    expect(encodeAndDecode(schema, { kind: false, b: 2 })).toEqual({
+      kind: false,
+      b: 2,
+    });
+    expect(encodeAndDecode(schema, { kind: null })).toEqual({ kind: null });
+  });
+
+  const overlapping = z.union([z.number().int(), z.number(), z.string()]);
+
+  it("uses the first matching option by default", () => {
+    const encoded = new Uint8Array(encode(overlapping, 1));
+    expect(encoded[9]).toBe(0xa0);
+  });
+  it("fails on ambiguous values with the strict strategy", () => {
+    const codec = createCodec(overlapping, { unions: "strict" });
+    expect(() => codec.encode(1)).toThrow(/matches the options 0, 1/);
+    expect(codec.decode(codec.encode(1.5))).toBe(1.5);
+    expect(codec.decode(codec.encode("x"))).toBe("x");
+  });
+  it("lets a function pick between the matching options", () => {
+    const codec = createCodec(overlapping, {
+      unions: (matches) => matches[matches.length - 1],
+    });
+    expect(new Uint8Array(codec.encode(1))[9]).toBe(0xa1);
+    expect(codec.decode(codec.encode(1))).toBe(1);
+  });
+  it("fails if the function picks an option that doesn't match", () => {
+    const codec = createCodec(overlapping, { unions: () => 2 });
+    expect(() => codec.encode(1)).toThrow(/only matches the options 0, 1/);
+  });
+});
+
+describe("errors", () => {
+  const schema = z.object({
+    players: z.array(z.object({ x: z.number() })),
+  });
+  const value = { players: [1, 1, 1, 1, 1].map((x) => ({ x })) };
+
+  const catchError = (run: () => unknown): ZodSerializeError => {
+    try {
+      run();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ZodSerializeError);
+      return error as ZodSerializeError;
+    }
+    throw new Error("expected an error");
+  };
+
+  it("reports values that don't match the schema with their path", () => {
+    const error = catchError(() =>
+      encode(schema, { players: [{ x: 1 }, { x: "1" }] }),
+    );
+    expect(error.code).toBe("INVALID_VALUE");
+    expect(error.path).toEqual(["players", 1, "x"]);
+    expect(error.message).toMatch(/\(at players\[1\]\.x\)$/);
+  });
+  it("reports malformed values with their path and offset", () => {
+    const encoded = new Uint8Array(encode(schema, value));
+    const changed = new Uint8Array(
+      encode(schema, {
+        players: value.players.map((player, i) =>
+          i === 3 ? { x: 2 } : player,
+        ),
       }),
-      tuple: z.tuple([z.string(), z.number()]),
-      tuple2: z.tuple([z.string(), z.number()]).readonly(),
-      set: z.set(z.string()),
-      map: z.map(z.number(), z.number()),
-      record: z.record(z.string(), z.number()),
-      foobar: z.object({ foo: z.string() }).and(z.object({ bar: z.string() })),
-      related: z.array(
-        z.object({
-          id: z.nan(),
-          age: z.number(),
-          name: z.string(),
+    );
+    const bodyOffset = encoded.findIndex((byte, i) => byte !== changed[i]);
+    // a header of the binary type where a number is expected
+    encoded[bodyOffset - 1] = 0xe0;
+    const error = catchError(() => decode(schema, encoded));
+    expect(error.code).toBe("INVALID_VALUE");
+    expect(error.path).toEqual(["players", 3, "x"]);
+    expect(error.message).toBe("unexpected type tag 7 (at players[3].x)");
+    expect(error.offset).toBe(bodyOffset - 1);
+  });
+  it("reports buffers of other schemas", () => {
+    const error = catchError(() => decode(z.string(), encode(schema, value)));
+    expect(error.code).toBe("SCHEMA_MISMATCH");
+  });
+  it("reports buffers of other protocol versions", () => {
+    const encoded = new Uint8Array(encode(schema, value));
+    encoded[0] = PROTOCOL_VERSION + 1;
+    const error = catchError(() => decode(schema, encoded));
+    expect(error.code).toBe("PROTOCOL_VERSION");
+    expect(error.offset).toBe(0);
+  });
+  it("reports buffers of the other layout", () => {
+    const tagged = createCodec(schema);
+    const compact = createCodec(schema, { layout: "compact" });
+    const encoded = new Uint8Array(compact.encode(value));
+    expect(encoded[0]).toBe(LAYOUT_VERSIONS.compact);
+    const error = catchError(() => tagged.decode(encoded));
+    expect(error.code).toBe("PROTOCOL_VERSION");
+    expect(error.message).toMatch(/decode it with layout: "compact"/);
+    expect(() => compact.decode(tagged.encode(value))).toThrow(
+      expect.objectContaining({ code: "PROTOCOL_VERSION" }),
+    );
+    expect(compact.decode(encoded)).toEqual(
+      tagged.decode(tagged.encode(value)),
+    );
+  });
+  it.each([1, 5, 12, 20])(
+    "reports buffers cut off after %i bytes",
+    (length) => {
+      const encoded = encode(schema, value).slice(0, length);
+      expect(catchError(() => decode(schema, encoded)).code).toBe("TRUNCATED");
+    },
+  );
+  it("reports schemas that can't be encoded", () => {
+    const error = catchError(() => createCodec(z.object({ a: z.any() })));
+    expect(error.code).toBe("UNSUPPORTED_SCHEMA");
+  });
+  it("reports targets that are too small", () => {
+    const error = catchError(() =>
+      encodeInto(schema, value, new Uint8Array(4)),
+    );
+    expect(error.code).toBe("LIMIT_EXCEEDED");
+  });
+
+  describe("safeEncode and safeDecode", () => {
+    it("return the result", () => {
+      const encoded = safeEncode(schema, value);
+      expect(encoded.success).toBe(true);
+      expect(safeDecode(schema, encoded.data!)).toEqual({
+        success: true,
+        data: value,
+      });
+    });
+    it("return the error instead of throwing", () => {
+      const encoded = safeEncode(schema, { players: [{}] });
+      expect(encoded.success).toBe(false);
+      expect(encoded.error?.code).toBe("INVALID_VALUE");
+      expect(encoded.error?.path).toEqual(["players", 0, "x"]);
+
+      const decoded = safeDecode(schema, new Uint8Array(3));
+      expect(decoded.success).toBe(false);
+      expect(decoded.error?.code).toBe("TRUNCATED");
+    });
+    it("return errors of schemas that can't be encoded", () => {
+      const result = safeDecode(z.any(), new Uint8Array(12));
+      expect(result.error?.code).toBe("UNSUPPORTED_SCHEMA");
+    });
+    it("are available on codecs", () => {
+      const codec = createCodec(schema);
+      const encoded = codec.safeEncode(value);
+      expect(codec.safeDecode(encoded.data!).data).toEqual(value);
+      expect(codec.safeDecode(new Uint8Array(0)).error?.code).toBe("TRUNCATED");
+    });
+  });
+});
+
+describe("schemaFingerprint", () => {
+  type List = { value: number; next?: List };
+  const list: z.ZodType<List> = z.lazy(() =>
+    z.object({ value: z.number(), next: list.optional() }),
+  );
+  enum Direction {
+    Up,
+    Down,
+  }
+  enum Direction2 {
+    Up,
+    Left,
+  }
+
+  it.each([
+    [
+      "field order",
+      z.object({ x: z.number(), y: z.number() }),
+      z.object({ y: z.number(), x: z.number() }),
+    ],
+    ["field names", z.object({ x: z.number() }), z.object({ z: z.number() })],
+    [
+      "nesting",
+      z.object({ a: z.object({ b: z.string() }), c: z.string() }),
+      z.object({ a: z.object({ b: z.string(), c: z.string() }) }),
+    ],
+    ["enum members", z.enum(["a", "b"]), z.enum(["a", "c"])],
+    ["enum member order", z.enum(["a", "b"]), z.enum(["b", "a"])],
+    ["enums and strings", z.enum(["a", "b"]), z.string()],
+    [
+      "literal fields",
+      z.object({ type: z.literal("a") }),
+      z.object({ type: z.literal("b") }),
+    ],
+    [
+      "literal and string fields",
+      z.object({ type: z.literal("a") }),
+      z.object({ type: z.string() }),
+    ],
+    ["native enum members", z.nativeEnum(Direction), z.nativeEnum(Direction2)],
+    ["literal values", z.literal("a"), z.literal("b")],
+    ["literal types", z.literal(1), z.literal(1n)],
+    [
+      "optional",
+      z.object({ a: z.string() }),
+      z.object({ a: z.string().optional() }),
+    ],
+    ["nullable", z.string(), z.string().nullable()],
+    [
+      "recursion",
+      list,
+      z.object({
+        value: z.number(),
+        next: z.object({ value: z.number() }).optional(),
+      }),
+    ],
+  ] as Array<[string, z.ZodTypeAny, z.ZodTypeAny]>)("covers %s", (_, a, b) => {
+    expect(schemaFingerprint(a)).not.toBe(schemaFingerprint(b));
+    expect(schemaFingerprint(a)).toBe(schemaFingerprint(a));
+  });
+  it("is written into the header", () => {
+    const schema = z.object({ x: z.number(), y: z.number() });
+    const header = new DataView(encode(schema, { x: 1, y: 2 }));
+    expect(header.getUint8(0)).toBe(LAYOUT_VERSIONS.tagged);
+    expect(header.getBigUint64(1)).toBe(schemaFingerprint(schema));
+    expect(createCodec(schema).fingerprint).toBe(schemaFingerprint(schema));
+  });
+  it("rejects buffers of a schema with swapped keys", () => {
+    const buffer = encode(z.object({ x: z.number(), y: z.string() }), {
+      x: 1,
+      y: "a",
+    });
+    expect(() =>
+      decode(z.object({ y: z.string(), x: z.number() }), buffer),
+    ).toThrow(expect.objectContaining({ code: "SCHEMA_MISMATCH" }));
+  });
+  it("covers only the type tags in structural mode", () => {
+    const a = z.object({ x: z.number(), y: z.number() });
+    const b = z.object({ y: z.number(), x: z.number() });
+    expect(schemaFingerprint(a, "structural")).toBe(
+      schemaFingerprint(b, "structural"),
+    );
+    const codec = createCodec(a, { fingerprint: "structural" });
+    expect(codec.fingerprint).toBe(schemaFingerprint(a, "structural"));
+    // the fields are read by position
+    expect(
+      createCodec(b, { fingerprint: "structural" }).decode(
+        codec.encode({ x: 1, y: 2 }),
+      ),
+    ).toEqual({ y: 1, x: 2 });
+  });
+  it("decodes values of protocol version 1 in structural mode", () => {
+    const schema = z.object({
+      name: z.string(),
+      tags: z.array(z.string()),
+      alive: z.boolean(),
+      level: z.number().int().min(0).max(255),
+      nick: z.string().nullable(),
+    });
+    // written by version 1, its fingerprint has no version in front of the identity
+    // and its booleans and bounded numbers have a type tag
+    const buffer = Buffer.from(
+      "012a8fdb3880a2f5be4020036164618220016120016209000744",
+      "hex",
+    );
+    const structural = createCodec(schema, { fingerprint: "structural" });
+    expect(structural.decode(buffer)).toEqual({
+      name: "ada",
+      tags: ["a", "b"],
+      alive: true,
+      level: 7,
+      nick: null,
+    });
+    expect(
+      createCodec(z.array(z.boolean().optional()), {
+        fingerprint: "structural",
+      }).decode(Buffer.from("014eb0c0d7e45d0e46820948", "hex")),
+    ).toEqual([true, undefined]);
+    // values of version 2 keep the fixed layouts
+    expect(
+      structural.decode(
+        structural.encode({
+          name: "bo",
+          tags: [],
+          alive: false,
+          level: 200,
+          nick: "b",
         }),
       ),
+    ).toEqual({ name: "bo", tags: [], alive: false, level: 200, nick: "b" });
+    expect(() => createCodec(schema).decode(buffer)).toThrow(
+      expect.objectContaining({ code: "PROTOCOL_VERSION" }),
+    );
+    expect(() =>
+      createCodec(z.object({ name: z.string() }), {
+        fingerprint: "structural",
+      }).decode(buffer),
+    ).toThrow(expect.objectContaining({ code: "SCHEMA_MISMATCH" }));
+  });
+  it("covers the bits of the object bitmap in structural mode", () => {
+    const structural = (schema: z.ZodTypeAny) =>
+      schemaFingerprint(schema, "structural", "compact");
+    expect(structural(z.object({ a: z.string().optional() }))).not.toBe(
+      structural(z.object({ a: z.string() })),
+    );
+    expect(structural(z.object({ a: z.boolean() }))).not.toBe(
+      structural(z.object({ a: z.number().int().min(0).max(1) })),
+    );
+  });
+  it("covers the number of enum members and elided fields in structural mode", () => {
+    const structural = (schema: z.ZodTypeAny) =>
+      schemaFingerprint(schema, "structural", "compact");
+    expect(structural(z.enum(["a", "b"]))).toBe(structural(z.enum(["c", "d"])));
+    expect(structural(z.enum(["a", "b"]))).not.toBe(
+      structural(z.enum(["a", "b", "c"])),
+    );
+    expect(structural(z.object({ type: z.literal("a") }))).not.toBe(
+      structural(z.object({ type: z.string() })),
+    );
+  });
+});
+
+describe("schema evolution", () => {
+  const v1 = z.object({
+    id: z.number(),
+    name: z.string(),
+    tags: z.array(z.object({ label: z.string(), color: z.string() })),
+  });
+  const v2 = z.object({
+    id: z.number(),
+    email: z.string().optional(),
+    name: z.string(),
+    role: z.enum(["user", "admin"]).default("user"),
+    tags: z.array(z.object({ label: z.string() })),
+  });
+  const v1Value = {
+    id: 1,
+    name: "a",
+    tags: [{ label: "x", color: "red" }],
+  };
+
+  it("fills in fields that the writer didn't have", () => {
+    const codec = createCodec(v2, { writers: [v1] });
+    expect(codec.decode(encode(v1, v1Value))).toEqual({
+      id: 1,
+      name: "a",
+      role: "user",
+      tags: [{ label: "x" }],
+    });
+  });
+  it("skips fields that the reader doesn't have", () => {
+    const buffer = encode(v2, {
+      id: 1,
+      email: "a@b.c",
+      name: "a",
+      role: "admin",
+      tags: [{ label: "x" }],
+    });
+    const reader = z
+      .object({
+        id: z.number(),
+        name: z.string(),
+        tags: z.array(
+          z.object({ label: z.string(), color: z.string().optional() }),
+        ),
+      })
+      .strict();
+    expect(createCodec(reader, { writers: [v2] }).decode(buffer)).toEqual({
+      id: 1,
+      name: "a",
+      tags: [{ label: "x" }],
     });
+  });
+  it("still decodes its own buffers", () => {
+    const codec = createCodec(v2, { writers: [v1] });
+    const value = { id: 1, name: "a", role: "admin" as const, tags: [] };
+    expect(codec.decode(codec.encode(value))).toEqual(value);
+  });
+  it("rejects buffers of unknown writers", () => {
+    const codec = createCodec(v2, { writers: [v1] });
+    expect(() => codec.decode(encode(z.string(), "a"))).toThrow(
+      expect.objectContaining({ code: "SCHEMA_MISMATCH" }),
+    );
+  });
+  it("rejects writers without a required field of the reader", () => {
+    expect(() =>
+      createCodec(v1.extend({ age: z.number() }), { writers: [v1] }),
+    ).toThrow(/field age is required by the reader schema/);
+  });
+  it("fails on union options the reader doesn't know", () => {
+    const oldUnion = z.union([z.string(), z.object({ a: z.number() })]);
+    const newUnion = z.union([
+      z.string(),
+      z.object({ a: z.number(), b: z.number().optional() }),
+      z.boolean(),
+    ]);
+    const codec = createCodec(z.object({ u: oldUnion }), {
+      writers: [z.object({ u: newUnion })],
+    });
+    const encodeNew = (u: unknown) => encode(z.object({ u: newUnion }), { u });
+    expect(codec.decode(encodeNew("a"))).toEqual({ u: "a" });
+    expect(codec.decode(encodeNew({ a: 1, b: 2 }))).toEqual({ u: { a: 1 } });
+    const result = codec.safeDecode(encodeNew(true));
+    expect(result.error?.code).toBe("SCHEMA_MISMATCH");
+    expect(result.error?.message).toBe(
+      "union option 2 of the writer schema is unknown to the reader schema (at u)",
+    );
+  });
+  it("resolves recursive schemas", () => {
+    type OldNode = { value: number; children: Array<OldNode> };
+    const oldNode: z.ZodType<OldNode> = z.lazy(() =>
+      z.object({ value: z.number(), children: z.array(oldNode) }),
+    );
+    type NewNode = { value: number; label?: string; children: Array<NewNode> };
+    const newNode: z.ZodType<NewNode> = z.lazy(() =>
+      z.object({
+        value: z.number(),
+        label: z.string().optional(),
+        children: z.array(newNode),
+      }),
+    );
+    const tree = { value: 1, children: [{ value: 2, children: [] }] };
+    expect(
+      createCodec(newNode, { writers: [oldNode] }).decode(
+        encode(oldNode, tree),
+      ),
+    ).toEqual(tree);
+    expect(
+      createCodec(oldNode, { writers: [newNode] }).decode(
+        encode(newNode, {
+          value: 1,
+          label: "root",
+          children: [{ value: 2, label: "leaf", children: [] }],
+        }),
+      ),
+    ).toEqual(tree);
+  });
+});
 
-    const value: z.infer<typeof complexSchema> = {
-      id: -3,
-      name: "aaaaa",
-      email: "aaaaaa@aa.com",
-      isAdmin: true,
-      roles: ["admin", "mod", "admin"],
-      lastLogin: new Date("2024-01-01"),
-      birthDate: undefined,
-      things: null,
-      fooUnion: "",
-      nesting: {
-        foo: {
-          bar: {
-            baz: "baz",
-          },
-        },
-      },
-      fooDiscriminatedUnion: { foo: "foo", bar: 3 },
-      set: new Set(["foo", "bar"]),
-      tuple: ["foo", 3],
-      tuple2: ["foo", 3],
-      foobar: { foo: "foo", bar: "bar" },
-      map: new Map([
-        [1, 2],
-        [3, 4],
-      ]),
-      record: {
-        foo: 1,
-        bar: 2,
-      },
-      related: [
-        {
-          id: NaN,
-          age: Infinity,
-          name: "",
-        },
-        {
-          id: NaN,
-          age: 1234567890,
-          name: "asdfajslkdföjdskfjölsdjökdlajöflkjasöfjsdalk😀",
-        },
-      ],
-    };
-    expect(encodeAndDecode(complexSchema, value)).toEqual(value);
+describe("header modes", () => {
+  const schema = z.object({ dx: z.number(), dy: z.number() });
+  const value = { dx: 1, dy: -1 };
+  const body = new Uint8Array(encode(schema, value)).subarray(9);
+
+  it.each([
+    ["full", 9],
+    ["hash32", 5],
+    ["hash16", 3],
+    ["none", 0],
+  ] as const)("writes the %s header with %i bytes", (header, length) => {
+    const codec = createCodec(schema, { header });
+    const encoded = new Uint8Array(codec.encode(value));
+    expect(encoded.byteLength).toBe(length + body.byteLength);
+    expect(encoded.subarray(length)).toEqual(body);
+    expect(codec.decode(encoded)).toEqual(value);
+  });
+  it("reads the header without decoding the value", () => {
+    const fingerprint = schemaFingerprint(schema);
+    expect(decodeHeader(encode(schema, value))).toEqual({
+      version: LAYOUT_VERSIONS.tagged,
+      header: "full",
+      fingerprint,
+      compressed: false,
+      length: 9,
+    });
+    const short = createCodec(schema, { header: "hash16" }).encode(value);
+    expect(decodeHeader(short)).toEqual({
+      version: LAYOUT_VERSIONS.tagged,
+      header: "hash16",
+      fingerprint: fingerprint >> 48n,
+      compressed: false,
+      length: 3,
+    });
+    const packed = new Uint8Array([0, 0, ...new Uint8Array(short)]);
+    expect(decodeHeader(packed, 2).fingerprint).toBe(fingerprint >> 48n);
+  });
+  it("decodes values with any header", () => {
+    const codec = createCodec(schema);
+    const short = createCodec(schema, { header: "hash32" }).encode(value);
+    expect(codec.decode(short)).toEqual(value);
+    expect(
+      createCodec(schema, { header: "hash16" }).decode(encode(schema, value)),
+    ).toEqual(value);
+  });
+  it("rejects short headers of other schemas", () => {
+    const other = createCodec(z.object({ dx: z.number() }), {
+      header: "hash16",
+    });
+    expect(() => decode(schema, other.encode({ dx: 1 }))).toThrow(
+      expect.objectContaining({ code: "SCHEMA_MISMATCH" }),
+    );
+  });
+  it("rejects unknown header modes", () => {
+    const encoded = new Uint8Array(encode(schema, value));
+    encoded[0] |= 0xc0;
+    expect(() => decode(schema, encoded)).toThrow(/unknown header mode 3/);
+    expect(() => decodeHeader(new Uint8Array([PROTOCOL_VERSION]))).toThrow(
+      expect.objectContaining({ code: "TRUNCATED" }),
+    );
   });
 });
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import { createCodec, encode, formatInspection, inspect } from ".";
+
+const compact = { layout: "compact" } as const;
+
+const schema = z.object({
+  id: z.number(),
+  players: z.array(z.object({ x: z.number(), name: z.string().optional() })),
+  tags: z.map(z.string(), z.number().int().min(0).max(255)),
+});
+const value = {
+  id: 1,
+  players: [{ x: 3, name: "a" }, { x: 4 }],
+  tags: new Map([["k", 1]]),
+};
+
+describe("inspect", () => {
+  it("reads the header and the value", () => {
+    const inspection = inspect(encode(schema, value));
+    const [header, object] = inspection.children!;
+    expect(header).toMatchObject({ kind: "header", start: 0, end: 9 });
+    expect(header.value).toMatchObject({ version: 2, header: "full" });
+    expect(object).toMatchObject({ kind: "object", start: 9, header: 0x40 });
+    expect(object.children![0]).toMatchObject({
+      kind: "number",
+      value: 1,
+      path: [0],
+    });
+  });
+  it("labels the nodes with the fields of the schema", () => {
+    const inspection = inspect(encode(schema, value), schema);
+    const [, object] = inspection.children!;
+    const [id, players, tags] = object.children!;
+    expect(id).toMatchObject({ path: ["id"], value: 1 });
+    expect(players).toMatchObject({ kind: "array", length: 2 });
+    const [first, second] = players.children!;
+    expect(first.children!.map((node) => [node.path, node.value])).toEqual([
+      [["players", 0, "x"], 3],
+      [["players", 0, "name"], "a"],
+    ]);
+    expect(second.children![1]).toMatchObject({
+      kind: "absent",
+      path: ["players", 1, "name"],
+    });
+    // the value is written without type tag
+    expect(tags.children![1]).toMatchObject({
+      kind: "number",
+      path: ["tags", "k"],
+      value: 1,
+    });
+    expect(tags.children![1].header).toBeUndefined();
+    expect(object.end).toBe(inspection.end);
+  });
+  it("stops with an error node at bytes it can't read", () => {
+    const buffer = new Uint8Array(encode(schema, value)).subarray(0, 20);
+    const inspection = inspect(buffer, schema);
+    const players = inspection.children![1].children![1];
+    const error = players.children![1].children!.at(-1)!;
+    expect(error).toMatchObject({ kind: "error", start: 20, end: 20 });
+    expect(error.error).toMatch(/buffer ends after 20 bytes/);
+  });
+  it("reads enum ordinals and elided literal fields", () => {
+    const event = z.object({
+      type: z.literal("move"),
+      direction: z.enum(["up", "down"]),
+    });
+    const buffer = createCodec(event, compact).encode({
+      type: "move",
+      direction: "down",
+    });
+    const inspection = inspect(buffer, event, compact);
+    const [type, direction] = inspection.children![1].children!;
+    expect(type).toMatchObject({ kind: "string", value: "move", start: 10 });
+    expect(type.bytes.byteLength).toBe(0);
+    expect(direction).toMatchObject({
+      kind: "string",
+      value: "down",
+      option: 1,
+      start: 10,
+      end: 11,
+    });
+  });
+  it("reads the fields that are only in the bitmap of their object", () => {
+    const flags = z.object({
+      visible: z.boolean(),
+      label: z.string().nullable(),
+      size: z.number().int().min(0).max(255).optional(),
+    });
+    const buffer = createCodec(flags, compact).encode({
+      visible: true,
+      label: null,
+      size: 3,
+    });
+    const inspection = inspect(buffer, flags, compact);
+    const object = inspection.children![1];
+    // header and bitmap
+    expect(object.children![0].start).toBe(11);
+    const [visible, label, size] = object.children!;
+    expect(visible).toMatchObject({ kind: "boolean", value: true, end: 11 });
+    expect(label).toMatchObject({ kind: "null", value: null, end: 11 });
+    // present values without type tag are written without the header in front
+    expect(size).toMatchObject({
+      kind: "number",
+      value: 3,
+      start: 11,
+      end: 12,
+    });
+  });
+  it("reads objects of the compact layout without schema as one opaque node", () => {
+    const flags = z.object({
+      id: z.number(),
+      visible: z.boolean(),
+      label: z.string().optional(),
+    });
+    const input = { id: 1, visible: true, label: "a" };
+    const buffer = createCodec(flags, compact).encode(input);
+    const inspection = inspect(buffer);
+    const object = inspection.children![1];
+    expect(object).toMatchObject({
+      kind: "opaque",
+      header: 0x40,
+      start: 9,
+      end: buffer.byteLength,
+      length: buffer.byteLength - 9,
+    });
+    expect(inspection.children).toHaveLength(2);
+    const list = createCodec(z.array(flags), compact).encode([input, input]);
+    const array = inspect(list).children![1];
+    expect(array.children).toEqual([
+      expect.objectContaining({ kind: "opaque", path: [0] }),
+    ]);
+    expect(formatInspection(inspect(buffer))).not.toContain("error");
+    // absent fields of the tagged layout have a header of their own
+    const tagged = inspect(
+      encode(z.object({ id: z.number(), label: z.string().optional() }), {
+        id: 1,
+      }),
+    );
+    expect(tagged.children![1].children!.map((node) => node.kind)).toEqual([
+      "number",
+      "absent",
+    ]);
+  });
+  it("reads the type tags of numbers and booleans of protocol version 1", () => {
+    const flags = z.object({
+      alive: z.boolean(),
+      level: z.number().int().min(0).max(255),
+    });
+    // { alive: true, level: 7 } written by version 1
+    const buffer = Buffer.from("014e81a02f432483d340090007", "hex");
+    const [alive, level] = inspect(buffer, flags).children![1].children!;
+    expect(alive).toMatchObject({ kind: "boolean", value: true, header: 0x09 });
+    expect(level).toMatchObject({ kind: "number", value: 7, header: 0x00 });
+  });
+  it("reads values without header", () => {
+    const codec = createCodec(z.string(), { header: "none" });
+    const inspection = inspect(codec.encode("hi"), undefined, {
+      header: "none",
+    });
+    expect(inspection.children).toHaveLength(1);
+    expect(inspection.children![0]).toMatchObject({
+      kind: "string",
+      value: "hi",
+    });
+  });
+  it("lists trailing bytes", () => {
+    const encoded = new Uint8Array(encode(z.string(), "hi"));
+    const inspection = inspect(new Uint8Array([...encoded, 1, 2]), z.string());
+    expect(inspection.children!.at(-1)).toMatchObject({
+      kind: "trailing",
+      length: 2,
+    });
+  });
+});
+
+describe("formatInspection", () => {
+  it("prints a line per node with offset, bytes and label", () => {
+    const buffer = encode(schema, value);
+    const lines = formatInspection(inspect(buffer, schema)).split("\n");
+    expect(lines[0]).toMatch(/^0000  02( [0-9a-f]{2}){8} +header v2 full 0x/);
+    expect(lines).toContain(
+      "000c  82                                                 players: array (2) [10000010]",
+    );
+    expect(lines).toContain(
+      "000e  00 03                                                  players[0].x: number 3 [00000000]",
+    );
+    expect(lines).toContain(
+      '0019  20 01 6b                                             tags[0]: key string "k" [00100000]',
+    );
+  });
+  it("wraps long values", () => {
+    const lines = formatInspection(
+      inspect(encode(z.string(), "x".repeat(20))),
+    ).split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe("0019  78 78 78 78 78 78");
+  });
+});
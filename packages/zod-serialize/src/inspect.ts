@@ -0,0 +1,613 @@
+import z from "zod";
+import {
+  compileFixed,
+  createDecodeContext,
+  decodeArrayHeader,
+  decodeDate,
+  decodeMapHeader,
+  decodeNumber,
+  decodeOrdinal,
+  decodeString,
+  decodeVarUint,
+  ensureBytes,
+  getFixedLayout,
+  getOrdinalMembers,
+  hasBit,
+  isElidedField,
+  isUntagged,
+  LAYOUT_VERSIONS,
+  layoutFields,
+  ObjectTypes,
+  readBitmap,
+  readCompressedBody,
+  readFieldState,
+  readHeaderAt,
+  toDecodeError,
+  Types,
+  unwrapSchema,
+  type CodecOptions,
+  type DecodeContext,
+  type DecodeInput,
+  type WireLayout,
+} from "./codec";
+import { formatPath, ZodSerializeError } from "./errors";
+import { getAnnotation } from "./annotations";
+
+export type InspectionKind =
+  | "message"
+  | "header"
+  | "number"
+  | "bigint"
+  | "boolean"
+  | "string"
+  | "date"
+  | "object"
+  | "null"
+  | "undefined"
+  | "absent"
+  | "array"
+  | "map"
+  | "union"
+  | "binary"
+  | "compressed"
+  | "opaque"
+  | "trailing"
+  | "error";
+
+/**
+ * a part of an encoded buffer
+ * - start, end: the byte range of the node, children included. empty for object fields with a literal schema, they are not written,
+ *   and for fields that are only in the bitmap of their object (booleans, null, undefined and absent fields)
+ * - bytes: the bytes of the range, a view into the inspected buffer
+ * - header: the byte with the type tag, not set for values without type tag
+ * - value: the decoded value of primitives, the version and fingerprint of the header, the format of a compressed body
+ * - length: the number of elements of arrays, sets, maps and binary data, the decompressed length of a compressed body,
+ *   the number of bytes of an opaque node
+ * - option: the index of the option of a union or of the member of an enum
+ * - path: field names and indexes, field names are only known with a schema
+ * - error: why the bytes at `start` can't be read, the inspection stops there
+ * - kind "opaque": the rest of the buffer from an object of the compact layout that is read without a schema,
+ *   the length of its bitmap is unknown so its fields can't be told apart. the inspection stops there
+ */
+export type InspectionNode = {
+  kind: InspectionKind;
+  start: number;
+  end: number;
+  bytes: Uint8Array;
+  header?: number;
+  value?: unknown;
+  length?: number;
+  option?: number;
+  path: Array<string | number>;
+  children?: Array<InspectionNode>;
+  error?: string;
+};
+
+/**
+ * thrown after an error node was added so the containers around it stop too
+ * it carries the container that stopped so its parent can still add it
+ */
+type InspectionStop = { stopped: InspectionNode };
+const isInspectionStop = (error: unknown): error is InspectionStop =>
+  typeof error === "object" && error !== null && "stopped" in error;
+
+const createNode = (
+  kind: InspectionKind,
+  start: number,
+  path: Array<string | number>,
+  ctx: DecodeContext,
+  details: Partial<InspectionNode> = {},
+): InspectionNode => ({
+  kind,
+  start,
+  end: ctx.offset,
+  bytes: ctx.bytes.subarray(start, ctx.offset),
+  path,
+  ...details,
+});
+
+const finishNode = (node: InspectionNode, ctx: DecodeContext): void => {
+  node.end = Math.min(ctx.offset, ctx.bytes.byteLength);
+  node.bytes = ctx.bytes.subarray(node.start, node.end);
+};
+
+/**
+ * inspect the children of a container one after another
+ * @param count number of children, "rest" reads children until the end of the buffer
+ */
+const inspectChildren = (
+  parent: InspectionNode,
+  count: number | "rest",
+  child: (index: number) => InspectionNode,
+  ctx: DecodeContext,
+): void => {
+  const children: Array<InspectionNode> = [];
+  parent.children = children;
+  for (
+    let index = 0;
+    count === "rest" ? ctx.offset < ctx.bytes.byteLength : index < count;
+    index++
+  ) {
+    const start = ctx.offset;
+    try {
+      children.push(child(index));
+    } catch (error) {
+      if (isInspectionStop(error)) {
+        children.push(error.stopped);
+      } else {
+        ctx.offset = start;
+        children.push(inspectionError(error, parent.path, ctx));
+      }
+      finishNode(parent, ctx);
+      throw { stopped: parent } satisfies InspectionStop;
+    }
+  }
+  finishNode(parent, ctx);
+};
+
+const inspectionError = (
+  error: unknown,
+  path: Array<string | number>,
+  ctx: DecodeContext,
+): InspectionNode => {
+  const start = Math.min(ctx.offset, ctx.bytes.byteLength);
+  const { reason } = toDecodeError(error, ctx);
+  ctx.offset = ctx.bytes.byteLength;
+  return createNode("error", start, path, ctx, { error: reason });
+};
+
+// the fields of an object schema, also of intersections of two objects
+const objectShape = (
+  schema: z.ZodTypeAny | undefined,
+): z.ZodRawShape | undefined => {
+  if (schema instanceof z.ZodObject) {
+    return schema.shape;
+  }
+  if (
+    schema instanceof z.ZodIntersection &&
+    schema._def.left instanceof z.ZodObject &&
+    schema._def.right instanceof z.ZodObject
+  ) {
+    return schema._def.left.merge(schema._def.right).shape;
+  }
+  return undefined;
+};
+
+const NULLISH_KINDS: Partial<Record<ObjectTypes, InspectionKind>> = {
+  [ObjectTypes.Null]: "null",
+  [ObjectTypes.Undefined]: "undefined",
+  [ObjectTypes.UndefinedOptional]: "absent",
+};
+
+/**
+ * read a value by its type tags, the schema tells the field names and where values without type tag are
+ */
+const inspectValue = (
+  schema: z.ZodTypeAny | undefined,
+  path: Array<string | number>,
+  ctx: DecodeContext,
+  layout: WireLayout,
+): InspectionNode => {
+  const start = ctx.offset;
+  const fixed = schema && getFixedLayout(schema, layout);
+  if (schema && fixed !== undefined) {
+    const value = compileFixed(schema, fixed).decode!(ctx);
+    return createNode(typeof value as InspectionKind, start, path, ctx, {
+      value,
+    });
+  }
+  const members = schema && getOrdinalMembers(schema, layout);
+  if (members) {
+    const option = decodeOrdinal(members.length, ctx);
+    const value = members[option];
+    return createNode(typeof value as InspectionKind, start, path, ctx, {
+      value,
+      option,
+    });
+  }
+  const binary = schema && getAnnotation(schema)?.binary;
+  const header = ctx.view.getUint8(ctx.offset);
+  const tag: Types = header >> 5;
+  if (tag === Types.Object) {
+    const objectType: ObjectTypes = (header & 0b1100) >> 2;
+    const nullish = NULLISH_KINDS[objectType];
+    if (nullish) {
+      ctx.offset++;
+      return createNode(nullish, start, path, ctx, {
+        header,
+        value: objectType === ObjectTypes.Null ? null : undefined,
+      });
+    }
+    if (schema && !binary && isUntagged(schema, layout)) {
+      // the value without type tag follows the header that tells it's not null or undefined
+      ctx.offset++;
+      const inner = inspectValue(unwrapSchema(schema), path, ctx, layout);
+      return {
+        ...inner,
+        start,
+        bytes: ctx.bytes.subarray(start, inner.end),
+        header,
+      };
+    }
+  }
+  const unwrapped = schema && !binary ? unwrapSchema(schema) : undefined;
+  if (unwrapped) {
+    return inspectValue(unwrapped, path, ctx, layout);
+  }
+  switch (tag) {
+    case Types.Nummeric: {
+      const value = decodeNumber(ctx);
+      return createNode(typeof value as InspectionKind, start, path, ctx, {
+        header,
+        value,
+      });
+    }
+    case Types.String:
+      return createNode("string", start, path, ctx, {
+        header,
+        value: decodeString(ctx),
+      });
+    case Types.Date:
+      return createNode("date", start, path, ctx, {
+        header,
+        value: decodeDate(ctx),
+      });
+    case Types.Binary: {
+      const length = decodeArrayHeader(ctx);
+      ensureBytes(ctx, length);
+      ctx.offset += length;
+      return createNode("binary", start, path, ctx, {
+        header,
+        length,
+        value: ctx.bytes.slice(ctx.offset - length, ctx.offset),
+      });
+    }
+    case Types.Object: {
+      ctx.offset++;
+      const node = createNode("object", start, path, ctx, { header });
+      const shape = objectShape(schema);
+      if (!shape && layout === "compact") {
+        // the bitmap in front of the fields would be misread as type tags
+        ctx.offset = ctx.bytes.byteLength;
+        const opaque = createNode("opaque", start, path, ctx, {
+          header,
+          length: ctx.offset - start,
+        });
+        throw { stopped: opaque } satisfies InspectionStop;
+      }
+      if (!shape) {
+        // without a schema the end of the object is unknown, its fields are read until the end of the buffer
+        inspectChildren(
+          node,
+          "rest",
+          (index) => inspectValue(undefined, [...path, index], ctx, layout),
+          ctx,
+        );
+        return node;
+      }
+      // the bitmap is part of the bytes of the object, the fields that are only in the bitmap have no bytes
+      const { fields, bits } = layoutFields(
+        Object.entries(shape).map(([key, schema]) => ({ key, schema })),
+        layout,
+      );
+      const bitmapStart = ctx.offset;
+      const bitmap = readBitmap(bits, ctx);
+      inspectChildren(
+        node,
+        fields.length,
+        (index) => {
+          const field = fields[index];
+          const { key, schema: fieldSchema, state, packed } = field;
+          const fieldStart = ctx.offset;
+          if (isElidedField(fieldSchema, layout)) {
+            const { value } = fieldSchema;
+            return createNode(
+              value === null ? "null" : (typeof value as InspectionKind),
+              fieldStart,
+              [...path, key],
+              ctx,
+              { value },
+            );
+          }
+          const type =
+            state === undefined
+              ? ObjectTypes.Object
+              : readFieldState(bitmap, state, field, bitmapStart);
+          const nullish = NULLISH_KINDS[type];
+          if (nullish) {
+            return createNode(nullish, fieldStart, [...path, key], ctx, {
+              value: type === ObjectTypes.Null ? null : undefined,
+            });
+          }
+          if (packed !== undefined) {
+            return createNode("boolean", fieldStart, [...path, key], ctx, {
+              value: hasBit(bitmap, packed),
+            });
+          }
+          // values without type tag of fields that allow null or undefined are written without the header in front
+          return inspectValue(
+            state !== undefined && isUntagged(fieldSchema, layout)
+              ? unwrapSchema(fieldSchema)
+              : fieldSchema,
+            [...path, key],
+            ctx,
+            layout,
+          );
+        },
+        ctx,
+      );
+      return node;
+    }
+    case Types.Array: {
+      const length = decodeArrayHeader(ctx);
+      const node = createNode("array", start, path, ctx, { header, length });
+      const element = (index: number): z.ZodTypeAny | undefined => {
+        switch (true) {
+          case schema instanceof z.ZodArray:
+            return schema.element;
+          case schema instanceof z.ZodSet:
+            return schema._def.valueType;
+          case schema instanceof z.ZodTuple:
+            return schema.items[index];
+        }
+        return undefined;
+      };
+      inspectChildren(
+        node,
+        length,
+        (index) => inspectValue(element(index), [...path, index], ctx, layout),
+        ctx,
+      );
+      return node;
+    }
+    case Types.Union: {
+      const options: Array<z.ZodTypeAny> | undefined =
+        schema instanceof z.ZodUnion ||
+        schema instanceof z.ZodDiscriminatedUnion
+          ? schema.options
+          : undefined;
+      let option = header & 0x1f;
+      ctx.offset++;
+      if (options && options.length > 32 && option === 31) {
+        option += decodeVarUint(ctx);
+      }
+      const node = createNode("union", start, path, ctx, { header, option });
+      inspectChildren(
+        node,
+        1,
+        () => inspectValue(options?.[option], path, ctx, layout),
+        ctx,
+      );
+      return node;
+    }
+    case Types.Map: {
+      const { length } = decodeMapHeader(ctx);
+      const node = createNode("map", start, path, ctx, { header, length });
+      const keySchema: z.ZodTypeAny | undefined =
+        schema instanceof z.ZodMap || schema instanceof z.ZodRecord
+          ? schema.keySchema
+          : undefined;
+      const valueSchema: z.ZodTypeAny | undefined =
+        schema instanceof z.ZodMap || schema instanceof z.ZodRecord
+          ? schema.valueSchema
+          : undefined;
+      let segment: string | number = 0;
+      inspectChildren(
+        node,
+        length * 2,
+        (index) => {
+          if (index % 2 === 1) {
+            return inspectValue(valueSchema, [...path, segment], ctx, layout);
+          }
+          const key = inspectValue(
+            keySchema,
+            [...path, index / 2],
+            ctx,
+            layout,
+          );
+          if (typeof key.value === "string" || typeof key.value === "number") {
+            segment = key.value;
+          } else {
+            segment = index / 2;
+          }
+          return key;
+        },
+        ctx,
+      );
+      return node;
+    }
+  }
+  throw new ZodSerializeError("INVALID_VALUE", `unexpected type tag ${tag}`, {
+    offset: start,
+  });
+};
+
+/**
+ * walk through an encoded buffer by its type tags, for debugging buffers that can't be decoded
+ * ```ts
+ *   console.log(formatInspection(inspect(received, eventsSchema)));
+ * ```
+ * without a schema the type tags tell how the bytes are read,
+ * but values that are written without type tag (see `zs` and bounded numbers) are misread and
+ * objects don't know where their fields end, they read fields until the end of the buffer.
+ * objects of the compact layout are one opaque node without a schema, their bitmap can't be read by its type tags.
+ * the inspection stops with an error node at the first bytes that can't be read,
+ * compressed bodies are one node, decompress the value to see what is in it
+ * @param buffer the encoded value
+ * @param schema the schema the value was written with, labels the nodes with field names
+ * @param options `header: "none"` for buffers without header and their `layout`,
+ *   buffers with header are read in the layout of the protocol version in the header
+ * @returns the node of the whole buffer, with the header, the value and trailing bytes as children
+ */
+export const inspect = (
+  buffer: DecodeInput,
+  schema?: z.ZodTypeAny,
+  { header = "full", ...options }: Pick<CodecOptions, "header" | "layout"> = {},
+): InspectionNode => {
+  const ctx = createDecodeContext(buffer, 0);
+  const root = createNode("message", 0, [], ctx);
+  let compressed = false;
+  let layout: WireLayout = options.layout ?? "tagged";
+  try {
+    inspectChildren(
+      root,
+      "rest",
+      (index) => {
+        const start = ctx.offset;
+        if (index === 0 && header !== "none") {
+          const value = readHeaderAt(ctx);
+          compressed = value.compressed;
+          layout =
+            value.version === LAYOUT_VERSIONS.compact
+              ? "compact"
+              : value.version === 1
+                ? "versionOne"
+                : "tagged";
+          return createNode("header", start, [], ctx, {
+            header: ctx.bytes[start],
+            value: {
+              version: value.version,
+              header: value.header,
+              fingerprint: value.hash,
+              compressed,
+            },
+          });
+        }
+        if (index === 1 && compressed) {
+          // the compressed body is not read
+          const body = readCompressedBody(ctx);
+          return createNode("compressed", start, [], ctx, {
+            value: body.format,
+            length: body.length,
+          });
+        }
+        if (index === (header === "none" ? 0 : 1)) {
+          return inspectValue(schema, [], ctx, layout);
+        }
+        ctx.offset = ctx.bytes.byteLength;
+        return createNode("trailing", start, [], ctx, {
+          length: ctx.offset - start,
+        });
+      },
+      ctx,
+    );
+  } catch (error) {
+    if (!isInspectionStop(error)) {
+      throw error;
+    }
+  }
+  return root;
+};
+
+const BYTES_PER_LINE = 16;
+
+const hex = (value: number, digits: number) =>
+  value.toString(16).padStart(digits, "0");
+
+const formatValue = (value: unknown): string => {
+  switch (true) {
+    case typeof value === "string":
+      return JSON.stringify(value);
+    case typeof value === "bigint":
+      return `${value}n`;
+    case value instanceof Date:
+      return Number.isNaN(value.getTime())
+        ? "Invalid Date"
+        : value.toISOString();
+    case value instanceof Uint8Array:
+      return `<${value.byteLength} bytes>`;
+  }
+  return String(value);
+};
+
+/**
+ * @param isKey the node is the key of a map entry, its path ends with the index of the entry
+ */
+const formatLabel = (node: InspectionNode, isKey: boolean): string => {
+  const parts: Array<string> = [];
+  if (node.path.length > 0) {
+    parts.push(`${formatPath(node.path)}:`);
+  }
+  if (isKey) {
+    parts.push("key");
+  }
+  parts.push(node.kind);
+  switch (node.kind) {
+    case "header": {
+      const { version, header, fingerprint, compressed } = node.value as {
+        version: number;
+        header: string;
+        fingerprint: bigint;
+        compressed: boolean;
+      };
+      parts.push(`v${version} ${header} 0x${fingerprint.toString(16)}`);
+      if (compressed) {
+        parts.push("compressed");
+      }
+      break;
+    }
+    case "compressed":
+      parts.push(`${node.value} (${node.length})`);
+      break;
+    case "error":
+      parts.push(node.error!);
+      break;
+    case "array":
+    case "map":
+    case "binary":
+    case "opaque":
+    case "trailing":
+      parts.push(`(${node.length})`);
+      break;
+    case "union":
+      parts.push(`option ${node.option}`);
+      break;
+    case "message":
+    case "object":
+    case "null":
+    case "undefined":
+    case "absent":
+      break;
+    default:
+      parts.push(formatValue(node.value));
+  }
+  if (node.header !== undefined) {
+    parts.push(`[${node.header.toString(2).padStart(8, "0")}]`);
+  }
+  return parts.join(" ");
+};
+
+/**
+ * print an inspection as hex dump, every node is a line with its offset, its own bytes and what they encode
+ * ```
+ *   0000  02 9c 61 3e 0e 0f 5a 7f 31   header v2 full 0x9c613e0e0f5a7f31 [00000010]
+ *   0009  40                           object [01000000]
+ *   000a  00 01                          id: number 1 [00000000]
+ * ```
+ * @param inspection the result of `inspect`
+ */
+export const formatInspection = (inspection: InspectionNode): string => {
+  const lines: Array<string> = [];
+  const visit = (node: InspectionNode, depth: number, isKey = false) => {
+    // bytes of the children are printed with the children
+    const ownEnd = node.children?.[0]?.start ?? node.end;
+    const own = node.bytes.subarray(0, ownEnd - node.start);
+    const label = "  ".repeat(depth) + formatLabel(node, isKey);
+    for (let i = 0; i === 0 || i < own.byteLength; i += BYTES_PER_LINE) {
+      const bytes = Array.from(own.subarray(i, i + BYTES_PER_LINE), (byte) =>
+        hex(byte, 2),
+      ).join(" ");
+      lines.push(
+        `${hex(node.start + i, 4)}  ${bytes.padEnd(BYTES_PER_LINE * 3 - 1)}  ${i === 0 ? label : ""}`.trimEnd(),
+      );
+    }
+    node.children?.forEach((child, index) =>
+      visit(child, depth + 1, node.kind === "map" && index % 2 === 0),
+    );
+  };
+  // the message node only groups the header and the value
+  for (const child of inspection.children ?? []) {
+    visit(child, 0);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "bun:test";
+import z from "zod";
+import { defineProtocol, encode, ZodSerializeError } from ".";
+
+const messages = {
+  playerMove: z.object({ dx: z.number(), dy: z.number() }),
+  playerPos: z.object({ id: z.number(), x: z.number(), y: z.number() }),
+  chat: z.string(),
+};
+
+describe("defineProtocol", () => {
+  it("assigns ids in the order of the definition", () => {
+    expect(defineProtocol(messages).ids).toEqual({
+      playerMove: 0,
+      playerPos: 1,
+      chat: 2,
+    });
+  });
+  it("encodes and decodes messages of every type", () => {
+    const protocol = defineProtocol(messages);
+    const move = protocol.decode(
+      protocol.encode("playerMove", { dx: 1, dy: -1 }),
+    );
+    expect(move).toEqual({ type: "playerMove", value: { dx: 1, dy: -1 } });
+    expect(protocol.decode(protocol.encode("chat", "hi"))).toEqual({
+      type: "chat",
+      value: "hi",
+    });
+  });
+  it("writes the id instead of the header", () => {
+    const protocol = defineProtocol(messages);
+    const value = { id: 1, x: 2, y: 3 };
+    const message = new Uint8Array(protocol.encode("playerPos", value));
+    const encoded = new Uint8Array(encode(messages.playerPos, value));
+    expect(message[0]).toBe(1);
+    expect(message.subarray(1)).toEqual(encoded.subarray(9));
+  });
+  it("decodes messages inside a bigger buffer", () => {
+    const protocol = defineProtocol(messages);
+    const message = new Uint8Array(protocol.encode("chat", "hi"));
+    const buffer = new Uint8Array(message.byteLength + 4);
+    buffer.set(message, 4);
+    expect(protocol.decode(buffer.subarray(4)).value).toBe("hi");
+  });
+  it("narrows the value by the type", () => {
+    const protocol = defineProtocol(messages);
+    const message = protocol.decode(
+      protocol.encode("playerPos", { id: 1, x: 2, y: 3 }),
+    );
+    if (message.type === "playerPos") {
+      const x: number = message.value.x;
+      expect(x).toBe(2);
+    }
+  });
+  it("rejects unknown message types and ids", () => {
+    const protocol = defineProtocol(messages);
+    expect(() => protocol.encode("toString" as "chat", "hi")).toThrow(
+      /unknown message type/,
+    );
+    expect(() => protocol.decode(new Uint8Array([3, 0]))).toThrow(
+      expect.objectContaining({ code: "SCHEMA_MISMATCH" }),
+    );
+    expect(() => protocol.decode(new Uint8Array([]))).toThrow(
+      expect.objectContaining({ code: "TRUNCATED" }),
+    );
+  });
+  it("rejects bytes after the message", () => {
+    const protocol = defineProtocol(messages);
+    const message = new Uint8Array(protocol.encode("chat", "hi"));
+    expect(() => protocol.decode(new Uint8Array([...message, 0]))).toThrow(
+      expect.objectContaining({
+        code: "INVALID_VALUE",
+        offset: message.length,
+      }),
+    );
+  });
+  it("checks the fingerprint of the other side", () => {
+    const { fingerprint } = defineProtocol(messages);
+    expect(
+      defineProtocol(messages, { expectedFingerprint: fingerprint })
+        .fingerprint,
+    ).toBe(fingerprint);
+
+    const reordered = {
+      playerPos: messages.playerPos,
+      playerMove: messages.playerMove,
+      chat: messages.chat,
+    };
+    const changed = { ...messages, chat: z.string().nullable() };
+    for (const other of [reordered, changed]) {
+      expect(defineProtocol(other).fingerprint).not.toBe(fingerprint);
+      try {
+        defineProtocol(other, { expectedFingerprint: fingerprint });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ZodSerializeError);
+        expect((error as ZodSerializeError).code).toBe("SCHEMA_MISMATCH");
+      }
+    }
+  });
+});
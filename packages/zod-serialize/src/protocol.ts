@@ -0,0 +1,171 @@
+import type z from "zod";
+import { rapidhash } from "rapidhash-js";
+import {
+  createCodec,
+  schemaFingerprint,
+  type Codec,
+  type CodecOptions,
+  type DecodeInput,
+  type DecodeOptions,
+} from "./index";
+import { ZodSerializeError } from "./errors";
+import {
+  createWriter,
+  MAX_VARUINT_LENGTH,
+  readVarUint,
+  toBytes,
+  writeBytes,
+  writeVarUint,
+} from "./writer";
+
+export type ProtocolMessages = Record<string, z.ZodTypeAny>;
+
+/**
+ * a decoded message, the type tells which schema the value belongs to
+ */
+export type ProtocolMessage<M extends ProtocolMessages> = {
+  [K in keyof M & string]: { type: K; value: z.infer<M[K]> };
+}[keyof M & string];
+
+export type ProtocolOptions = Omit<
+  CodecOptions,
+  "header" | "compression" | "writers"
+> & {
+  /**
+   * fingerprint of the protocol of the other side, e.g. sent by the server when the connection is opened
+   * the protocol can't be created if it doesn't match
+   */
+  expectedFingerprint?: bigint;
+};
+
+export type Protocol<M extends ProtocolMessages> = {
+  /** encodes the value with the id of the message type in front */
+  encode: <K extends keyof M & string>(
+    type: K,
+    input: z.input<M[K]> | unknown,
+  ) => ArrayBuffer;
+  /** decodes a message of any type of the protocol */
+  decode: (buffer: DecodeInput, options?: DecodeOptions) => ProtocolMessage<M>;
+  /** the id of every message type, assigned in the order of the definition */
+  ids: { [K in keyof M]: number };
+  /** hash of the names, ids and schema fingerprints of all message types */
+  fingerprint: bigint;
+};
+
+const textEncoder = new TextEncoder();
+
+const protocolFingerprint = (
+  messages: ProtocolMessages,
+  options: ProtocolOptions,
+): bigint => {
+  const writer = createWriter();
+  for (const [type, schema] of Object.entries(messages)) {
+    const name = textEncoder.encode(type);
+    writeVarUint(writer, name.byteLength);
+    writeBytes(writer, name);
+    writeVarUint(
+      writer,
+      schemaFingerprint(schema, options.fingerprint, options.layout),
+    );
+  }
+  return rapidhash(writer.bytes.subarray(0, writer.offset));
+};
+
+/**
+ * read the id of the message type, a LEB128 varint so a protocol with up to 128 message types uses one byte
+ * @returns the id and the number of bytes it took up
+ */
+const readMessageId = (bytes: Uint8Array): { id: number; length: number } => {
+  const varint = readVarUint(bytes, 0);
+  if (!varint) {
+    throw new ZodSerializeError("TRUNCATED", "message ends in the message id", {
+      offset: bytes.byteLength,
+    });
+  }
+  return { id: varint.value, length: varint.length };
+};
+
+/**
+ * define the messages of a connection, every message type gets a small numeric id
+ * instead of the 9 byte header of `encode` a message starts with its id (one byte for up to 128 message types)
+ * ```ts
+ *   const protocol = defineProtocol({ playerMove: playerMoveSchema, playerPos: playerPosSchema });
+ *   socket.send(protocol.encode("playerPos", { id: 1, x: 10, y: 20 }));
+ *   const message = protocol.decode(received);
+ *   if (message.type === "playerPos") {
+ *     message.value.x;
+ *   }
+ * ```
+ * the ids depend on the order of the message types, both sides have to define the protocol the same way.
+ * exchange `protocol.fingerprint` when the connection is opened and pass it as `expectedFingerprint` to check that
+ * @param messages the schema of every message type by its name
+ * @param options encoding options of the message types and the expected fingerprint
+ */
+export const defineProtocol = <M extends ProtocolMessages>(
+  messages: M,
+  options: ProtocolOptions = {},
+): Protocol<M> => {
+  const { expectedFingerprint, ...codecOptions } = options;
+  const fingerprint = protocolFingerprint(messages, options);
+  if (
+    expectedFingerprint !== undefined &&
+    expectedFingerprint !== fingerprint
+  ) {
+    throw new ZodSerializeError(
+      "SCHEMA_MISMATCH",
+      "Protocols do not match, the message types or their schemas differ",
+    );
+  }
+  const types = Object.keys(messages);
+  const codecs: Array<Codec<unknown>> = types.map((type) =>
+    createCodec(messages[type], { ...codecOptions, header: "none" }),
+  );
+  const ids = Object.fromEntries(types.map((type, id) => [type, id])) as {
+    [K in keyof M]: number;
+  };
+
+  return {
+    encode: (type, input) => {
+      const id = Object.hasOwn(ids, type) ? ids[type] : undefined;
+      if (id === undefined) {
+        throw new ZodSerializeError(
+          "INVALID_VALUE",
+          `unknown message type ${type}`,
+        );
+      }
+      const body = new Uint8Array(codecs[id].encode(input));
+      const writer = createWriter(body.byteLength + MAX_VARUINT_LENGTH);
+      writeVarUint(writer, id);
+      writeBytes(writer, body);
+      return writer.buffer.slice(0, writer.offset);
+    },
+    decode: (buffer, decodeOptions) => {
+      const bytes = toBytes(buffer);
+      const { id, length } = readMessageId(bytes);
+      const codec = codecs[id];
+      if (!codec) {
+        throw new ZodSerializeError(
+          "SCHEMA_MISMATCH",
+          `unknown message id ${id}`,
+          { offset: 0 },
+        );
+      }
+      const { value, bytesRead } = codec.decodeWithLength(
+        bytes,
+        length,
+        decodeOptions,
+      );
+      const end = length + bytesRead;
+      if (end !== bytes.byteLength) {
+        throw new ZodSerializeError(
+          "INVALID_VALUE",
+          `the message has ${bytes.byteLength - end} bytes after the value`,
+          { offset: end },
+        );
+      }
+      return { type: types[id], value } as ProtocolMessage<M>;
+    },
+    ids,
+    fingerprint,
+  };
+};
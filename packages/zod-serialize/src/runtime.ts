@@ -0,0 +1,74 @@
+import type z from "zod";
+import {
+  codecFor,
+  type Codec,
+  type CodecOptions,
+  type CompiledSchema,
+} from "./codec";
+import { ZodSerializeError } from "./errors";
+
+/**
+ * the runtime of generated codecs (see `generateCodec`), imported from "zod-serialize/runtime"
+ * generated modules only use what this module exports. they are generated for one version of it
+ * and refuse to load with another one, this version changes whenever the exports or the wire format change
+ */
+export const RUNTIME_VERSION = 2;
+
+export { ZodSerializeError } from "./errors";
+// the encoders and decoders of the wire format the generated code calls
+export {
+  checkCollectionLength,
+  decodeArrayHeader,
+  decodeErrorAt,
+  decodeMapHeader,
+  decodeNumber,
+  decodeString,
+  decodeVarUint,
+  depthError,
+  encodeArrayHeader,
+  encodeErrorAt,
+  encodeMapHeader,
+  encodeNumeric,
+  encodeString,
+  endOfInputError,
+  pickUnionOption,
+  Types,
+  type DecodeContext,
+  type EncodeContext,
+} from "./codec";
+export {
+  readVarUint,
+  reserve,
+  varUintLength,
+  writeVarUint,
+  type Writer,
+} from "./writer";
+
+/**
+ * a codec around the encoder and decoder of a generated module
+ * fails if the module was generated for another runtime or if the schema changed since the module was generated
+ * @param version the runtime version the module was generated for
+ * @param fingerprint the fingerprint of the schema the module was generated from
+ */
+export const createGeneratedCodec = <T>(
+  version: number,
+  schema: z.ZodType<T>,
+  compiled: Pick<CompiledSchema, "encode" | "decode">,
+  options: Pick<CodecOptions, "header" | "fingerprint" | "layout">,
+  fingerprint: bigint,
+): Codec<T> => {
+  if (version !== RUNTIME_VERSION) {
+    throw new ZodSerializeError(
+      "PROTOCOL_VERSION",
+      `the codec was generated for version ${version} of the runtime but this is version ${RUNTIME_VERSION}, generate it again`,
+    );
+  }
+  const codec = codecFor(schema, compiled, options);
+  if (codec.fingerprint !== fingerprint) {
+    throw new ZodSerializeError(
+      "SCHEMA_MISMATCH",
+      "the schema changed since the codec was generated, generate it again",
+    );
+  }
+  return codec;
+};
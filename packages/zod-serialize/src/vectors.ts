@@ -0,0 +1,387 @@
+import z from "zod";
+import * as zs from "./zs";
+import type { ConformanceVector } from "./conformance";
+
+/**
+ * the values the golden vectors are created from, `bun run vectors` writes them to vectors.json
+ * every type tag, number type and object type has a vector and every length header has vectors on both sides of its boundaries
+ * the wire format must not change for the existing vectors, new cases are appended
+ */
+type VectorCase = {
+  name: string;
+  schema: z.ZodTypeAny;
+  value: unknown;
+  options?: ConformanceVector["options"];
+};
+
+const cases = (
+  prefix: string,
+  schema: z.ZodTypeAny,
+  values: Record<string, unknown>,
+  options?: ConformanceVector["options"],
+): Array<VectorCase> =>
+  Object.entries(values).map(([name, value]) => ({
+    name: `${prefix}/${name}`,
+    schema,
+    value,
+    options,
+  }));
+
+const literals = (count: number) =>
+  z.union(
+    Array.from({ length: count }, (_, i) => z.literal(i)) as unknown as [
+      z.ZodLiteral<number>,
+      z.ZodLiteral<number>,
+    ],
+  );
+
+let treeSchema: z.ZodTypeAny;
+treeSchema = z.object({
+  name: z.string(),
+  children: z.array(z.lazy(() => treeSchema)),
+});
+
+const playerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  position: z.object({ x: z.number(), y: z.number() }),
+});
+const player = { id: 7, name: "player", position: { x: 1.5, y: -20 } };
+
+// 9 booleans so the bitmap spans 2 bytes, then the states of the optional and nullable fields
+const bitmapSchema = z.object({
+  ...Object.fromEntries(
+    Array.from({ length: 9 }, (_, i) => [`b${i}`, z.boolean()]),
+  ),
+  maybe: z.boolean().optional(),
+  label: z.string().nullable(),
+  count: z.number().optional(),
+});
+const flags = (bits: number) =>
+  Object.fromEntries(
+    Array.from({ length: 9 }, (_, i) => [`b${i}`, (bits & (1 << i)) !== 0]),
+  );
+
+const COMPACT = { layout: "compact" } as const;
+
+const baseCases: Array<VectorCase> = [
+  ...cases("number", z.number(), {
+    "i8 0": 0,
+    "i8 127": 127,
+    "i8 -128": -128,
+    "i16 128": 128,
+    "i16 -129": -129,
+    "i16 32767": 32767,
+    "i16 -32768": -32768,
+    "i32 32768": 32768,
+    "i32 2147483647": 2147483647,
+    "i32 -2147483648": -2147483648,
+    "i64 2147483648": 2147483648,
+    "i64 -2147483649": -2147483649,
+    "i64 max safe integer": Number.MAX_SAFE_INTEGER,
+    "f64 1.5": 1.5,
+    "f64 -0.1": -0.1,
+    "f64 pi": Math.PI,
+    Infinity: Infinity,
+    "-Infinity": -Infinity,
+  }),
+  ...cases("number", z.nan(), { NaN: NaN }),
+  ...cases("bigint", z.bigint(), {
+    "0": 0n,
+    "-1": -1n,
+    "2^63 - 2": 2n ** 63n - 2n,
+    "-2^63": -(2n ** 63n),
+  }),
+  ...cases("boolean", z.literal(true), { true: true }),
+  ...cases("boolean", z.literal(false), { false: false }),
+  ...cases(
+    "varint",
+    z.number(),
+    {
+      "1": 1,
+      "-1": -1,
+      "-300": -300,
+      "i8 stays fixed": 100,
+      "2^40": 2 ** 40,
+      "f64 stays fixed": 0.5,
+    },
+    { integers: "varint" },
+  ),
+  ...cases(
+    "varint",
+    z.bigint(),
+    { "bigint 2^40": 2n ** 40n, "bigint -2^62 stays fixed": -(2n ** 62n) },
+    { integers: "varint" },
+  ),
+  ...cases("varint", z.object({ timestamp: zs.varint(z.date()) }), {
+    "annotated date": { timestamp: new Date(1_700_000_000_000) },
+  }),
+  ...cases(
+    "fixed layout",
+    z.object({
+      u8: z.number().int().min(0).max(255),
+      i8: z.number().int().min(-128).max(127),
+      u16: z.number().int().min(0).max(65535),
+      i16: z.number().int().min(-32768).max(32767),
+      u32: z
+        .number()
+        .int()
+        .nonnegative()
+        .lt(2 ** 32),
+      i32: z
+        .number()
+        .int()
+        .min(-(2 ** 31))
+        .max(2 ** 31 - 1),
+      u64: z
+        .bigint()
+        .min(0n)
+        .max(2n ** 64n - 1n),
+      i64: z
+        .bigint()
+        .min(-(2n ** 63n))
+        .max(2n ** 63n - 1n),
+      f64: z.number().finite(),
+      bool: z.boolean(),
+      optional: z.number().int().min(0).max(255).optional(),
+      nullable: z.boolean().nullable(),
+    }),
+    {
+      lowest: {
+        u8: 0,
+        i8: -128,
+        u16: 0,
+        i16: -32768,
+        u32: 0,
+        i32: -(2 ** 31),
+        u64: 0n,
+        i64: -(2n ** 63n),
+        f64: -1.5,
+        bool: false,
+        nullable: null,
+      },
+      highest: {
+        u8: 255,
+        i8: 127,
+        u16: 65535,
+        i16: 32767,
+        u32: 2 ** 32 - 1,
+        i32: 2 ** 31 - 1,
+        u64: 2n ** 64n - 1n,
+        i64: 2n ** 63n - 1n,
+        f64: 1.5,
+        bool: true,
+        optional: 255,
+        nullable: true,
+      },
+    },
+  ),
+  ...cases("string", z.string(), {
+    empty: "",
+    ascii: "hello",
+    "utf-8": "grüße 😀",
+    "length 4095": "x".repeat(4095),
+    "length 4096": "x".repeat(4096),
+    "length 2^20 - 1": "x".repeat(2 ** 20 - 1),
+    "length 2^20 extended": "x".repeat(2 ** 20),
+  }),
+  ...cases("date", z.date(), {
+    epoch: new Date(0),
+    "2024-01-01": new Date("2024-01-01"),
+    "before epoch": new Date("1900-01-01"),
+  }),
+  ...cases("object", z.null(), { null: null }),
+  ...cases("object", z.undefined(), { undefined: undefined }),
+  ...cases(
+    "object",
+    z.object({
+      required: z.string(),
+      optional: z.number().optional(),
+      nullable: z.number().nullable(),
+    }),
+    {
+      "all fields": { required: "a", optional: 1, nullable: 2 },
+      "null field": { required: "a", optional: 1, nullable: null },
+      "undefined field": { required: "a", optional: undefined, nullable: 2 },
+      "absent field": { required: "a", nullable: 2 },
+    },
+  ),
+  ...cases("object", z.object({}), { empty: {} }),
+  ...cases("object", treeSchema, {
+    recursive: {
+      name: "root",
+      children: [
+        { name: "a", children: [] },
+        { name: "b", children: [{ name: "c", children: [] }] },
+      ],
+    },
+  }),
+  ...cases("array", z.array(z.null()), {
+    empty: [],
+    "length 7": Array(7).fill(null),
+    "length 8": Array(8).fill(null),
+    "length 2047": Array(2047).fill(null),
+    "length 2048": Array(2048).fill(null),
+    "length 2^19 - 1": Array(2 ** 19 - 1).fill(null),
+    "length 2^19 extended": Array(2 ** 19).fill(null),
+  }),
+  ...cases("array", z.array(z.string()), { strings: ["a", "b", "c"] }),
+  ...cases("array", z.set(z.number()), { set: new Set([1, 2, 3]) }),
+  ...cases("array", z.tuple([z.string(), z.number(), z.boolean()]), {
+    tuple: ["a", 1, true],
+  }),
+  ...cases("union", z.union([z.string(), z.number()]), {
+    "option 0": "a",
+    "option 1": 1,
+  }),
+  ...cases("union", z.union([z.string(), z.null(), z.undefined()]), {
+    null: null,
+    undefined: undefined,
+  }),
+  ...cases("union", literals(32), { "option 31 of 32": 31 }),
+  ...cases("union", literals(40), {
+    "option 30 of 40": 30,
+    "option 31 of 40": 31,
+    "option 39 of 40": 39,
+  }),
+  ...cases("union", literals(200), { "option 199 of 200": 199 }),
+  ...cases(
+    "union",
+    z.discriminatedUnion("type", [
+      z.object({ type: z.literal("a"), a: z.string() }),
+      z.object({ type: z.literal("b"), b: z.number() }),
+    ]),
+    { discriminated: { type: "b", b: 3 } },
+  ),
+  ...cases("map", z.map(z.number(), z.null()), {
+    empty: new Map(),
+    "size 1023": new Map(Array.from({ length: 1023 }, (_, i) => [i, null])),
+    "size 1024": new Map(Array.from({ length: 1024 }, (_, i) => [i, null])),
+    "size 2^19 - 1": new Map(
+      Array.from({ length: 2 ** 19 - 1 }, (_, i) => [i, null]),
+    ),
+    "size 2^19 extended": new Map(
+      Array.from({ length: 2 ** 19 }, (_, i) => [i, null]),
+    ),
+  }),
+  ...cases("map", z.map(z.string(), z.date()), {
+    "string keys": new Map([["epoch", new Date(0)]]),
+  }),
+  ...cases("map", z.record(z.string(), z.number()), {
+    record: { a: 1, b: 2 },
+    "record size 1024": Object.fromEntries(
+      Array.from({ length: 1024 }, (_, i) => [`k${i}`, i]),
+    ),
+  }),
+  ...cases("literal", z.literal("hello"), { string: "hello" }),
+  ...cases("literal", z.literal(42), { number: 42 }),
+  ...cases("literal", z.literal(42n), { bigint: 42n }),
+  ...cases("literal", z.literal(null), { null: null }),
+  ...cases("enum", z.enum(["red", "green"]), { green: "green" }),
+  ...cases("enum", z.nativeEnum({ Red: 0, Green: 1 }), { native: 1 }),
+  ...cases("binary", zs.bytes(), {
+    empty: new Uint8Array(0),
+    "length 7": new Uint8Array([1, 2, 3, 4, 5, 6, 7]),
+    "length 8": new Uint8Array(8),
+    "length 2047": new Uint8Array(2047),
+    "length 2048": new Uint8Array(2048),
+    "length 2^19 - 1": new Uint8Array(2 ** 19 - 1),
+    "length 2^19 extended": new Uint8Array(2 ** 19),
+  }),
+  ...cases("binary", zs.typedArray(Float32Array), {
+    float32: new Float32Array([1, -0.5]),
+  }),
+  ...cases("binary", zs.arrayBuffer(), {
+    "array buffer": new Uint8Array([0xde, 0xad]).buffer,
+  }),
+  ...cases("header", playerSchema, { full: player }, { header: "full" }),
+  ...cases("header", playerSchema, { hash32: player }, { header: "hash32" }),
+  ...cases("header", playerSchema, { hash16: player }, { header: "hash16" }),
+  ...cases(
+    "header",
+    playerSchema,
+    { "structural fingerprint": player },
+    { header: "full", fingerprint: "structural" },
+  ),
+  ...cases(
+    "enum",
+    z.nativeEnum({ Red: "red", Green: "green" }),
+    { "native strings": "green" },
+    COMPACT,
+  ),
+  ...cases(
+    "enum",
+    z.enum(
+      Array.from({ length: 200 }, (_, i) => `m${i}`) as [string, ...string[]],
+    ),
+    { "ordinal 127": "m127", "ordinal 128": "m128" },
+    COMPACT,
+  ),
+  ...cases(
+    "enum",
+    z.enum(["red", "green"]).nullable(),
+    { "nullable present": "green", "nullable null": null },
+    COMPACT,
+  ),
+  ...cases(
+    "object",
+    z.object({
+      type: z.literal("move"),
+      version: z.literal(2),
+      flag: z.literal(true),
+      x: z.number(),
+    }),
+    { "elided literal fields": { type: "move", version: 2, flag: true, x: 3 } },
+    COMPACT,
+  ),
+  ...cases(
+    "bitmap",
+    bitmapSchema,
+    {
+      "booleans across bytes": { ...flags(0b101010101), label: "a", count: 1 },
+      "present states": { ...flags(0), maybe: true, label: "a", count: 1 },
+      "null and undefined states": {
+        ...flags(0b111111111),
+        maybe: undefined,
+        label: null,
+        count: undefined,
+      },
+      "absent states": { ...flags(1), label: "a" },
+    },
+    COMPACT,
+  ),
+  ...cases("bigint", z.bigint(), { "2^63 - 1": 2n ** 63n - 1n }),
+  ...cases(
+    "varint",
+    z.bigint(),
+    { "bigint 2^63 - 1": 2n ** 63n - 1n },
+    { integers: "varint" },
+  ),
+];
+
+// cases of the tagged layout whose bytes differ in the compact layout, appended again with the compact layout
+const compactCases = (names: Array<string>): Array<VectorCase> =>
+  names.map((name) => {
+    const tagged = baseCases.find((vectorCase) => vectorCase.name === name)!;
+    return {
+      ...tagged,
+      name: `compact/${name}`,
+      options: { ...tagged.options, ...COMPACT },
+    };
+  });
+
+export const vectorCases: Array<VectorCase> = [
+  ...baseCases,
+  ...compactCases([
+    "fixed layout/lowest",
+    "fixed layout/highest",
+    "object/all fields",
+    "object/null field",
+    "object/undefined field",
+    "object/absent field",
+    "union/discriminated",
+    "literal/string",
+    "enum/green",
+    "enum/native",
+  ]),
+];
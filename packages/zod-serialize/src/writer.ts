@@ -0,0 +1,199 @@
+import { ZodSerializeError } from "./errors";
+
+/**
+ * growable buffer with a cursor
+ * all encoders write into the same writer so a value is encoded in a single pass
+ * without allocating and concatenating a buffer per encoded node
+ */
+export type Writer = {
+  buffer: ArrayBuffer;
+  bytes: Uint8Array;
+  view: DataView;
+  offset: number;
+};
+
+export const createWriter = (size = 256): Writer => {
+  const buffer = new ArrayBuffer(size);
+  return {
+    buffer,
+    bytes: new Uint8Array(buffer),
+    view: new DataView(buffer),
+    offset: 0,
+  };
+};
+
+/**
+ * make sure there is space for `length` bytes after the cursor
+ * the buffer grows by doubling its size so the encoded bytes are copied only a few times
+ */
+export const reserve = (writer: Writer, length: number): void => {
+  const required = writer.offset + length;
+  if (required <= writer.buffer.byteLength) {
+    return;
+  }
+  let size = writer.buffer.byteLength * 2;
+  while (size < required) {
+    size *= 2;
+  }
+  const buffer = new ArrayBuffer(size);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(writer.bytes.subarray(0, writer.offset));
+  writer.buffer = buffer;
+  writer.bytes = bytes;
+  writer.view = new DataView(buffer);
+};
+
+export const writeUint8 = (writer: Writer, value: number): void => {
+  reserve(writer, 1);
+  writer.view.setUint8(writer.offset, value);
+  writer.offset += 1;
+};
+
+export const writeInt8 = (writer: Writer, value: number): void => {
+  reserve(writer, 1);
+  writer.view.setInt8(writer.offset, value);
+  writer.offset += 1;
+};
+
+export const writeUint16 = (
+  writer: Writer,
+  value: number,
+  littleEndian = false,
+): void => {
+  reserve(writer, 2);
+  writer.view.setUint16(writer.offset, value, littleEndian);
+  writer.offset += 2;
+};
+
+export const writeInt16 = (
+  writer: Writer,
+  value: number,
+  littleEndian = false,
+): void => {
+  reserve(writer, 2);
+  writer.view.setInt16(writer.offset, value, littleEndian);
+  writer.offset += 2;
+};
+
+export const writeInt32 = (
+  writer: Writer,
+  value: number,
+  littleEndian = false,
+): void => {
+  reserve(writer, 4);
+  writer.view.setInt32(writer.offset, value, littleEndian);
+  writer.offset += 4;
+};
+
+export const writeBigInt64 = (
+  writer: Writer,
+  value: bigint,
+  littleEndian = false,
+): void => {
+  reserve(writer, 8);
+  writer.view.setBigInt64(writer.offset, value, littleEndian);
+  writer.offset += 8;
+};
+
+export const writeFloat64 = (
+  writer: Writer,
+  value: number,
+  littleEndian = false,
+): void => {
+  reserve(writer, 8);
+  writer.view.setFloat64(writer.offset, value, littleEndian);
+  writer.offset += 8;
+};
+
+export const writeBytes = (writer: Writer, bytes: Uint8Array): void => {
+  reserve(writer, bytes.byteLength);
+  writer.bytes.set(bytes, writer.offset);
+  writer.offset += bytes.byteLength;
+};
+
+/**
+ * a Uint8Array over the bytes of a buffer or typed array
+ * views into a bigger buffer (a node Buffer, a subarray) are not copied
+ */
+export const toBytes = (
+  buffer: ArrayBufferLike | ArrayBufferView,
+): Uint8Array =>
+  ArrayBuffer.isView(buffer)
+    ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new Uint8Array(buffer);
+
+/**
+ * copy the written bytes into a new ArrayBuffer of the exact size
+ */
+export const toArrayBuffer = (writer: Writer): ArrayBuffer =>
+  writer.buffer.slice(0, writer.offset);
+
+/**
+ * write an unsigned integer as LEB128 varint
+ * 7 bits per byte starting with the lowest bits, the highest bit of a byte is set if another byte follows
+ */
+export const writeVarUint = (writer: Writer, value: number | bigint): void => {
+  if (typeof value === "bigint") {
+    while (value >= 0x80n) {
+      writeUint8(writer, Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    writeUint8(writer, Number(value));
+    return;
+  }
+  while (value >= 0x80) {
+    writeUint8(writer, (value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  writeUint8(writer, value);
+};
+
+/**
+ * the number of bytes `writeVarUint` writes for the value
+ */
+export const varUintLength = (value: number | bigint): number => {
+  let length = 1;
+  if (typeof value === "bigint") {
+    while (value >= 0x80n) {
+      value >>= 7n;
+      length++;
+    }
+    return length;
+  }
+  while (value >= 0x80) {
+    value = Math.floor(value / 0x80);
+    length++;
+  }
+  return length;
+};
+
+// varints of lengths and ids fit into 35 bits
+export const MAX_VARUINT_LENGTH = 5;
+
+/**
+ * read a varint written by `writeVarUint`
+ * @param end the varint has to end before this offset
+ * @returns the value and the number of bytes it took up, undefined if the bytes end in the middle of the varint
+ */
+export const readVarUint = (
+  bytes: Uint8Array,
+  offset: number,
+  end = bytes.byteLength,
+): { value: number; length: number } | undefined => {
+  let value = 0;
+  for (let i = 0; i < MAX_VARUINT_LENGTH; i++) {
+    if (offset + i >= end) {
+      return undefined;
+    }
+    const byte = bytes[offset + i];
+    value += (byte & 0x7f) * 2 ** (7 * i);
+    if ((byte & 0x80) === 0) {
+      return { value, length: i + 1 };
+    }
+  }
+  throw new ZodSerializeError(
+    "LIMIT_EXCEEDED",
+    `varint is longer than ${MAX_VARUINT_LENGTH} bytes`,
+    { offset },
+  );
+};
@@ -0,0 +1,46 @@
+import z from "zod";
+import { annotate, type TypedArrayConstructor } from "./annotations";
+
+/**
+ * encode the integers of the schema (and of everything nested inside of it) as zigzag varints
+ * use it as the last step of the schema chain, zod methods like `.int()` return a schema without the annotation
+ * ```ts
+ *   const eventSchema = z.object({
+ *     id: zs.varint(z.number()),
+ *     payload: z.string(),
+ *   });
+ * ```
+ */
+export const varint = <T extends z.ZodTypeAny>(schema: T): T =>
+  annotate(schema, { integers: "varint" });
+
+/**
+ * encode the integers of the schema with fixed widths, e.g. inside a `zs.varint` schema or a varint codec
+ */
+export const fixed = <T extends z.ZodTypeAny>(schema: T): T =>
+  annotate(schema, { integers: "fixed" });
+
+/**
+ * Uint8Array that is written as raw bytes
+ * ```ts
+ *   const fileSchema = z.object({ name: z.string(), content: zs.bytes() });
+ * ```
+ */
+export const bytes = (): z.ZodType<Uint8Array> =>
+  annotate(z.instanceof(Uint8Array), { binary: Uint8Array });
+
+/**
+ * ArrayBuffer that is written as raw bytes, it is always copied when decoding
+ */
+export const arrayBuffer = (): z.ZodType<ArrayBuffer> =>
+  annotate(z.instanceof(ArrayBuffer), { binary: ArrayBuffer });
+
+/**
+ * typed array whose memory is written as raw bytes (little endian on all common platforms)
+ * ```ts
+ *   const samplesSchema = zs.typedArray(Float32Array);
+ * ```
+ */
+export const typedArray = <T extends TypedArrayConstructor>(
+  type: T,
+): z.ZodType<InstanceType<T>> => annotate(z.instanceof(type), { binary: type });
@@ -0,0 +1,14 @@
+// bun update-vectors.ts
+// writes the golden vectors of src/vectors.ts to src/vectors.json, only run it when the wire format changes on purpose
+import { createVector, PROTOCOL_VERSION } from "./src/index";
+import { vectorCases } from "./src/vectors";
+
+const vectors = [];
+for (const { name, schema, value, options } of vectorCases) {
+  vectors.push(await createVector(name, schema, value, options));
+}
+
+await Bun.write(
+  new URL("./src/vectors.json", import.meta.url).pathname,
+  JSON.stringify({ version: PROTOCOL_VERSION, vectors }, null, 2) + "\n",
+);